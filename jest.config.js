@@ -0,0 +1,10 @@
+// Tests run in a time zone east of UTC, so that dates read or written in local time are caught
+process.env.TZ = "Asia/Kolkata";
+
+/** @type {import('jest').Config} */
+export default {
+	preset: "ts-jest/presets/default-esm",
+	testEnvironment: "node",
+	roots: ["<rootDir>/tests"],
+	testMatch: ["**/*.test.ts"],
+};
@@ -9,7 +9,8 @@ const pkg = require("./package.json");
 export default [
 	// Bundle for CommonJS with preserved module structure
 	{
-		input: "index.ts",
+		// Commands are entries of their own, for their bins; they only parse the arguments when run as one
+		input: ["index.ts", "src/commands/index.ts"],
 		external: [...Object.keys(pkg.dependencies || {}), ...builtinModules],
 		plugins: [
 			resolve({ extensions: [".js", ".ts"], preferBuiltins: true, modulesOnly: true }),
@@ -1,12 +1,22 @@
 export interface JsonSchema {
     $schema?: string;
+    $id?: string;
     $ref?: string;
     type?: string;
+    description?: string;
     properties?: {
         [key: string]: any;
     };
     required?: string[];
     items?: any;
+    minItems?: number;
+    maxItems?: number;
     oneOf?: any[];
     enum?: string[];
+    definitions?: {
+        [key: string]: any;
+    };
+    $defs?: {
+        [key: string]: any;
+    };
 }
\ No newline at end of file
@@ -0,0 +1,5 @@
+export interface NameClash {
+    entity: string;
+    name: string;
+    workbooks: string[][]; // names of the workbooks using each distinct shape
+}
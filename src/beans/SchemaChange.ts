@@ -0,0 +1,13 @@
+export interface SchemaChange {
+    severity: SchemaChangeSeverity;
+    kind: string; // e.g. "column-removed", "type-narrowed"
+    sheet?: string;
+    block?: string;
+    entity?: string;
+    column?: string; // table column or list key, with the path of nested fields, e.g. "address.street"
+    message: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export type SchemaChangeSeverity = 'breaking' | 'non-breaking';
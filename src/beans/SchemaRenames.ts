@@ -0,0 +1,8 @@
+export interface SchemaRenames {
+    sheets?: {
+        [previousName: string]: string; // new name of a sheet, by its name in the previous schema
+    };
+    blocks?: {
+        [previousName: string]: string; // new name of a block, by its name in the previous schema
+    };
+}
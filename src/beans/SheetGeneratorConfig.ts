@@ -0,0 +1,14 @@
+export interface SheetGeneratorConfig {
+    // Option values of each command by alias (e2s, j2s, s2o, ...), e.g. { "input": "definitions", "output": "schemas" }
+    [command: string]: any;
+    naming?: {
+        schemaSuffix?: string; // suffix of the schema files written by e2s and j2s, ".schema.json" by default
+    };
+    workbooks?: {
+        [workbookName: string]: WorkbookConfig;
+    };
+}
+
+export interface WorkbookConfig {
+    output?: string; // output directory of the classes of the workbook, instead of the s2o output directory
+}
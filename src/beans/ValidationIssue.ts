@@ -0,0 +1,11 @@
+export interface ValidationIssue {
+    sheet?: string;
+    block?: string;
+    entity?: string;
+    row?: number;
+    column?: string;
+    rule: string;
+    message: string;
+    value?: unknown;
+    address?: string;
+}
@@ -1,4 +1,9 @@
 export * from './Block';
 export * from './JsonSchema';
+export * from './NameClash';
+export * from './SchemaChange';
+export * from './SchemaRenames';
 export * from './Sheet';
+export * from './SheetGeneratorConfig';
+export * from './ValidationIssue';
 export * from './Workbook';
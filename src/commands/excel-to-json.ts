@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import path from 'path';
+import { ExcelToJsonGeneratorUtil, SchemaRefResolverUtil } from '../utils';
+import { CommandUtil } from '../utils/CommandUtil';
+import { GeneratorUtil } from '../utils/GeneratorUtil';
+
+// Configure CLI command
+export const excelToJsonProgram = new Command();
+
+excelToJsonProgram
+    .name('excel-to-json')
+    .alias('e2j')
+    .description('Generate workbook JSON from Excel data file or directory, laid out as described by a JSON schema')
+    .version(GeneratorUtil.VERSION)
+    .requiredOption('-s, --schema <path>', 'Workbook JSON schema file')
+    .requiredOption('-i, --input <path>', 'Input Excel file or directory')
+    .requiredOption('-o, --output <path>', 'Output directory for generated JSON files')
+    .action(async (options) => {
+        try {
+            const schemaPath = path.resolve(options.schema);
+            const inputPath = path.resolve(options.input);
+            const outputDir = path.resolve(options.output);
+
+            // Check if input exists
+            if (!fs.existsSync(schemaPath)) {
+                console.error(`Error: Schema path "${schemaPath}" does not exist.`);
+                process.exit(1);
+            }
+            if (!fs.existsSync(inputPath)) {
+                console.error(`Error: Input path "${inputPath}" does not exist.`);
+                process.exit(1);
+            }
+
+            // Create output directory if needed
+            if (!fs.existsSync(outputDir)) {
+                fs.mkdirSync(outputDir, { recursive: true });
+            }
+
+            const schema = SchemaRefResolverUtil.load(schemaPath);
+
+            const processFile = (inputFile: string, relativeOutputPath: string) => {
+                if (!(inputFile.endsWith('.xlsx') || inputFile.endsWith('.xls'))) {
+                    console.error(`Error: Input file ${inputFile} must be an Excel file (.xlsx or .xls)`);
+                    return; // Don't exit, just skip the file.  Important for directory processing.
+                }
+
+                try {
+                    const { workbook, issues } = ExcelToJsonGeneratorUtil.generate(inputFile, schema);
+                    const baseName = path.basename(inputFile, path.extname(inputFile));
+                    const fullOutputPath = path.join(outputDir, relativeOutputPath, `${baseName}.json`);
+
+                    // Ensure the directory structure exists
+                    const directory = path.dirname(fullOutputPath);
+                    if (!fs.existsSync(directory)) {
+                        fs.mkdirSync(directory, { recursive: true });
+                    }
+
+                    fs.writeFileSync(fullOutputPath, JSON.stringify(workbook, null, 2));
+                    console.log(`JSON generated successfully: ${fullOutputPath}`);
+
+                    // Unknown columns and keys, and cells that could not be converted, fail the command
+                    if (issues.length > 0) {
+                        console.error(`${inputFile}: ${issues.length} cell(s) could not be read`);
+                        issues.forEach((issue) => console.error(`  ${issue.address}: ${issue.message}`));
+                        process.exitCode = 1;
+                    }
+                } catch (error) {
+                    console.error(`Error during JSON generation for ${inputFile}:`, error);
+                    process.exitCode = 1;
+                    // Don't exit; continue with other files if processing a directory.
+                }
+            };
+
+
+            if (fs.lstatSync(inputPath).isDirectory()) {
+                const processDirectory = (directory: string, relativePath: string = "") => {
+                    fs.readdirSync(directory).forEach(file => {
+                        const fullPath = path.join(directory, file);
+                        const stat = fs.lstatSync(fullPath);
+
+                        if (stat.isDirectory()) {
+                            processDirectory(fullPath, path.join(relativePath, file));
+                        } else if (stat.isFile()) {
+                            processFile(fullPath, relativePath);
+                        }
+                    });
+                };
+                processDirectory(inputPath);
+
+            } else {
+                processFile(inputPath, ""); // single file
+            }
+
+
+        } catch (error) {
+            console.error('Error during JSON generation:', error);
+            process.exit(1);
+        }
+    });
+
+// Parse CLI arguments when run as its own executable
+if (CommandUtil.isEntryPoint(import.meta.url)) {
+    excelToJsonProgram.parse(process.argv);
+}
@@ -3,18 +3,22 @@
 import { Command } from 'commander';
 import * as fs from 'fs';
 import path from 'path';
-import { ExcelToSchemaGeneratorUtil } from '../utils';
+import { ExcelToSchemaGeneratorUtil, WatchUtil } from '../utils';
+import { CommandUtil } from '../utils/CommandUtil';
+import { GeneratorUtil } from '../utils/GeneratorUtil';
 
 // Configure CLI command
-const excelToSchemaProgram = new Command();
+export const excelToSchemaProgram = new Command();
 
 excelToSchemaProgram
     .name('excel-to-schema')
     .alias('e2s')
     .description('Generate JSON schema from Excel file')
-    .version('1.0.0')
+    .version(GeneratorUtil.VERSION)
     .requiredOption('-i, --input <path>', 'Input Excel file (.xlsx) or directory')
     .requiredOption('-o, --output <path>', 'Output directory for generated schema')
+    .option('--schema-suffix <suffix>', 'Suffix of the generated schema file names', '.schema.json')
+    .option('-w, --watch', 'Keep running and regenerate the schema of each Excel file when it changes')
     .action(async (options) => {
         try {
             const inputPath = path.resolve(options.input);
@@ -32,6 +36,9 @@ excelToSchemaProgram
             }
 
             const processFile = (inputFile: string, relativeOutputPath: string) => {
+                if (WatchUtil.isTemporaryFile(inputFile)) {
+                    return; // Lock file of a workbook open in Excel
+                }
                 if (!(inputFile.endsWith('.xlsx') || inputFile.endsWith('.xls'))) {
                     console.error(`Error: Input file ${inputFile} must be an Excel file (.xlsx or .xls)`);
                     return; // Don't exit, just skip the file.  Important for directory processing.
@@ -40,7 +47,7 @@ excelToSchemaProgram
                 try {
                     const schema = ExcelToSchemaGeneratorUtil.generate(inputFile);
                     const baseName = path.basename(inputFile, path.extname(inputFile));
-                    const schemaFileName = `${baseName}.schema.json`;
+                    const schemaFileName = `${baseName}${options.schemaSuffix}`;
                     const fullOutputPath = path.join(outputDir, relativeOutputPath, schemaFileName);
 
 
@@ -61,7 +68,8 @@ excelToSchemaProgram
             };
 
 
-            if (fs.lstatSync(inputPath).isDirectory()) {
+            const isDirectory = fs.lstatSync(inputPath).isDirectory();
+            if (isDirectory) {
                 const processDirectory = (directory: string, relativePath: string = "") => {
                     fs.readdirSync(directory).forEach(file => {
                         const fullPath = path.join(directory, file);
@@ -81,6 +89,19 @@ excelToSchemaProgram
                 processFile(inputPath, "");
             }
 
+            if (options.watch) {
+                WatchUtil.watch(inputPath, {
+                    extensions: ['.xlsx', '.xls'],
+                    excludedDirectories: [outputDir],
+                    onError: (error) => console.error('Error while watching:', error),
+                }, (files) => {
+                    files
+                        .filter((file) => fs.existsSync(file))
+                        .forEach((file) => processFile(file, isDirectory ? path.relative(inputPath, path.dirname(file)) : ""));
+                });
+                console.log(`Watching ${inputPath} for changes...`);
+            }
+
 
         } catch (error) {
             console.error('Error during schema generation:', error);
@@ -88,5 +109,7 @@ excelToSchemaProgram
         }
     });
 
-// Parse CLI arguments
-excelToSchemaProgram.parse(process.argv);
\ No newline at end of file
+// Parse CLI arguments when run as its own executable
+if (CommandUtil.isEntryPoint(import.meta.url)) {
+    excelToSchemaProgram.parse(process.argv);
+}
@@ -1,3 +1,16 @@
+export * from './excel-to-json';
 export * from './excel-to-schema';
+export * from './json-to-excel';
 export * from './json-to-schema';
-export * from './schema-to-object'
\ No newline at end of file
+export * from './json-to-sql';
+export * from './schema-diff';
+export * from './schema-to-docs';
+export * from './schema-to-excel';
+export * from './schema-to-graphql';
+export * from './schema-to-migration';
+export * from './schema-to-object'
+export * from './schema-to-openapi';
+export * from './schema-to-sql';
+export * from './schema-to-template'
+export * from './sheet-generator'
+export * from './validate-workbook'
\ No newline at end of file
@@ -4,18 +4,26 @@
 import { Command } from 'commander';
 import * as fs from 'fs';
 import path from 'path';
-import { JsonToSchemaGeneratorUtil } from '../utils';
+import { Workbook } from '../beans';
+import { JsonToSchemaGeneratorUtil, JsonToSchemaOptions, WatchUtil } from '../utils';
+import { CommandUtil } from '../utils/CommandUtil';
+import { GeneratorUtil } from '../utils/GeneratorUtil';
 
 // Configure CLI command
-const jsonToSchemaProgram = new Command();
+export const jsonToSchemaProgram = new Command();
 
 jsonToSchemaProgram
     .name('json-to-schema')
     .alias('j2s')
     .description('Generate JSON schema from JSON file or directory')
-    .version('1.0.0')
+    .version(GeneratorUtil.VERSION)
     .requiredOption('-i, --input <path>', 'Input JSON file or directory')
     .requiredOption('-o, --output <path>', 'Output directory for generated schema')
+    .option('-m, --merge', 'Merge all input files into one schema per workbook name')
+    .option('--enum-threshold <count>', 'Maximum number of distinct values for a string field to be given an enum (0 to disable)', (value) => parseInt(value, 10))
+    .option('--infer-ranges', 'Fill minimum/maximum and minLength/maxLength from the observed values')
+    .option('--schema-suffix <suffix>', 'Suffix of the generated schema file names', '.schema.json')
+    .option('-w, --watch', 'Keep running and regenerate the schema of each JSON file when it changes')
     .action(async (options) => {
         try {
             const inputPath = path.resolve(options.input);
@@ -32,6 +40,15 @@ jsonToSchemaProgram
                 fs.mkdirSync(outputDir, { recursive: true });
             }
 
+            // Inference options
+            const inferenceOptions: JsonToSchemaOptions = {
+                enumThreshold: options.enumThreshold,
+                inferRanges: options.inferRanges,
+            };
+
+            // Samples grouped by workbook name, used in merge mode
+            const samplesByWorkbook = new Map<string, Workbook[]>();
+
             const processFile = (inputFile: string, relativeOutputPath: string) => {
                 if (!inputFile.endsWith('.json')) {
                     console.error(`Error: Input file ${inputFile} must be a JSON file (.json)`);
@@ -43,12 +60,20 @@ jsonToSchemaProgram
                     const jsonContent = fs.readFileSync(inputFile, 'utf-8');
                     const data = JSON.parse(jsonContent);
 
+                    // In merge mode, collect the sample and generate once all files are read
+                    if (options.merge) {
+                        const samples = samplesByWorkbook.get(data.name) ?? [];
+                        samples.push(data);
+                        samplesByWorkbook.set(data.name, samples);
+                        return;
+                    }
+
                     // Generate schema from JSON
-                    const schema = JsonToSchemaGeneratorUtil.generate(data);
+                    const schema = JsonToSchemaGeneratorUtil.generate(data, inferenceOptions);
 
                     // Write schema to output file
                     const baseName = path.basename(inputFile, '.json');
-                    const schemaFileName = `${baseName}.schema.json`;
+                    const schemaFileName = `${baseName}${options.schemaSuffix}`;
                     const fullOutputPath = path.join(outputDir, relativeOutputPath, schemaFileName);
 
                      // Ensure the directory structure exists
@@ -67,23 +92,64 @@ jsonToSchemaProgram
             };
 
 
-            if (fs.lstatSync(inputPath).isDirectory()) {
-                const processDirectory = (directory: string, relativePath: string = "") => {
-                    fs.readdirSync(directory).forEach(file => {
-                        const fullPath = path.join(directory, file);
-                        const stat = fs.lstatSync(fullPath);
+            const isDirectory = fs.lstatSync(inputPath).isDirectory();
+
+            const processInput = () => {
+                if (isDirectory) {
+                    const processDirectory = (directory: string, relativePath: string = "") => {
+                        fs.readdirSync(directory).forEach(file => {
+                            const fullPath = path.join(directory, file);
+                            const stat = fs.lstatSync(fullPath);
+
+                            // Keep schemas written into the input directory out of the samples
+                            if (fullPath === outputDir) {
+                                return;
+                            }
+                            if (stat.isDirectory()) {
+                                processDirectory(fullPath, path.join(relativePath, file));
+                            } else if (stat.isFile()) {
+                                processFile(fullPath, relativePath);
+                            }
+                        });
+                    };
+                    processDirectory(inputPath);
+
+                } else {
+                    processFile(inputPath, ""); // single file
+                }
 
-                        if (stat.isDirectory()) {
-                            processDirectory(fullPath, path.join(relativePath, file));
-                        } else if (stat.isFile()) {
-                            processFile(fullPath, relativePath);
-                        }
-                    });
-                };
-                processDirectory(inputPath);
+                // Write one merged schema per workbook name
+                samplesByWorkbook.forEach((samples, workbookName) => {
+                    try {
+                        const schema = JsonToSchemaGeneratorUtil.merge(samples, inferenceOptions);
+                        const fullOutputPath = path.join(outputDir, `${workbookName}${options.schemaSuffix}`);
 
-            } else {
-                processFile(inputPath, ""); // single file
+                        fs.writeFileSync(fullOutputPath, JSON.stringify(schema, null, 2));
+                        console.log(`Schema generated successfully from ${samples.length} sample(s): ${fullOutputPath}`);
+                    } catch (error) {
+                        console.error(`Error during schema generation for workbook ${workbookName}:`, error);
+                    }
+                });
+                samplesByWorkbook.clear();
+            };
+            processInput();
+
+            if (options.watch) {
+                WatchUtil.watch(inputPath, {
+                    extensions: ['.json'],
+                    excludedDirectories: [outputDir],
+                    onError: (error) => console.error('Error while watching:', error),
+                }, (files) => {
+                    // A merged schema depends on every sample of its workbook, so merging reads all the files again
+                    if (options.merge) {
+                        processInput();
+                        return;
+                    }
+                    files
+                        .filter((file) => fs.existsSync(file))
+                        .forEach((file) => processFile(file, isDirectory ? path.relative(inputPath, path.dirname(file)) : ""));
+                });
+                console.log(`Watching ${inputPath} for changes...`);
             }
 
 
@@ -93,5 +159,7 @@ jsonToSchemaProgram
         }
     });
 
-// Parse CLI arguments
-jsonToSchemaProgram.parse(process.argv);
\ No newline at end of file
+// Parse CLI arguments when run as its own executable
+if (CommandUtil.isEntryPoint(import.meta.url)) {
+    jsonToSchemaProgram.parse(process.argv);
+}
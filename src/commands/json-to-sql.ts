@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+
+import { Command, Option } from 'commander';
+import * as fs from 'fs';
+import path from 'path';
+import { SqlGeneratorUtil, SchemaRefResolverUtil } from '../utils';
+import { CommandUtil } from '../utils/CommandUtil';
+import { GeneratorUtil } from '../utils/GeneratorUtil';
+
+// Configure CLI command
+export const jsonToSqlProgram = new Command();
+
+jsonToSqlProgram
+    .name('json-to-sql')
+    .alias('j2sql')
+    .description('Generate SQL INSERT statements from workbook JSON file or directory, into the tables generated by schema-to-sql')
+    .version(GeneratorUtil.VERSION)
+    .requiredOption('-s, --schema <path>', 'Workbook JSON schema file')
+    .requiredOption('-i, --input <path>', 'Input workbook JSON file or directory')
+    .requiredOption('-o, --output <path>', 'Output directory for generated SQL scripts')
+    .addOption(new Option('-d, --dialect <dialect>', 'SQL dialect of the statements').choices(['postgres', 'sqlite']).default('postgres'))
+    .action(async (options) => {
+        try {
+            const schemaPath = path.resolve(options.schema);
+            const inputPath = path.resolve(options.input);
+            const outputDir = path.resolve(options.output);
+
+            // Check if input exists
+            if (!fs.existsSync(schemaPath)) {
+                console.error(`Error: Schema path "${schemaPath}" does not exist.`);
+                process.exit(1);
+            }
+            if (!fs.existsSync(inputPath)) {
+                console.error(`Error: Input path "${inputPath}" does not exist.`);
+                process.exit(1);
+            }
+
+            // Create output directory if needed
+            if (!fs.existsSync(outputDir)) {
+                fs.mkdirSync(outputDir, { recursive: true });
+            }
+
+            const schema = SchemaRefResolverUtil.load(schemaPath);
+
+            const processFile = (inputFile: string, relativeOutputPath: string) => {
+                if (!inputFile.endsWith('.json')) {
+                    console.error(`Error: Input file ${inputFile} must be a JSON file (.json)`);
+                    return; // Skip non-JSON files
+                }
+
+                try {
+                    // Read and parse JSON file
+                    const data = JSON.parse(fs.readFileSync(inputFile, 'utf-8'));
+                    // The file name identifies the workbook instance
+                    const baseName = path.basename(inputFile, '.json');
+                    const fullOutputPath = path.join(outputDir, relativeOutputPath, `${baseName}.sql`);
+
+                    // Ensure the directory structure exists
+                    const directory = path.dirname(fullOutputPath);
+                    if (!fs.existsSync(directory)) {
+                        fs.mkdirSync(directory, { recursive: true });
+                    }
+
+                    fs.writeFileSync(fullOutputPath, SqlGeneratorUtil.generateInserts(schema, data, baseName, options.dialect));
+                    console.log(`SQL script generated successfully: ${fullOutputPath}`);
+                } catch (error) {
+                    console.error(`Error during SQL generation for ${inputFile}:`, error);
+                    // Don't exit; continue with other files if processing a directory.
+                }
+            };
+
+
+            if (fs.lstatSync(inputPath).isDirectory()) {
+                const processDirectory = (directory: string, relativePath: string = "") => {
+                    fs.readdirSync(directory).forEach(file => {
+                        const fullPath = path.join(directory, file);
+                        const stat = fs.lstatSync(fullPath);
+
+                        if (stat.isDirectory()) {
+                            processDirectory(fullPath, path.join(relativePath, file));
+                        } else if (stat.isFile()) {
+                            processFile(fullPath, relativePath);
+                        }
+                    });
+                };
+                processDirectory(inputPath);
+
+            } else {
+                processFile(inputPath, ""); // single file
+            }
+
+
+        } catch (error) {
+            console.error('Error during SQL generation:', error);
+            process.exit(1);
+        }
+    });
+
+// Parse CLI arguments when run as its own executable
+if (CommandUtil.isEntryPoint(import.meta.url)) {
+    jsonToSqlProgram.parse(process.argv);
+}
@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+
+import { Command, Option } from 'commander';
+import * as fs from 'fs';
+import path from 'path';
+import { SchemaRenames } from '../beans';
+import { SchemaDiffUtil, SchemaRefResolverUtil } from '../utils';
+import { CommandUtil } from '../utils/CommandUtil';
+import { GeneratorUtil } from '../utils/GeneratorUtil';
+
+// Configure CLI command
+export const schemaDiffProgram = new Command();
+
+schemaDiffProgram
+    .name('schema-diff')
+    .alias('diff')
+    .description('Compare two versions of a workbook JSON schema and report breaking and non-breaking changes')
+    .version(GeneratorUtil.VERSION)
+    .requiredOption('-b, --base <path>', 'Previous version of the workbook JSON schema file')
+    .requiredOption('-s, --schema <path>', 'New version of the workbook JSON schema file')
+    .option('-r, --renames <path>', 'JSON file of the renamed sheets and blocks, e.g. { "sheets": { "old_name": "new_name" }, "blocks": { ... } }')
+    .option('--json', 'Print a machine-readable JSON report instead of messages')
+    .addOption(new Option('--fail-on <severity>', 'Exit with a non-zero code on changes of this severity or above').choices(['breaking', 'non-breaking', 'none']).default('breaking'))
+    .action(async (options) => {
+        try {
+            const basePath = path.resolve(options.base);
+            const schemaPath = path.resolve(options.schema);
+
+            // Check if input exists
+            [basePath, schemaPath, ...(options.renames ? [path.resolve(options.renames)] : [])].forEach((inputFile) => {
+                if (!fs.existsSync(inputFile)) {
+                    console.error(`Error: Input path "${inputFile}" does not exist.`);
+                    process.exit(1);
+                }
+            });
+
+            const renames: SchemaRenames = options.renames ? JSON.parse(fs.readFileSync(path.resolve(options.renames), 'utf-8')) : {};
+            const changes = SchemaDiffUtil.diff(SchemaRefResolverUtil.load(basePath), SchemaRefResolverUtil.load(schemaPath), renames);
+            const breaking = changes.filter(({ severity }) => severity === 'breaking');
+
+            if (options.json) {
+                console.log(JSON.stringify({ base: basePath, schema: schemaPath, breaking: breaking.length > 0, changes }, null, 2));
+            } else if (changes.length === 0) {
+                console.log('No changes');
+            } else {
+                changes.forEach((change) => (change.severity === 'breaking' ? console.error : console.log)(SchemaDiffUtil.format(change)));
+                console.log(`${changes.length} change(s), ${breaking.length} breaking`);
+            }
+
+            // Fail on changes of the given severity
+            if ((options.failOn === 'breaking' && breaking.length > 0) || (options.failOn === 'non-breaking' && changes.length > 0)) {
+                process.exitCode = 1;
+            }
+
+        } catch (error) {
+            console.error('Error comparing schemas:', error);
+            process.exit(1);
+        }
+    });
+
+// Parse CLI arguments when run as its own executable
+if (CommandUtil.isEntryPoint(import.meta.url)) {
+    schemaDiffProgram.parse(process.argv);
+}
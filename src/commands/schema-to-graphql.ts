@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import path from 'path';
+import { GraphqlGeneratorUtil, SchemaRefResolverUtil } from '../utils';
+import { CommandUtil } from '../utils/CommandUtil';
+import { GeneratorUtil } from '../utils/GeneratorUtil';
+
+// Configure CLI command
+export const schemaToGraphqlProgram = new Command();
+
+schemaToGraphqlProgram
+    .name('schema-to-graphql')
+    .alias('s2gql')
+    .description('Generate GraphQL SDL types from JSON schema file or directory')
+    .version(GeneratorUtil.VERSION)
+    .requiredOption('-i, --input <path>', 'Input schema file or directory')
+    .requiredOption('-o, --output <path>', 'Output directory for generated GraphQL SDL files')
+    .action(async (options) => {
+        try {
+            const inputPath = path.resolve(options.input);
+            const outputDir = path.resolve(options.output);
+
+            // Check if input exists
+            if (!fs.existsSync(inputPath)) {
+                console.error(`Error: Input path "${inputPath}" does not exist.`);
+                process.exit(1);
+            }
+
+            // Create output directory if needed
+            if (!fs.existsSync(outputDir)) {
+                fs.mkdirSync(outputDir, { recursive: true });
+            }
+
+            const processFile = (inputFile: string, relativeOutputPath: string) => {
+                if (!inputFile.endsWith('.json')) {
+                    console.error(`Error: Input file ${inputFile} must be a JSON file (.json)`);
+                    return; // Skip non-JSON files
+                }
+
+                try {
+                    // Read and parse schema file, resolving refs relative to it
+                    const schema = SchemaRefResolverUtil.load(inputFile);
+
+                    // Schemas of shared blocks only, referenced by the workbook schemas
+                    if (!schema.properties?.sheets) {
+                        console.log(`Skipping ${inputFile}: not a workbook schema`);
+                        return;
+                    }
+
+                    const workbookName = GeneratorUtil.getFirstEnum(schema, 'name');
+                    const fullOutputPath = path.join(outputDir, relativeOutputPath, `${workbookName}.graphql`);
+
+                    // Ensure the directory structure exists
+                    const directory = path.dirname(fullOutputPath);
+                    if (!fs.existsSync(directory)) {
+                        fs.mkdirSync(directory, { recursive: true });
+                    }
+
+                    fs.writeFileSync(fullOutputPath, GraphqlGeneratorUtil.generate(schema));
+                    console.log(`GraphQL SDL generated successfully: ${fullOutputPath}`);
+                } catch (error) {
+                    console.error(`Error during GraphQL generation for ${inputFile}:`, error);
+                    // Don't exit; continue with other files if processing a directory.
+                }
+            };
+
+
+            if (fs.lstatSync(inputPath).isDirectory()) {
+                // Load every schema first, so that refs by "$id" resolve to the other files
+                SchemaRefResolverUtil.loadDirectory(inputPath);
+
+                const processDirectory = (directory: string, relativePath: string = "") => {
+                    fs.readdirSync(directory).forEach(file => {
+                        const fullPath = path.join(directory, file);
+                        const stat = fs.lstatSync(fullPath);
+
+                        if (stat.isDirectory()) {
+                            processDirectory(fullPath, path.join(relativePath, file));
+                        } else if (stat.isFile()) {
+                            processFile(fullPath, relativePath);
+                        }
+                    });
+                };
+                processDirectory(inputPath);
+
+            } else {
+                processFile(inputPath, ""); // single file
+            }
+
+
+        } catch (error) {
+            console.error('Error during GraphQL generation:', error);
+            process.exit(1);
+        }
+    });
+
+// Parse CLI arguments when run as its own executable
+if (CommandUtil.isEntryPoint(import.meta.url)) {
+    schemaToGraphqlProgram.parse(process.argv);
+}
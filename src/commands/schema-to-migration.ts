@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import path from 'path';
+import { SchemaRenames } from '../beans';
+import { MigrationGeneratorUtil, SchemaRefResolverUtil } from '../utils';
+import { CommandUtil } from '../utils/CommandUtil';
+import { GeneratorUtil } from '../utils/GeneratorUtil';
+
+// Configure CLI command
+export const schemaToMigrationProgram = new Command();
+
+schemaToMigrationProgram
+    .name('schema-to-migration')
+    .alias('s2m')
+    .description('Generate a TypeScript module migrating workbook JSON instances of a previous version of a JSON schema to the new version')
+    .version(GeneratorUtil.VERSION)
+    .requiredOption('-b, --base <path>', 'Previous version of the workbook JSON schema file')
+    .requiredOption('-s, --schema <path>', 'New version of the workbook JSON schema file')
+    .requiredOption('-o, --output <path>', 'Output TypeScript file of the migration module')
+    .option('-r, --renames <path>', 'JSON file of the renamed sheets and blocks, e.g. { "sheets": { "old_name": "new_name" }, "blocks": { ... } }')
+    .action(async (options) => {
+        try {
+            const basePath = path.resolve(options.base);
+            const schemaPath = path.resolve(options.schema);
+            const outputPath = path.resolve(options.output);
+
+            // Check if input exists
+            [basePath, schemaPath, ...(options.renames ? [path.resolve(options.renames)] : [])].forEach((inputFile) => {
+                if (!fs.existsSync(inputFile)) {
+                    console.error(`Error: Input path "${inputFile}" does not exist.`);
+                    process.exit(1);
+                }
+            });
+
+            const renames: SchemaRenames = options.renames ? JSON.parse(fs.readFileSync(path.resolve(options.renames), 'utf-8')) : {};
+            const content = MigrationGeneratorUtil.generate(SchemaRefResolverUtil.load(basePath), SchemaRefResolverUtil.load(schemaPath), renames);
+
+            // Ensure the directory structure exists
+            fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+            fs.writeFileSync(outputPath, content);
+            console.log(`Generated migration: ${outputPath}`);
+
+        } catch (error) {
+            console.error('Error generating migration:', error);
+            process.exit(1);
+        }
+    });
+
+// Parse CLI arguments when run as its own executable
+if (CommandUtil.isEntryPoint(import.meta.url)) {
+    schemaToMigrationProgram.parse(process.argv);
+}
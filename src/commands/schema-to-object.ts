@@ -1,21 +1,29 @@
 #!/usr/bin/env node
 /* eslint-disable no-console */
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import * as fs from 'fs';
 import path from 'path';
-import { ObjectGeneratorUtil } from '../utils';
+import { JsonSchema } from '../beans';
+import { ObjectGeneratorUtil, SchemaRefResolverUtil, WatchUtil } from '../utils';
+import { CommandUtil } from '../utils/CommandUtil';
+import { GeneratorUtil } from '../utils/GeneratorUtil';
 
 // Configure CLI command
-const schemaToObjectProgram = new Command();
+export const schemaToObjectProgram = new Command();
 
 schemaToObjectProgram
     .name('schema-to-objects')
     .alias('s2o')
     .description('Generate TypeScript classes from JSON schema file or directory')
-    .version('1.0.0')
+    .version(GeneratorUtil.VERSION)
     .requiredOption('-i, --input <path>', 'Input schema file or directory')
     .requiredOption('-o, --output <path>', 'Output directory for generated TypeScript files')
+    .addOption(new Option('-t, --target <target>', 'What to generate: classes, Zod schemas, plain interfaces or Python pydantic models (one module per workbook)').choices(['classes', 'zod', 'interfaces', 'pydantic']).default('classes'))
+    .option('--check', 'Print a diff and exit with a non-zero code if the output directory is not up to date, without writing files')
+    .option('--clean', 'Delete files of a previous run that are no longer generated, keeping a manifest of the generated files')
+    .option('--workbook-output <workbook=path...>', 'Output directory for the classes of a workbook, instead of the output directory')
+    .option('-w, --watch', 'Keep running and regenerate the classes of each schema when it, or a schema it references, changes')
     .action(async (options) => {
         try {
             const inputPath = path.resolve(options.input);
@@ -28,34 +36,94 @@ schemaToObjectProgram
             }
 
             // Create output directory if needed
-            if (!fs.existsSync(outputDir)) {
+            if (!options.check && !fs.existsSync(outputDir)) {
                 fs.mkdirSync(outputDir, { recursive: true });
             }
+
+            // Output directories of single workbooks, by workbook name
+            const workbookOutputs = new Map<string, string>();
+            (options.workbookOutput ?? []).forEach((value: string) => {
+                const separator = value.indexOf('=');
+                if (separator <= 0) {
+                    console.error(`Error: Invalid --workbook-output "${value}", expected <workbook>=<path>.`);
+                    process.exit(1);
+                }
+                workbookOutputs.set(value.substring(0, separator), path.resolve(value.substring(separator + 1)));
+            });
+
+            // Workbook schemas by file, by output directory, each directory being generated as one project
+            const projects = new Map<string, Map<string, JsonSchema>>();
+
             const processFile = (inputFile: string, relativeOutputPath: string) => {
               if (!inputFile.endsWith('.json')) { // Assuming .schema.json, but could also be just .json
                   console.error(`Error: Input file ${inputFile} must be a JSON file (.json)`);
                   return; // Skip non-JSON files
               }
 
+              // Forget a previous version of the file
+              projects.forEach((schemas) => schemas.delete(inputFile));
+
               try {
-                // Read and parse schema file
-                const schemaContent = fs.readFileSync(inputFile, 'utf-8');
-                const schema = JSON.parse(schemaContent);
+                // Read and parse schema file, resolving refs relative to it
+                const schema = SchemaRefResolverUtil.load(inputFile);
 
-                // Generate TypeScript classes from schema
-                // Pass the relative output path to the generator
-                ObjectGeneratorUtil.generate(schema, path.join(outputDir, relativeOutputPath));
+                // Schemas of shared blocks only, referenced by the workbook schemas
+                if (!schema.properties?.sheets) {
+                    console.log(`Skipping ${inputFile}: not a workbook schema`);
+                    return;
+                }
 
-                console.log(`TypeScript classes generated successfully for: ${inputFile} in ${path.join(outputDir, relativeOutputPath)}`);
+                const projectDir = workbookOutputs.get(GeneratorUtil.getFirstEnum(schema, 'name')) ?? path.join(outputDir, relativeOutputPath);
+                projects.set(projectDir, (projects.get(projectDir) ?? new Map<string, JsonSchema>()).set(inputFile, schema));
 
               } catch (error: Error | any) { 
-                console.error(`Error during TypeScript class generation for ${inputFile}:`, error.message || error); // more robust error message
+                console.error(`Error reading schema ${inputFile}:`, error.message || error);
                 // Don't exit; continue with other files.
               }
           };
 
+          // Generate the workbooks of an output directory together, with one set of mixins and one index
+          const generateProject = (projectDir: string) => {
+              const entries = projects.get(projectDir);
+              if (!entries || entries.size === 0) {
+                  return;
+              }
+
+              try {
+                  const schemas = Array.from(entries.values());
+
+                  if (options.check) {
+                      const { diffs, clashes } = ObjectGeneratorUtil.checkProject(schemas, projectDir, { clean: options.clean, target: options.target });
+                      clashes.forEach((clash) => console.error(`Error: ${ObjectGeneratorUtil.formatClash(clash)}`));
+                      diffs.forEach((diff) => process.stdout.write(diff));
+                      if (clashes.length > 0 || diffs.length > 0) {
+                          console.error(`${projectDir} is not up to date: ${diffs.length} file(s) would change`);
+                          process.exitCode = 1;
+                      } else {
+                          console.log(`${projectDir} is up to date`);
+                      }
+                      return;
+                  }
+
+                  const clashes = ObjectGeneratorUtil.generateProject(schemas, projectDir, { clean: options.clean, target: options.target });
+                  if (clashes.length > 0) {
+                      console.error(`Error: nothing generated in ${projectDir}, names are used for different shapes:`);
+                      clashes.forEach((clash) => console.error(`  ${ObjectGeneratorUtil.formatClash(clash)}`));
+                      process.exitCode = 1;
+                      return;
+                  }
+                  entries.forEach((_schema, inputFile) => console.log(`${{ zod: 'Zod schemas', interfaces: 'TypeScript interfaces', pydantic: 'Pydantic models' }[options.target as string] ?? 'TypeScript classes'} generated successfully for: ${inputFile} in ${projectDir}`));
+              } catch (error: Error | any) {
+                  console.error(`Error during TypeScript class generation in ${projectDir}:`, error.message || error);
+                  process.exitCode = 1;
+              }
+          };
+
+          const isDirectory = fs.lstatSync(inputPath).isDirectory();
+          if (isDirectory) {
+              // Load every schema first, so that refs by "$id" resolve to the other files
+              SchemaRefResolverUtil.loadDirectory(inputPath);
 
-          if (fs.lstatSync(inputPath).isDirectory()) {
               const processDirectory = (directory: string, relativePath: string = "") => {
                     fs.readdirSync(directory).forEach((file) => {
                         const fullPath = path.join(directory, file);
@@ -72,11 +140,50 @@ schemaToObjectProgram
           } else {
             processFile(inputPath, "")
           }
+
+          projects.forEach((_schemas, projectDir) => generateProject(projectDir));
+
+          if (options.watch) {
+              WatchUtil.watch(inputPath, {
+                  extensions: ['.json'],
+                  excludedDirectories: [outputDir],
+                  onError: (error) => console.error('Error while watching:', error),
+              }, (files) => {
+                  const changedProjects = new Set<string>();
+
+                  files.forEach((file) => {
+                      SchemaRefResolverUtil.unload(file);
+                      projects.forEach((schemas, projectDir) => {
+                          if (schemas.delete(file)) {
+                              changedProjects.add(projectDir);
+                          }
+                      });
+
+                      if (fs.existsSync(file)) {
+                          processFile(file, isDirectory ? path.relative(inputPath, path.dirname(file)) : "");
+                      }
+                  });
+
+                  // Projects with a changed workbook schema, or with a workbook schema referencing a changed file
+                  projects.forEach((schemas, projectDir) => {
+                      schemas.forEach((schema, inputFile) => {
+                          if (files.includes(inputFile) || SchemaRefResolverUtil.getReferencedFiles(schema).some((file) => files.includes(file))) {
+                              changedProjects.add(projectDir);
+                          }
+                      });
+                  });
+
+                  changedProjects.forEach((projectDir) => generateProject(projectDir));
+              });
+              console.log(`Watching ${inputPath} for changes...`);
+          }
         } catch (error) {
             console.error('Error during TypeScript class generation:', error);
             process.exit(1);
         }
     });
 
-// Parse CLI arguments
-schemaToObjectProgram.parse(process.argv);
\ No newline at end of file
+// Parse CLI arguments when run as its own executable
+if (CommandUtil.isEntryPoint(import.meta.url)) {
+    schemaToObjectProgram.parse(process.argv);
+}
@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+
+import { Command } from 'commander';
+import { ConfigUtil } from '../utils';
+import { CommandUtil } from '../utils/CommandUtil';
+import { GeneratorUtil } from '../utils/GeneratorUtil';
+import { excelToJsonProgram } from './excel-to-json';
+import { excelToSchemaProgram } from './excel-to-schema';
+import { jsonToExcelProgram } from './json-to-excel';
+import { jsonToSchemaProgram } from './json-to-schema';
+import { jsonToSqlProgram } from './json-to-sql';
+import { schemaDiffProgram } from './schema-diff';
+import { schemaToDocsProgram } from './schema-to-docs';
+import { schemaToExcelProgram } from './schema-to-excel';
+import { schemaToGraphqlProgram } from './schema-to-graphql';
+import { schemaToMigrationProgram } from './schema-to-migration';
+import { schemaToObjectProgram } from './schema-to-object';
+import { schemaToOpenApiProgram } from './schema-to-openapi';
+import { schemaToSqlProgram } from './schema-to-sql';
+import { schemaToTemplateProgram } from './schema-to-template';
+import { validateWorkbookProgram } from './validate-workbook';
+
+// Configure CLI command
+export const sheetGeneratorProgram = new Command();
+
+sheetGeneratorProgram
+    .name('sheet-generator')
+    .description('Generate JSON schemas, TypeScript classes and Excel files for sheet objects')
+    .version(GeneratorUtil.VERSION)
+    .option('-c, --config <path>', `Configuration file, by default ${ConfigUtil.CONFIG_FILE_NAMES.join(' or ')} in the working directory`)
+    .hook('preSubcommand', async (thisCommand, subcommand) => {
+        // Options missing from the command line are taken from the configuration of the command
+        try {
+            const config = await ConfigUtil.load(thisCommand.opts().config);
+            if (config && subcommand.aliases().length > 0) {
+                CommandUtil.applyOptions(subcommand, ConfigUtil.getCommandOptions(config, subcommand.aliases()[0]));
+            }
+        } catch (error: Error | any) {
+            console.error('Error reading configuration:', error.message || error);
+            process.exit(1);
+        }
+    });
+
+[
+    excelToSchemaProgram,
+    jsonToSchemaProgram,
+    schemaToObjectProgram,
+    excelToJsonProgram,
+    jsonToExcelProgram,
+    schemaToExcelProgram,
+    schemaToTemplateProgram,
+    validateWorkbookProgram,
+    schemaDiffProgram,
+    schemaToMigrationProgram,
+    schemaToOpenApiProgram,
+    schemaToDocsProgram,
+    schemaToSqlProgram,
+    jsonToSqlProgram,
+    schemaToGraphqlProgram,
+].forEach((program) => sheetGeneratorProgram.addCommand(program));
+
+sheetGeneratorProgram
+    .command('build')
+    .description('Generate the JSON schemas of the Excel files (e2s), then the TypeScript classes of the schemas (s2o), as configured')
+    .action(async () => {
+        try {
+            const config = await ConfigUtil.load(sheetGeneratorProgram.opts().config);
+            if (!config?.e2s || !config?.s2o) {
+                console.error('Error: build needs the "e2s" and "s2o" sections of the configuration file.');
+                process.exit(1);
+            }
+
+            CommandUtil.applyOptions(excelToSchemaProgram, ConfigUtil.getCommandOptions(config, 'e2s'));
+            await excelToSchemaProgram.parseAsync([], { from: 'user' });
+
+            CommandUtil.applyOptions(schemaToObjectProgram, ConfigUtil.getCommandOptions(config, 's2o'));
+            await schemaToObjectProgram.parseAsync([], { from: 'user' });
+        } catch (error) {
+            console.error('Error during build:', error);
+            process.exit(1);
+        }
+    });
+
+// Parse CLI arguments when run as its own executable
+if (CommandUtil.isEntryPoint(import.meta.url)) {
+    sheetGeneratorProgram.parseAsync(process.argv);
+}
@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import path from 'path';
+import { ValidationIssue } from '../beans';
+import { WorkbookValidatorUtil, SchemaRefResolverUtil } from '../utils';
+import { CommandUtil } from '../utils/CommandUtil';
+import { GeneratorUtil } from '../utils/GeneratorUtil';
+
+// Configure CLI command
+export const validateWorkbookProgram = new Command();
+
+validateWorkbookProgram
+    .name('validate-workbook')
+    .alias('validate')
+    .description('Validate workbook JSON file or directory against its JSON schema')
+    .version(GeneratorUtil.VERSION)
+    .requiredOption('-s, --schema <path>', 'Workbook JSON schema file')
+    .requiredOption('-i, --input <path>', 'Input workbook JSON file or directory')
+    .option('--json', 'Print a machine-readable JSON report instead of messages')
+    .action(async (options) => {
+        try {
+            const schemaPath = path.resolve(options.schema);
+            const inputPath = path.resolve(options.input);
+
+            // Check if input exists
+            if (!fs.existsSync(schemaPath)) {
+                console.error(`Error: Schema path "${schemaPath}" does not exist.`);
+                process.exit(1);
+            }
+            if (!fs.existsSync(inputPath)) {
+                console.error(`Error: Input path "${inputPath}" does not exist.`);
+                process.exit(1);
+            }
+
+            const schema = SchemaRefResolverUtil.load(schemaPath);
+
+            // One entry per validated file
+            const report: Array<{ file: string; valid: boolean; issues: ValidationIssue[] }> = [];
+
+            const processFile = (inputFile: string) => {
+                if (!inputFile.endsWith('.json')) {
+                    console.error(`Error: Input file ${inputFile} must be a JSON file (.json)`);
+                    return; // Skip non-JSON files
+                }
+
+                let issues: ValidationIssue[];
+                try {
+                    const data = JSON.parse(fs.readFileSync(inputFile, 'utf-8'));
+                    issues = WorkbookValidatorUtil.validate(data, schema);
+                } catch (error) {
+                    issues = [{ rule: 'parse', message: error instanceof Error ? error.message : String(error) }];
+                }
+                report.push({ file: inputFile, valid: issues.length === 0, issues });
+            };
+
+
+            if (fs.lstatSync(inputPath).isDirectory()) {
+                const processDirectory = (directory: string) => {
+                    fs.readdirSync(directory).forEach(file => {
+                        const fullPath = path.join(directory, file);
+                        const stat = fs.lstatSync(fullPath);
+
+                        if (stat.isDirectory()) {
+                            processDirectory(fullPath);
+                        } else if (stat.isFile()) {
+                            processFile(fullPath);
+                        }
+                    });
+                };
+                processDirectory(inputPath);
+
+            } else {
+                processFile(inputPath); // single file
+            }
+
+            if (options.json) {
+                console.log(JSON.stringify(report, null, 2));
+            } else {
+                report.forEach(({ file, valid, issues }) => {
+                    if (valid) {
+                        console.log(`${file}: valid`);
+                        return;
+                    }
+                    console.error(`${file}: ${issues.length} issue(s)`);
+                    issues.forEach((issue) => console.error(`  ${WorkbookValidatorUtil.format(issue)}`));
+                });
+            }
+
+            // Fail when any file is invalid
+            if (report.some(({ valid }) => !valid)) {
+                process.exitCode = 1;
+            }
+
+
+        } catch (error) {
+            console.error('Error during validation:', error);
+            process.exit(1);
+        }
+    });
+
+// Parse CLI arguments when run as its own executable
+if (CommandUtil.isEntryPoint(import.meta.url)) {
+    validateWorkbookProgram.parse(process.argv);
+}
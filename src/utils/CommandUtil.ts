@@ -0,0 +1,36 @@
+import { Command } from "commander";
+import fs from "fs";
+import { fileURLToPath } from "url";
+
+/**
+ * Utility class for the command-line programs, which run on their own or as subcommands of `sheet-generator`.
+ */
+export class CommandUtil {
+	/**
+	 * Whether a module is the script run by node, rather than a module imported by another command.
+	 * @param moduleUrl The URL of the module, i.e. `import.meta.url`
+	 */
+	public static isEntryPoint(moduleUrl: string): boolean {
+		const script = process.argv[1];
+		if (!script || !fs.existsSync(script)) {
+			return false;
+		}
+		// Installed bins are symlinks to the script
+		return fs.realpathSync(script) === fs.realpathSync(fileURLToPath(moduleUrl));
+	}
+
+	/**
+	 * Sets option values of a command, from a configuration file. Values given on the command line take precedence.
+	 * @param command The command
+	 * @param values The option values, by option name in camel case (e.g. "enumThreshold" for `--enum-threshold`)
+	 * @throws If the command has no option of that name
+	 */
+	public static applyOptions(command: Command, values: Record<string, unknown>): void {
+		Object.entries(values).forEach(([name, value]) => {
+			if (!command.options.some((option) => option.attributeName() === name)) {
+				throw new Error(`Unknown option "${name}" for command "${command.name()}"`);
+			}
+			command.setOptionValueWithSource(name, value, "config");
+		});
+	}
+}
@@ -0,0 +1,103 @@
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import { SheetGeneratorConfig } from "../beans";
+
+/**
+ * Utility class for reading the `sheet-generator` configuration file.
+ *
+ * The file holds the option values of each command by alias, e.g. `"s2o": { "input": "schemas", "output": "src/generated" }`,
+ * naming options shared by the commands, and overrides for single workbooks.
+ * Paths are relative to the directory of the configuration file.
+ */
+export class ConfigUtil {
+	/**
+	 * Names of the configuration files looked for in the working directory, in order of precedence
+	 */
+	public static readonly CONFIG_FILE_NAMES = ["sheet-generator.config.json", "sheet-generator.config.js"];
+
+	/**
+	 * Command options holding paths, resolved against the directory of the configuration file
+	 */
+	private static readonly PATH_OPTIONS = ["input", "output", "schema", "base", "renames"];
+
+	/**
+	 * Reads a configuration file, a JSON file or a JavaScript module exporting the configuration.
+	 * @param configPath Path of the configuration file, by default the first of {@link CONFIG_FILE_NAMES} found in the working directory
+	 * @returns The configuration with absolute paths, or undefined if no path is given and no configuration file is found
+	 * @throws If the file does not exist or cannot be read
+	 */
+	public static async load(configPath?: string): Promise<SheetGeneratorConfig | undefined> {
+		const filePath = configPath ? path.resolve(configPath) : this.CONFIG_FILE_NAMES.map((name) => path.resolve(name)).find((name) => fs.existsSync(name));
+		if (!filePath) {
+			return undefined;
+		}
+		if (!fs.existsSync(filePath)) {
+			throw new Error(`Configuration file "${filePath}" does not exist.`);
+		}
+
+		let config: SheetGeneratorConfig;
+		if (filePath.endsWith(".json")) {
+			config = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+		} else {
+			const module = await import(pathToFileURL(filePath).href);
+			config = module.default ?? module;
+		}
+
+		return this.resolvePaths(config, path.dirname(filePath));
+	}
+
+	/**
+	 * Returns the option values of a command from a configuration, including the naming options and workbook overrides it uses.
+	 * @param config The configuration
+	 * @param alias The alias of the command, e.g. "s2o"
+	 */
+	public static getCommandOptions(config: SheetGeneratorConfig, alias: string): Record<string, unknown> {
+		const values: Record<string, unknown> = { ...(config[alias] ?? {}) };
+
+		if ((alias === "e2s" || alias === "j2s") && config.naming?.schemaSuffix !== undefined && values.schemaSuffix === undefined) {
+			values.schemaSuffix = config.naming.schemaSuffix;
+		}
+
+		// The classes are generated from the schemas written by e2s, unless another input is configured
+		if (alias === "s2o" && values.input === undefined && config.e2s?.output !== undefined) {
+			values.input = config.e2s.output;
+		}
+
+		if (alias === "s2o" && config.workbooks) {
+			const workbookOutputs = Object.entries(config.workbooks)
+				.filter(([, workbook]) => workbook.output)
+				.map(([workbookName, workbook]) => `${workbookName}=${workbook.output}`);
+			if (workbookOutputs.length > 0) {
+				values.workbookOutput = workbookOutputs;
+			}
+		}
+
+		return values;
+	}
+
+	/**
+	 * Resolves the paths of a configuration against the directory of the configuration file.
+	 */
+	private static resolvePaths(config: SheetGeneratorConfig, directory: string): SheetGeneratorConfig {
+		const resolved: SheetGeneratorConfig = { ...config };
+
+		Object.entries(config).forEach(([key, values]) => {
+			if (key === "naming" || key === "workbooks" || !values || typeof values !== "object") {
+				return;
+			}
+			resolved[key] = { ...values };
+			this.PATH_OPTIONS.filter((option) => typeof values[option] === "string").forEach((option) => {
+				resolved[key][option] = path.resolve(directory, values[option]);
+			});
+		});
+
+		if (config.workbooks) {
+			resolved.workbooks = Object.fromEntries(
+				Object.entries(config.workbooks).map(([workbookName, workbook]) => [workbookName, workbook.output ? { ...workbook, output: path.resolve(directory, workbook.output) } : workbook]),
+			);
+		}
+
+		return resolved;
+	}
+}
@@ -0,0 +1,120 @@
+/**
+ * A line of a diff: kept (" "), removed ("-") or added ("+"),
+ * with the number of lines of each text before it
+ */
+interface DiffLine {
+	type: " " | "-" | "+";
+	text: string;
+	oldIndex: number;
+	newIndex: number;
+}
+
+/**
+ * Utility class for comparing texts line by line.
+ */
+export class DiffUtil {
+	/**
+	 * Returns the unified diff of two texts, like `diff -u`, or an empty string if they are equal.
+	 * @param oldText The text before the change, empty for a new file
+	 * @param newText The text after the change, empty for a deleted file
+	 * @param oldName The name of the old file in the header, e.g. "a/index.ts" or "/dev/null"
+	 * @param newName The name of the new file in the header
+	 * @param context The number of unchanged lines shown around each change
+	 */
+	public static unifiedDiff(oldText: string, newText: string, oldName: string, newName: string, context: number = 3): string {
+		if (oldText === newText) {
+			return "";
+		}
+
+		const lines = this.diffLines(this.splitLines(oldText), this.splitLines(newText));
+		const output = [`--- ${oldName}`, `+++ ${newName}`];
+
+		let index = 0;
+		while (index < lines.length) {
+			if (lines[index].type === " ") {
+				index++;
+				continue;
+			}
+
+			// Extend the hunk over the following changes separated by at most twice the context
+			let last = index;
+			let next = index + 1;
+			while (next < lines.length) {
+				if (lines[next].type !== " ") {
+					last = next;
+					next++;
+					continue;
+				}
+				let unchanged = next;
+				while (unchanged < lines.length && lines[unchanged].type === " ") {
+					unchanged++;
+				}
+				if (unchanged === lines.length || unchanged - next > 2 * context) {
+					break;
+				}
+				next = unchanged;
+			}
+
+			const start = Math.max(0, index - context);
+			const end = Math.min(lines.length, last + context + 1);
+			const hunk = lines.slice(start, end);
+			const oldCount = hunk.filter((line) => line.type !== "+").length;
+			const newCount = hunk.filter((line) => line.type !== "-").length;
+			const oldStart = oldCount > 0 ? hunk[0].oldIndex + 1 : hunk[0].oldIndex;
+			const newStart = newCount > 0 ? hunk[0].newIndex + 1 : hunk[0].newIndex;
+
+			output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+			hunk.forEach((line) => output.push(`${line.type}${line.text}`));
+			index = end;
+		}
+
+		return `${output.join("\n")}\n`;
+	}
+
+	/**
+	 * Splits a text into lines, without the empty line after a final line break.
+	 */
+	private static splitLines(text: string): string[] {
+		if (text === "") {
+			return [];
+		}
+		const lines = text.split(/\r?\n/);
+		if (lines[lines.length - 1] === "") {
+			lines.pop();
+		}
+		return lines;
+	}
+
+	/**
+	 * Matches the lines of two texts by their longest common subsequence.
+	 */
+	private static diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+		const width = newLines.length + 1;
+
+		// common[i * width + j] is the length of the longest common subsequence of oldLines[i..] and newLines[j..]
+		const common = new Uint32Array((oldLines.length + 1) * width);
+		for (let i = oldLines.length - 1; i >= 0; i--) {
+			for (let j = newLines.length - 1; j >= 0; j--) {
+				common[i * width + j] = oldLines[i] === newLines[j] ? common[(i + 1) * width + j + 1] + 1 : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+			}
+		}
+
+		const lines: DiffLine[] = [];
+		let i = 0;
+		let j = 0;
+		while (i < oldLines.length || j < newLines.length) {
+			if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+				lines.push({ type: " ", text: oldLines[i], oldIndex: i, newIndex: j });
+				i++;
+				j++;
+			} else if (i < oldLines.length && (j === newLines.length || common[(i + 1) * width + j] >= common[i * width + j + 1])) {
+				lines.push({ type: "-", text: oldLines[i], oldIndex: i, newIndex: j });
+				i++;
+			} else {
+				lines.push({ type: "+", text: newLines[j], oldIndex: i, newIndex: j });
+				j++;
+			}
+		}
+		return lines;
+	}
+}
@@ -0,0 +1,370 @@
+import { JsonSchema } from "../beans";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { SchemaDiffUtil } from "./SchemaDiffUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+
+/**
+ * A documented column of a table, key of a list, or nested field of either
+ */
+interface DocsField {
+	field: string;
+	type: string;
+	nullable: boolean;
+	constraints: string[];
+	enumValues: string[];
+	description: string;
+	examples: string[];
+}
+
+/**
+ * A documented table or list
+ */
+interface DocsBlock {
+	anchor: string;
+	name: string;
+	entity: string;
+	description: string;
+	fields: DocsField[];
+	sheets: string[]; // sheets using the block
+}
+
+/**
+ * A documented sheet, with its own blocks and the shared blocks it links to
+ */
+interface DocsSheet {
+	anchor: string;
+	name: string;
+	description: string;
+	blocks: DocsBlock[];
+}
+
+/**
+ * The data dictionary of a workbook
+ */
+interface DocsWorkbook {
+	name: string;
+	description: string;
+	sheets: DocsSheet[];
+	sharedBlocks: DocsBlock[];
+}
+
+/**
+ * Output formats of the data dictionary
+ */
+export type DocsFormat = "markdown" | "html";
+
+/**
+ * Utility class that renders a workbook JSON Schema as a data dictionary, in Markdown or as a standalone HTML page.
+ *
+ * The dictionary has a table of contents by sheet, and a table per block listing each field with its type, nullability,
+ * constraints, enum values, description and examples. Blocks reached through a "$ref", such as "definitions",
+ * are documented once under "Shared blocks" and linked from every sheet using them.
+ */
+export class DocsGeneratorUtil {
+	private static readonly COLUMNS = ["Field", "Type", "Nullable", "Constraints", "Enum values", "Description", "Examples"];
+
+	/**
+	 * Keywords listed as constraints, in this order
+	 */
+	private static readonly CONSTRAINTS = ["minimum", "exclusiveMinimum", "maximum", "exclusiveMaximum", "multipleOf", "minLength", "maxLength", "pattern", "format", "minItems", "maxItems", "uniqueItems", "default"];
+
+	/**
+	 * Renders the data dictionary of a workbook schema.
+	 * @param schema - The workbook JSON Schema
+	 * @param format - The format of the data dictionary
+	 * @returns The Markdown document or HTML page
+	 */
+	public static generate(schema: JsonSchema, format: DocsFormat = "markdown"): string {
+		const workbook = this.toWorkbook(schema);
+		return format === "html" ? this.toHtml(workbook) : this.toMarkdown(workbook);
+	}
+
+	/**
+	 * Collects the sheets and blocks of a workbook schema. A block reached through a "$ref" is collected once, with the sheets using it.
+	 */
+	private static toWorkbook(schema: JsonSchema): DocsWorkbook {
+		const sharedBlocks = new Map<object, DocsBlock>();
+
+		const sheets = Array.from(SchemaDiffUtil.getSheetSchemas(schema).entries()).map(([sheetName, sheetSchema]) => {
+			const blocksSchema = SchemaRefResolverUtil.resolveIfRef(sheetSchema.properties?.blocks, schema);
+			const blockItems = SchemaRefResolverUtil.resolveIfRef(blocksSchema?.items, schema);
+			const blocks = (blockItems?.oneOf ?? []).map((block: JsonSchema) => {
+				const blockSchema = SchemaRefResolverUtil.resolveIfRef(block, schema)!;
+				if (!block.$ref && !SchemaRefResolverUtil.isExternal(blockSchema, schema)) {
+					return this.toBlock(blockSchema, schema, `${sheetName}-${GeneratorUtil.getFirstEnum(blockSchema, "name")}`);
+				}
+
+				const shared = sharedBlocks.get(blockSchema) ?? this.toBlock(blockSchema, schema, `shared-${GeneratorUtil.getFirstEnum(blockSchema, "name")}`);
+				sharedBlocks.set(blockSchema, shared);
+				return shared;
+			});
+			blocks.forEach((block) => block.sheets.push(sheetName));
+
+			return { anchor: this.toAnchor(`sheet-${sheetName}`), name: sheetName, description: sheetSchema.description ?? "", blocks };
+		});
+
+		return {
+			name: GeneratorUtil.getFirstEnum(schema, "name"),
+			description: schema.description ?? "",
+			sheets,
+			sharedBlocks: Array.from(sharedBlocks.values()),
+		};
+	}
+
+	/**
+	 * Collects the columns of a table, in the order of its header, or the keys of a list.
+	 */
+	private static toBlock(blockSchema: JsonSchema, rootSchema: JsonSchema, anchor: string): DocsBlock {
+		const entity = GeneratorUtil.getFirstEnum(blockSchema, "@entity");
+		const fields: DocsField[] = [];
+
+		if (entity === "list") {
+			const itemSchema = SchemaDiffUtil.getListItemSchema(blockSchema, rootSchema);
+			const required: string[] = itemSchema?.required ?? [];
+			Object.entries(itemSchema?.properties ?? {}).forEach(([key, keySchema]) => this.addFields(key, keySchema as JsonSchema, required.includes(key), rootSchema, fields, []));
+		} else {
+			SchemaDiffUtil.getColumnSchemas(blockSchema, rootSchema).forEach((columnSchema, column) => this.addFields(column, columnSchema, false, rootSchema, fields, []));
+		}
+
+		return {
+			anchor: this.toAnchor(anchor),
+			name: GeneratorUtil.getFirstEnum(blockSchema, "name"),
+			entity,
+			description: blockSchema.description ?? "",
+			fields,
+			sheets: [],
+		};
+	}
+
+	/**
+	 * Adds a field, followed by its nested fields: `address.street` for the properties of an object,
+	 * and `tags[].label` for the properties of the items of an array.
+	 * @param ancestors - The schemas being documented higher up, to stop at recursive schemas
+	 */
+	private static addFields(field: string, fieldSchema: JsonSchema | null, required: boolean, rootSchema: JsonSchema, fields: DocsField[], ancestors: object[]): void {
+		const schema: Record<string, any> = SchemaRefResolverUtil.resolveIfRef(fieldSchema, rootSchema) ?? {};
+		const types: string[] = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+		const itemSchema: Record<string, any> | null = schema.items && !Array.isArray(schema.items) ? SchemaRefResolverUtil.resolveIfRef(schema.items, rootSchema) : null;
+
+		const constraints = this.CONSTRAINTS.filter((keyword) => schema[keyword] !== undefined).map((keyword) => `${keyword}: ${this.toValue(schema[keyword])}`);
+		if (required) {
+			constraints.unshift("required");
+		}
+
+		fields.push({
+			field,
+			type: types.filter((type) => type !== "null").map((type) => (type === "array" && itemSchema?.type ? `array<${[itemSchema.type].flat().join(" | ")}>` : type)).join(" | ") || (types.includes("null") ? "null" : "any"),
+			nullable: types.includes("null") || (Array.isArray(schema.enum) && schema.enum.includes(null)),
+			constraints,
+			enumValues: GeneratorUtil.getEnumValues(schema).map((value) => this.toValue(value)),
+			description: schema.description ?? "",
+			examples: (Array.isArray(schema.examples) ? schema.examples : []).map((example: unknown) => this.toValue(example)),
+		});
+
+		if (ancestors.includes(schema)) {
+			return;
+		}
+		const nested: Array<[string, Record<string, any> | null]> = [[field, schema], [`${field}[]`, itemSchema]];
+		nested.forEach(([prefix, objectSchema]) => {
+			const requiredKeys: string[] = objectSchema?.required ?? [];
+			Object.entries(objectSchema?.properties ?? {}).forEach(([key, keySchema]) => this.addFields(`${prefix}.${key}`, keySchema as JsonSchema, requiredKeys.includes(key), rootSchema, fields, [...ancestors, schema]));
+		});
+	}
+
+	private static toMarkdown(workbook: DocsWorkbook): string {
+		const lines: string[] = [`# Workbook \`${workbook.name}\``, ""];
+		if (workbook.description) {
+			lines.push(this.escapeMarkdown(workbook.description), "");
+		}
+
+		lines.push("## Contents", "");
+		workbook.sheets.forEach((sheet) => {
+			lines.push(`- [Sheet \`${sheet.name}\`](#${sheet.anchor})`);
+			sheet.blocks.forEach((block) => lines.push(`    - [${this.toBlockTitle(block)}](#${block.anchor})`));
+		});
+		if (workbook.sharedBlocks.length > 0) {
+			lines.push("- [Shared blocks](#shared-blocks)");
+			workbook.sharedBlocks.forEach((block) => lines.push(`    - [${this.toBlockTitle(block)}](#${block.anchor})`));
+		}
+		lines.push("");
+
+		const addBlock = (block: DocsBlock, level: string) => {
+			lines.push(`${level} <a id="${block.anchor}"></a>${this.toBlockTitle(block)}`, "");
+			if (block.description) {
+				lines.push(this.escapeMarkdown(block.description), "");
+			}
+			if (block.sheets.length > 1 || workbook.sharedBlocks.includes(block)) {
+				lines.push(`Used by ${block.sheets.map((sheetName) => `[\`${sheetName}\`](#${this.toAnchor(`sheet-${sheetName}`)})`).join(", ")}.`, "");
+			}
+			if (block.fields.length === 0) {
+				lines.push("No fields.", "");
+				return;
+			}
+			lines.push(`| ${this.COLUMNS.join(" | ")} |`, `| ${this.COLUMNS.map(() => "---").join(" | ")} |`);
+			block.fields.forEach((field) => {
+				const cells = [
+					this.toCodeSpan(field.field),
+					this.toCodeSpan(field.type),
+					field.nullable ? "yes" : "no",
+					field.constraints.map((constraint) => this.toCodeSpan(constraint)).join("<br>"),
+					field.enumValues.map((value) => this.toCodeSpan(value)).join(", "),
+					this.escapeMarkdown(field.description),
+					field.examples.map((example) => this.toCodeSpan(example)).join(", "),
+				];
+				lines.push(`| ${cells.map((cell) => this.toMarkdownCell(cell)).join(" | ")} |`);
+			});
+			lines.push("");
+		};
+
+		workbook.sheets.forEach((sheet) => {
+			lines.push(`## <a id="${sheet.anchor}"></a>Sheet \`${sheet.name}\``, "");
+			if (sheet.description) {
+				lines.push(this.escapeMarkdown(sheet.description), "");
+			}
+			sheet.blocks.forEach((block) => {
+				if (workbook.sharedBlocks.includes(block)) {
+					lines.push(`### ${this.toBlockTitle(block)}`, "", `Shared block, see [${this.toBlockTitle(block)}](#${block.anchor}).`, "");
+				} else {
+					addBlock(block, "###");
+				}
+			});
+		});
+
+		if (workbook.sharedBlocks.length > 0) {
+			lines.push(`## <a id="shared-blocks"></a>Shared blocks`, "");
+			workbook.sharedBlocks.forEach((block) => addBlock(block, "###"));
+		}
+
+		return `${lines.join("\n").trimEnd()}\n`;
+	}
+
+	private static toHtml(workbook: DocsWorkbook): string {
+		const escape = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+		const code = (text: string) => `<code>${escape(text)}</code>`;
+		const link = (anchor: string, text: string) => `<a href="#${anchor}">${text}</a>`;
+		const blockTitle = (block: DocsBlock) => `${block.entity === "list" ? "List" : "Table"} ${code(block.name)}`;
+		const body: string[] = [`<h1>Workbook ${code(workbook.name)}</h1>`];
+		if (workbook.description) {
+			body.push(`<p>${escape(workbook.description)}</p>`);
+		}
+
+		const toContents = (blocks: DocsBlock[]) => (blocks.length > 0 ? `<ul>${blocks.map((block) => `<li>${link(block.anchor, blockTitle(block))}</li>`).join("")}</ul>` : "");
+		body.push("<nav>", "<h2>Contents</h2>", "<ul>");
+		workbook.sheets.forEach((sheet) => body.push(`<li>${link(sheet.anchor, `Sheet ${code(sheet.name)}`)}${toContents(sheet.blocks)}</li>`));
+		if (workbook.sharedBlocks.length > 0) {
+			body.push(`<li>${link("shared-blocks", "Shared blocks")}${toContents(workbook.sharedBlocks)}</li>`);
+		}
+		body.push("</ul>", "</nav>");
+
+		const addBlock = (block: DocsBlock) => {
+			body.push(`<section id="${block.anchor}">`, `<h3>${blockTitle(block)}</h3>`);
+			if (block.description) {
+				body.push(`<p>${escape(block.description)}</p>`);
+			}
+			if (block.sheets.length > 1 || workbook.sharedBlocks.includes(block)) {
+				body.push(`<p>Used by ${block.sheets.map((sheetName) => link(this.toAnchor(`sheet-${sheetName}`), code(sheetName))).join(", ")}.</p>`);
+			}
+			if (block.fields.length === 0) {
+				body.push("<p>No fields.</p>");
+			} else {
+				body.push("<table>", `<thead><tr>${this.COLUMNS.map((column) => `<th>${column}</th>`).join("")}</tr></thead>`, "<tbody>");
+				block.fields.forEach((field) => {
+					const cells = [
+						code(field.field),
+						escape(field.type),
+						field.nullable ? "yes" : "no",
+						field.constraints.map(code).join("<br>"),
+						field.enumValues.map(code).join(", "),
+						escape(field.description),
+						field.examples.map(code).join(", "),
+					];
+					body.push(`<tr>${cells.map((cell) => `<td>${cell}</td>`).join("")}</tr>`);
+				});
+				body.push("</tbody>", "</table>");
+			}
+			body.push("</section>");
+		};
+
+		workbook.sheets.forEach((sheet) => {
+			body.push(`<section id="${sheet.anchor}">`, `<h2>Sheet ${code(sheet.name)}</h2>`);
+			if (sheet.description) {
+				body.push(`<p>${escape(sheet.description)}</p>`);
+			}
+			sheet.blocks.forEach((block) => {
+				if (workbook.sharedBlocks.includes(block)) {
+					body.push(`<h3>${blockTitle(block)}</h3>`, `<p>Shared block, see ${link(block.anchor, blockTitle(block))}.</p>`);
+				} else {
+					addBlock(block);
+				}
+			});
+			body.push("</section>");
+		});
+
+		if (workbook.sharedBlocks.length > 0) {
+			body.push(`<section id="shared-blocks">`, "<h2>Shared blocks</h2>");
+			workbook.sharedBlocks.forEach(addBlock);
+			body.push("</section>");
+		}
+
+		return [
+			"<!DOCTYPE html>",
+			`<html lang="en">`,
+			"<head>",
+			`<meta charset="utf-8">`,
+			`<title>Workbook ${escape(workbook.name)}</title>`,
+			"<style>",
+			"body { font-family: sans-serif; margin: 2rem; color: #222; }",
+			"table { border-collapse: collapse; margin-bottom: 1.5rem; }",
+			"th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: left; vertical-align: top; }",
+			"th { background: #f3f3f3; }",
+			"code { background: #f6f6f6; padding: 0 0.2rem; }",
+			"</style>",
+			"</head>",
+			"<body>",
+			...body,
+			"</body>",
+			"</html>",
+			"",
+		].join("\n");
+	}
+
+	private static toBlockTitle(block: DocsBlock): string {
+		return `${block.entity === "list" ? "List" : "Table"} \`${block.name}\``;
+	}
+
+	/**
+	 * Converts a name to an anchor of the document, e.g. `income-salary-table` for "income-salary_table".
+	 */
+	private static toAnchor(name: string): string {
+		return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+	}
+
+	/**
+	 * Writes a value of the schema: strings as is, and other values as JSON.
+	 */
+	private static toValue(value: unknown): string {
+		return typeof value === "string" ? value : JSON.stringify(value);
+	}
+
+	/**
+	 * Escapes the characters of a text which Markdown would read as HTML.
+	 */
+	private static escapeMarkdown(text: string): string {
+		return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+	}
+
+	/**
+	 * Writes a text as a Markdown code span, fenced by more backticks than it contains in a row.
+	 */
+	private static toCodeSpan(text: string): string {
+		const fence = "`".repeat(Math.max(0, ...(text.match(/`+/g) ?? []).map((backticks) => backticks.length)) + 1);
+		return fence.length > 1 ? `${fence} ${text} ${fence}` : `${fence}${text}${fence}`;
+	}
+
+	/**
+	 * Escapes the pipes and line breaks of a Markdown table cell.
+	 */
+	private static toMarkdownCell(text: string): string {
+		return text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+	}
+}
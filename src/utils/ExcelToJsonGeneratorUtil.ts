@@ -0,0 +1,380 @@
+import * as XLSX from "xlsx";
+import { JSONArray } from "@org-quicko/core";
+import { Block, JsonSchema, Sheet, ValidationIssue, Workbook } from "../beans";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+
+/**
+ * The workbook read from an Excel data file, with the cells that could not be converted
+ */
+export interface ExcelToJsonResult {
+	workbook: Workbook;
+	issues: ValidationIssue[];
+}
+
+/**
+ * The rows of a tab, with the position of its first cell so that cell addresses can be rebuilt
+ */
+interface SheetRows {
+	name: string;
+	rows: unknown[][];
+	origin: XLSX.CellAddress;
+}
+
+/**
+ * The block being converted, and the range of its rows
+ */
+interface BlockContext {
+	sheetRows: SheetRows;
+	blockName: string;
+	entity: string;
+	start: number; // index of the first row after the block name
+	end: number; // index of the row after the last row of the block
+	rootSchema: JsonSchema;
+	issues: ValidationIssue[];
+}
+
+/**
+ * Utility class that reads an Excel file holding workbook data and converts it into a workbook JSON instance,
+ * using the workbook JSON Schema to find the blocks and to convert the cell values.
+ *
+ * Each sheet is a tab named after the sheet. Each block starts with a row holding its name in the first column,
+ * followed by the header row and data rows of a table, or the key/value rows of a list.
+ * A block ends at a blank row or at the name of the next block.
+ */
+export class ExcelToJsonGeneratorUtil {
+	/**
+	 * Main entry point. Reads the given Excel file (by path, or its contents) and converts it into a workbook JSON instance.
+	 * @param excelFile Path to the Excel file, or its contents
+	 * @param schema The workbook JSON Schema
+	 * @returns The workbook, and the cells that could not be converted to the type of their column or key
+	 */
+	public static generate(excelFile: string | Buffer | ArrayBuffer, schema: JsonSchema): ExcelToJsonResult {
+		// Dates are read as serial numbers with their number format, and converted without the local time zone
+		const wb =
+			typeof excelFile === "string"
+				? XLSX.readFile(excelFile, { cellNF: true })
+				: XLSX.read(excelFile, { type: excelFile instanceof ArrayBuffer ? "array" : "buffer", cellNF: true });
+		return this.convertWorkbook(wb, schema);
+	}
+
+	/**
+	 * Converts every tab that matches a sheet of the schema. Tabs and blocks missing from the schema are ignored.
+	 */
+	private static convertWorkbook(wb: XLSX.WorkBook, schema: JsonSchema): ExcelToJsonResult {
+		const sheetsSchema = SchemaRefResolverUtil.resolveIfRef(schema.properties?.sheets, schema);
+		const sheetsItems = SchemaRefResolverUtil.resolveIfRef(sheetsSchema?.items, schema);
+		if (!sheetsItems) {
+			throw new Error(`Invalid JSON Schema: "sheets" definition not found or malformed.`);
+		}
+
+		const issues: ValidationIssue[] = [];
+		const workbook: Workbook = {
+			name: GeneratorUtil.getFirstEnum(schema, "name"),
+			"@entity": GeneratorUtil.getFirstEnum(schema, "@entity"),
+			sheets: [],
+		};
+
+		(sheetsItems.oneOf || [sheetsItems]).forEach((sheet: JsonSchema) => {
+			const sheetSchema = SchemaRefResolverUtil.resolveIfRef(sheet, schema)!;
+			const sheetName = GeneratorUtil.getFirstEnum(sheetSchema, "name");
+
+			const ws = wb.Sheets[sheetName];
+			if (!ws) {
+				return;
+			}
+
+			workbook.sheets.push(this.convertSheet(this.readRows(sheetName, ws, wb.Workbook?.WBProps?.date1904 === true), sheetSchema, schema, issues));
+		});
+
+		return { workbook, issues };
+	}
+
+	/**
+	 * Reads the rows (array of arrays) of a tab, keeping blank rows since they separate blocks.
+	 * Date cells are read as the Date of their date and time in UTC, so that they do not depend on the local time zone.
+	 * @param date1904 Whether the workbook counts dates from 1904
+	 */
+	private static readRows(name: string, ws: XLSX.WorkSheet, date1904: boolean): SheetRows {
+		const origin = ws["!ref"] ? XLSX.utils.decode_range(ws["!ref"]).s : { r: 0, c: 0 };
+		const rows = XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1, raw: true, blankrows: true, defval: null });
+
+		Object.keys(ws)
+			.filter((address) => !address.startsWith("!"))
+			.forEach((address) => {
+				const cell: XLSX.CellObject = ws[address];
+				if (cell.t === "n" && typeof cell.z === "string" && XLSX.SSF.is_date(cell.z)) {
+					const { r, c } = XLSX.utils.decode_cell(address);
+					rows[r - origin.r][c - origin.c] = this.toDate(cell.v as number, date1904);
+				}
+			});
+
+		return { name, rows, origin };
+	}
+
+	/**
+	 * Converts a date serial number into the Date of its date and time in UTC.
+	 */
+	private static toDate(serial: number, date1904: boolean): Date {
+		const { y, m, d, H, M, S } = XLSX.SSF.parse_date_code(serial, { date1904 });
+		return new Date(Date.UTC(y, m - 1, d, H, M, S));
+	}
+
+	/**
+	 * Scans the rows of a tab for the names of the sheet's blocks, and converts each block found.
+	 */
+	private static convertSheet(sheetRows: SheetRows, sheetSchema: JsonSchema, rootSchema: JsonSchema, issues: ValidationIssue[]): Sheet {
+		const blocksSchema = SchemaRefResolverUtil.resolveIfRef(sheetSchema.properties?.blocks, rootSchema);
+		const blockItems = SchemaRefResolverUtil.resolveIfRef(blocksSchema?.items, rootSchema);
+
+		const blockSchemas = new Map<string, JsonSchema>();
+		(blockItems?.oneOf || []).forEach((block: JsonSchema) => {
+			const blockSchema = SchemaRefResolverUtil.resolveIfRef(block, rootSchema)!;
+			blockSchemas.set(GeneratorUtil.getFirstEnum(blockSchema, "name"), blockSchema);
+		});
+
+		const sheet: Sheet = {
+			name: sheetRows.name,
+			"@entity": GeneratorUtil.getFirstEnum(sheetSchema, "@entity"),
+			blocks: [],
+		};
+
+		const { rows } = sheetRows;
+		const getBlockName = (row: unknown[] | undefined) => {
+			const name = this.toText(row?.[0]);
+			return blockSchemas.has(name) && (row ?? []).slice(1).every((cell) => this.toText(cell) === "") ? name : undefined;
+		};
+
+		let currentRow = 0;
+		while (currentRow < rows.length) {
+			const blockName = getBlockName(rows[currentRow]);
+			if (!blockName) {
+				currentRow += 1;
+				continue;
+			}
+
+			// Rows of the block, up to a blank row or the next block
+			const start = currentRow + 1;
+			let end = start;
+			while (end < rows.length && !this.isBlankRow(rows[end]) && !getBlockName(rows[end])) {
+				end += 1;
+			}
+
+			const blockSchema = blockSchemas.get(blockName)!;
+			const entity = GeneratorUtil.getFirstEnum(blockSchema, "@entity");
+			const context = { sheetRows, blockName, entity, start, end, rootSchema, issues };
+
+			sheet.blocks.push(entity === "list" ? this.convertList(blockSchema, context) : this.convertTable(blockSchema, context));
+			currentRow = end;
+		}
+
+		return sheet;
+	}
+
+	/**
+	 * Converts a table block: the first row is the header and the following rows are data.
+	 * Columns are matched by their header, and written in the order of the schema's header.
+	 */
+	private static convertTable(blockSchema: JsonSchema, context: BlockContext): Block {
+		const { sheetRows, blockName, entity, start, end, rootSchema, issues } = context;
+		const headerItems = blockSchema.properties?.header?.items;
+		const header: string[] = Array.isArray(headerItems) ? headerItems.map((item: JsonSchema) => item.enum?.[0] ?? "") : [];
+		const columnSchemas = blockSchema.properties?.rows?.items?.items;
+
+		const block: Block = { name: blockName, "@entity": entity, header, rows: new JSONArray() };
+
+		if (start >= end) {
+			return block;
+		}
+		const headerRow = sheetRows.rows[start];
+
+		// Position in the tab of each column of the schema
+		const positions = new Map<string, number>();
+		headerRow.forEach((cell, colIndex) => {
+			const column = this.toText(cell);
+			if (column === "") {
+				return;
+			}
+			if (!header.includes(column)) {
+				issues.push({ sheet: sheetRows.name, block: blockName, entity, column, rule: "additionalProperties", message: `unknown column \`${column}\``, address: this.getAddress(sheetRows, start, colIndex) });
+				return;
+			}
+			positions.set(column, colIndex);
+		});
+
+		for (let rowIndex = start + 1; rowIndex < end; rowIndex += 1) {
+			const row = sheetRows.rows[rowIndex];
+			const dataRow = header.map((column, colIndex) => {
+				const position = positions.get(column);
+				if (position === undefined) {
+					return null;
+				}
+				const columnSchema = Array.isArray(columnSchemas) ? SchemaRefResolverUtil.resolveIfRef(columnSchemas[colIndex], rootSchema) : null;
+				const location = { sheet: sheetRows.name, block: blockName, entity, row: rowIndex - start - 1, column, address: this.getAddress(sheetRows, rowIndex, position) };
+				return this.convertCell(row[position], columnSchema, location, issues);
+			});
+			block.rows!.push(dataRow);
+		}
+
+		return block;
+	}
+
+	/**
+	 * Converts a list block: each row holds a key in the first column and its value in the second.
+	 */
+	private static convertList(blockSchema: JsonSchema, context: BlockContext): Block {
+		const { sheetRows, blockName, entity, start, end, rootSchema, issues } = context;
+		const itemSchema = SchemaRefResolverUtil.resolveIfRef(blockSchema.properties?.items?.items, rootSchema);
+		const properties: Record<string, any> = itemSchema?.properties ?? {};
+
+		const block: Block = { name: blockName, "@entity": entity, items: new JSONArray() };
+
+		for (let rowIndex = start; rowIndex < end; rowIndex += 1) {
+			const row = sheetRows.rows[rowIndex];
+			const key = this.toText(row[0]);
+			const location = { sheet: sheetRows.name, block: blockName, entity, row: block.items!.length, column: key, address: this.getAddress(sheetRows, rowIndex, 1) };
+			if (!(key in properties)) {
+				issues.push({ ...location, rule: "additionalProperties", message: `unknown key \`${key}\``, value: row[1], address: this.getAddress(sheetRows, rowIndex, 0) });
+				continue;
+			}
+
+			const valueSchema = SchemaRefResolverUtil.resolveIfRef(properties[key], rootSchema);
+			block.items!.push({ [key]: this.convertCell(row[1], valueSchema, location, issues) });
+		}
+
+		return block;
+	}
+
+	/**
+	 * Converts a cell value to the type of its column or key. A value that already has one of the types is kept,
+	 * otherwise the types are tried in the order of the schema. Blank cells become null.
+	 * A value that cannot be converted is kept as read, and reported with the address of its cell.
+	 */
+	private static convertCell(value: unknown, fieldSchema: Record<string, any> | null, location: Omit<ValidationIssue, "rule" | "message">, issues: ValidationIssue[]): unknown {
+		if (value === null || value === undefined || (typeof value === "string" && value.trim() === "")) {
+			return null;
+		}
+
+		const types: string[] = (Array.isArray(fieldSchema?.type) ? fieldSchema!.type : [fieldSchema?.type]).filter((type: unknown) => type !== undefined && type !== "null");
+		const format: string | undefined = fieldSchema?.format;
+
+		if (types.length === 0) {
+			return value instanceof Date ? this.formatDate(value, format) : value;
+		}
+
+		const matchingType = types.find((type) => this.hasType(value, type));
+		if (matchingType) {
+			return value;
+		}
+
+		for (const type of types) {
+			const converted = this.convertTo(value, type, format);
+			if (converted !== undefined) {
+				return converted;
+			}
+		}
+
+		const text = value instanceof Date ? this.formatDate(value, format) : value;
+		issues.push({ ...location, rule: "type", message: `cannot convert ${JSON.stringify(text)} to ${types.join(" or ")}`, value: text });
+		return text;
+	}
+
+	/**
+	 * Whether a value read from a cell already has the given JSON Schema type.
+	 */
+	private static hasType(value: unknown, type: string): boolean {
+		switch (type) {
+			case "string":
+				return typeof value === "string";
+			case "number":
+				return typeof value === "number";
+			case "integer":
+			case "long":
+			case "epoch":
+				return typeof value === "number" && Number.isInteger(value);
+			case "boolean":
+				return typeof value === "boolean";
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Converts a value read from a cell to the given JSON Schema type.
+	 * @returns The converted value, or undefined if it cannot be converted
+	 */
+	private static convertTo(value: unknown, type: string, format: string | undefined): unknown {
+		const text = typeof value === "string" ? value.trim() : undefined;
+
+		switch (type) {
+			case "string":
+				return value instanceof Date ? this.formatDate(value, format) : String(value);
+			case "number": {
+				const number = text !== undefined ? Number(text) : NaN;
+				return Number.isFinite(number) ? number : undefined;
+			}
+			case "integer":
+			case "long":
+			case "epoch": {
+				if (value instanceof Date && type === "epoch") {
+					return value.getTime();
+				}
+				const number = text !== undefined ? Number(text) : NaN;
+				return Number.isInteger(number) ? number : undefined;
+			}
+			case "boolean": {
+				const lower = (text ?? (typeof value === "number" ? String(value) : "")).toLowerCase();
+				if (["true", "yes", "1"].includes(lower)) return true;
+				if (["false", "no", "0"].includes(lower)) return false;
+				return undefined;
+			}
+			case "object":
+			case "array": {
+				if (text === undefined) {
+					return undefined;
+				}
+				try {
+					const parsed = JSON.parse(text);
+					const isArray = Array.isArray(parsed);
+					return parsed !== null && typeof parsed === "object" && isArray === (type === "array") ? parsed : undefined;
+				} catch {
+					return undefined;
+				}
+			}
+			default:
+				return undefined;
+		}
+	}
+
+	/**
+	 * Formats a date cell as an ISO 8601 string, without the time for a "date" format.
+	 * Date cells hold their date and time in UTC.
+	 */
+	private static formatDate(date: Date, format: string | undefined): string {
+		const iso = date.toISOString();
+		return format === "date" ? iso.slice(0, 10) : iso;
+	}
+
+	/**
+	 * Returns the address of a cell, e.g. "income!B4", quoting sheet names that need it.
+	 */
+	private static getAddress(sheetRows: SheetRows, rowIndex: number, colIndex: number): string {
+		const sheetName = /^[A-Za-z_][\w.]*$/.test(sheetRows.name) ? sheetRows.name : `'${sheetRows.name.replace(/'/g, "''")}'`;
+		return `${sheetName}!${XLSX.utils.encode_cell({ r: sheetRows.origin.r + rowIndex, c: sheetRows.origin.c + colIndex })}`;
+	}
+
+	/**
+	 * Determines if a row is blank (all cells empty).
+	 */
+	private static isBlankRow(row: unknown[] | undefined): boolean {
+		return (row ?? []).every((cell) => this.toText(cell) === "");
+	}
+
+	/**
+	 * Returns the trimmed text of a cell.
+	 */
+	private static toText(cell: unknown): string {
+		return cell === null || cell === undefined ? "" : String(cell).trim();
+	}
+}
+
@@ -4,15 +4,17 @@ import { FileUtil } from "./FileUtil";
 interface BlockField {
 	fieldName: string;
 	nullAllowed?: string; // e.g. "Yes" or "No"
-	type?: string; // e.g. "string", "number", ...
+	required?: string; // e.g. "Yes" or "No", for the fields of a block used as an object type
+	type?: string; // e.g. "string", "number", "object:address_list", "array<string>", ...
 	minimum?: string;
 	maximum?: string;
 	minLength?: string;
 	maxLength?: string;
 	pattern?: string;
+	format?: string; // e.g. "date", "email"
 	enumValues?: string; // comma-separated
 	description?: string;
-	examples?: string;
+	examples?: string; // a JSON array, or a single example
 }
 
 interface BlockModel {
@@ -31,23 +33,29 @@ interface WorkbookModel {
 	name: string;
 	entity: string;
 	sheets: SheetModel[];
+	typeBlocks: Map<string, BlockModel>; // blocks describing nested objects, by name
 }
 
 /**
  * Utility class that reads an Excel file with certain "list"/"table" blocks
  * and generates a JSON Schema with advanced properties.
  *
+ * A field type can describe nested values: "object:<block_name>" is an object whose properties
+ * are the fields of that block, and "array<type>" is an array of the given type. Blocks used this way
+ * are type definitions and are not added to the sheet they appear in.
+ *
  * It also deduplicates repeated block definitions in a top-level "definitions" section.
  */
 export class ExcelToSchemaGeneratorUtil {
 	/**
-	 * Main entry point. Reads the given Excel file (by path), parses it
+	 * Main entry point. Reads the given Excel file (by path, or its contents), parses it
 	 * into an internal model, then builds and returns the JSON Schema as an object.
-	 * @param excelFilePath Path to the Excel file
+	 * @param excelFile Path to the Excel file, or its contents
+	 * @param workbookName Name of the workbook, by default the name of the file, or "workbook" for contents
 	 */
-	public static generate(excelFilePath: string): Record<string, any> {
+	public static generate(excelFile: string | Buffer | ArrayBuffer, workbookName?: string): Record<string, any> {
 		// 1) Parse the workbook into a model
-		const workbookModel = this.parseExcelToModel(excelFilePath);
+		const workbookModel = this.parseExcelToModel(excelFile, workbookName ?? (typeof excelFile === "string" ? FileUtil.fileName(excelFile) : "workbook"));
 
 		// 2) Build the JSON schema from the model
 		const schema = this.buildJsonSchema(workbookModel);
@@ -72,15 +80,16 @@ export class ExcelToSchemaGeneratorUtil {
 	 * Discovers blocks labeled "X_list" or "X_table" in the first column.
 	 * Builds a WorkbookModel containing sheets, blocks, and fields.
 	 */
-	private static parseExcelToModel(excelFilePath: string): WorkbookModel {
+	private static parseExcelToModel(excelFile: string | Buffer | ArrayBuffer, workbookName: string): WorkbookModel {
 		const workbookModel: WorkbookModel = {
-			name: FileUtil.fileName(excelFilePath),
+			name: workbookName,
 			entity: "workbook",
 			sheets: [],
+			typeBlocks: new Map(),
 		};
 
 		// Read the file using sheetjs
-		const wb = XLSX.readFile(excelFilePath);
+		const wb = typeof excelFile === "string" ? XLSX.readFile(excelFile) : XLSX.read(excelFile, { type: excelFile instanceof ArrayBuffer ? "array" : "buffer" });
 
 		wb.SheetNames.forEach((sheetName) => {
 			const sheet = wb.Sheets[sheetName];
@@ -103,9 +112,44 @@ export class ExcelToSchemaGeneratorUtil {
 			workbookModel.sheets.push(sheetModel);
 		});
 
+		this.extractTypeBlocks(workbookModel);
+
 		return workbookModel;
 	}
 
+	/**
+	 * Moves the blocks referenced by an "object:<block_name>" field type out of their sheets
+	 * and into the workbook's type blocks.
+	 */
+	private static extractTypeBlocks(workbookModel: WorkbookModel): void {
+		const allBlocks = new Map<string, BlockModel>();
+		const referencedNames = new Set<string>();
+
+		workbookModel.sheets.forEach((sheet) => {
+			sheet.blocks.forEach((block) => {
+				if (!allBlocks.has(block.name)) {
+					allBlocks.set(block.name, block);
+				}
+				block.fields.forEach((field) => {
+					for (const match of (field.type || "").matchAll(/object:([^<>\s]+)/g)) {
+						referencedNames.add(match[1]);
+					}
+				});
+			});
+		});
+
+		referencedNames.forEach((name) => {
+			const block = allBlocks.get(name);
+			if (block) {
+				workbookModel.typeBlocks.set(name, block);
+			}
+		});
+
+		workbookModel.sheets.forEach((sheet) => {
+			sheet.blocks = sheet.blocks.filter((block) => !referencedNames.has(block.name));
+		});
+	}
+
 	/**
 	 * Given the rows of a sheet (array of arrays), scans row by row:
 	 * - If the first cell ends with "_list" or "_table", start a new block
@@ -178,12 +222,14 @@ export class ExcelToSchemaGeneratorUtil {
 		metaHeaderRow.forEach((value, index) => {
 			const lowerVal = (value || "").toString().trim().toLowerCase();
 			if (lowerVal === "null_allowed") map.null_allowed = index;
+			else if (lowerVal === "required") map.required = index;
 			else if (lowerVal === "type") map.type = index;
 			else if (lowerVal === "minimum") map.minimum = index;
 			else if (lowerVal === "maximum") map.maximum = index;
 			else if (lowerVal === "minlength") map.minLength = index;
 			else if (lowerVal === "maxlength") map.maxLength = index;
 			else if (lowerVal === "pattern") map.pattern = index;
+			else if (lowerVal === "format") map.format = index;
 			else if (lowerVal === "enum") map.enum = index;
 			else if (lowerVal === "description") map.description = index;
 			else if (lowerVal === "examples") map.examples = index;
@@ -204,12 +250,14 @@ export class ExcelToSchemaGeneratorUtil {
 		return {
 			fieldName: (row[0] || "").toString().trim(),
 			nullAllowed: getSafeVal("null_allowed"),
+			required: getSafeVal("required"),
 			type: getSafeVal("type"),
 			minimum: getSafeVal("minimum"),
 			maximum: getSafeVal("maximum"),
 			minLength: getSafeVal("minLength"),
 			maxLength: getSafeVal("maxLength"),
 			pattern: getSafeVal("pattern"),
+			format: getSafeVal("format"),
 			enumValues: getSafeVal("enum"),
 			description: getSafeVal("description"),
 			examples: getSafeVal("examples"),
@@ -249,7 +297,7 @@ export class ExcelToSchemaGeneratorUtil {
 				sheets: {
 					type: "array",
 					items: {
-						oneOf: workbook.sheets.map((s) => this.buildSheetSchema(s)),
+						oneOf: workbook.sheets.map((s) => this.buildSheetSchema(s, workbook.typeBlocks)),
 					},
 				},
 			},
@@ -262,7 +310,7 @@ export class ExcelToSchemaGeneratorUtil {
 	/**
 	 * Builds the JSON schema for a single SheetModel.
 	 */
-	private static buildSheetSchema(sheet: SheetModel): Record<string, any> {
+	private static buildSheetSchema(sheet: SheetModel, typeBlocks: Map<string, BlockModel>): Record<string, any> {
 		return {
 			type: "object",
 			properties: {
@@ -278,8 +326,8 @@ export class ExcelToSchemaGeneratorUtil {
 					type: "array",
 					items: {
 						oneOf: sheet.blocks.map((b) => {
-							if (b.entity === "list") return this.buildListBlockSchema(b);
-							return this.buildTableBlockSchema(b);
+							if (b.entity === "list") return this.buildListBlockSchema(b, typeBlocks);
+							return this.buildTableBlockSchema(b, typeBlocks);
 						}),
 					},
 				},
@@ -307,11 +355,11 @@ export class ExcelToSchemaGeneratorUtil {
 	 *     required: ["name","@entity","items"]
 	 *   }
 	 */
-	private static buildListBlockSchema(block: BlockModel): Record<string, any> {
+	private static buildListBlockSchema(block: BlockModel, typeBlocks: Map<string, BlockModel>): Record<string, any> {
 		// Collect fields as "properties" in the item object
 		const itemProps: Record<string, any> = {};
 		for (const bf of block.fields) {
-			itemProps[bf.fieldName] = this.buildFieldSchema(bf);
+			itemProps[bf.fieldName] = this.buildFieldSchema(bf, typeBlocks);
 		}
 
 		return {
@@ -337,7 +385,7 @@ export class ExcelToSchemaGeneratorUtil {
 	 * - "header" is an array of strings, each enum-limited to the known column name
 	 * - "rows" is an array of arrays, each column with constraints from the field schema
 	 */
-	private static buildTableBlockSchema(block: BlockModel): Record<string, any> {
+	private static buildTableBlockSchema(block: BlockModel, typeBlocks: Map<string, BlockModel>): Record<string, any> {
 		// For the header, we create a fixed array of items: each item is a string enum'd to the field's name
 		const headerItems = block.fields.map((f) => ({
 			type: "string",
@@ -354,7 +402,7 @@ export class ExcelToSchemaGeneratorUtil {
 		};
 
 		// For the rows, each row is an array of cells, each cell with constraints from buildFieldSchema
-		const columnSchemas = block.fields.map((f) => this.buildFieldSchema(f));
+		const columnSchemas = block.fields.map((f) => this.buildFieldSchema(f, typeBlocks));
 		const rowItemsSchema: Record<string, any> = {
 			type: "array",
 			items: columnSchemas,
@@ -380,18 +428,19 @@ export class ExcelToSchemaGeneratorUtil {
 
 	/**
 	 * Converts a single "BlockField" into a JSON schema snippet.
-	 * Handles numeric constraints, string lengths, pattern, enum, description, examples, and nullAllowed.
+	 * Handles numeric constraints, string lengths, pattern, format, enum, description, examples, and nullAllowed.
+	 * @param typePath Names of the type blocks being expanded, to detect circular nested types
 	 */
-	private static buildFieldSchema(bf: BlockField): Record<string, any> {
+	private static buildFieldSchema(bf: BlockField, typeBlocks: Map<string, BlockModel>, typePath: string[] = []): Record<string, any> {
 		const fieldSchema: Record<string, any> = {};
 
 		// Type or [type, "null"]
 		if (bf.type) {
-			if (bf.nullAllowed && bf.nullAllowed.toLowerCase() === "no") {
-				fieldSchema.type = bf.type;
-			} else {
+			Object.assign(fieldSchema, this.buildTypeSchema(bf.type, typeBlocks, typePath));
+			// A "null" type is already null-only
+			if (bf.type !== "null" && !(bf.nullAllowed && bf.nullAllowed.toLowerCase() === "no")) {
 				// e.g. ["string", "null"]
-				fieldSchema.type = [bf.type, "null"];
+				fieldSchema.type = [fieldSchema.type, "null"];
 			}
 		} else {
 			// fallback if not specified
@@ -419,6 +468,11 @@ export class ExcelToSchemaGeneratorUtil {
 			fieldSchema.pattern = bf.pattern;
 		}
 
+		// format
+		if (bf.format) {
+			fieldSchema.format = bf.format;
+		}
+
 		// enum
 		if (bf.enumValues) {
 			const vals = bf.enumValues.split(/\s*,\s*/);
@@ -432,13 +486,68 @@ export class ExcelToSchemaGeneratorUtil {
 
 		// examples
 		if (bf.examples) {
-			// If you want multiple examples, parse them into an array if needed
-			fieldSchema.examples = [bf.examples];
+			fieldSchema.examples = this.parseExamples(bf.examples);
 		}
 
 		return fieldSchema;
 	}
 
+	/**
+	 * Parses the examples of a field: a JSON array holds several examples, and any other text is a single example.
+	 */
+	private static parseExamples(examples: string): unknown[] {
+		if (examples.startsWith("[")) {
+			try {
+				const parsed = JSON.parse(examples);
+				if (Array.isArray(parsed)) {
+					return parsed;
+				}
+			} catch {
+				// Not JSON, e.g. "[draft] notes"
+			}
+		}
+		return [examples];
+	}
+
+	/**
+	 * Converts a field type into a JSON schema snippet with its "type", and its
+	 * "properties" or "items" for the nested types "object:<block_name>" and "array<type>".
+	 */
+	private static buildTypeSchema(type: string, typeBlocks: Map<string, BlockModel>, typePath: string[]): Record<string, any> {
+		const arrayMatch = /^array<(.+)>$/.exec(type);
+		if (arrayMatch) {
+			return { type: "array", items: this.buildTypeSchema(arrayMatch[1].trim(), typeBlocks, typePath) };
+		}
+
+		const objectMatch = /^object:(.+)$/.exec(type);
+		if (objectMatch) {
+			const blockName = objectMatch[1].trim();
+			if (typePath.includes(blockName)) {
+				throw new Error(`Circular nested type: ${[...typePath, blockName].join(" -> ")}`);
+			}
+
+			const block = typeBlocks.get(blockName);
+			if (!block) {
+				throw new Error(`Unknown block "${blockName}" in type "${type}".`);
+			}
+
+			const properties: Record<string, any> = {};
+			for (const bf of block.fields) {
+				properties[bf.fieldName] = this.buildFieldSchema(bf, typeBlocks, [...typePath, blockName]);
+			}
+
+			return {
+				type: "object",
+				properties,
+				// Fields are required unless marked otherwise
+				required: block.fields.filter((f) => f.required?.toLowerCase() !== "no").map((f) => f.fieldName),
+				additionalProperties: false,
+			};
+		}
+
+		return { type };
+	}
+
 	// -------------------------------------------------------------------------
 	// PART 3: DE-DUPLICATE BLOCK SCHEMAS
 	// -------------------------------------------------------------------------
@@ -1,5 +1,6 @@
 import { JsonSchema } from "../beans";
 import { createRequire } from "module";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
 
 // import {version} from '../../package.json';
 
@@ -10,10 +11,31 @@ const pkg = require("../../package.json");
  * Utility class for JSON and string manipulation operations.
  */
 export class GeneratorUtil {
+	/**
+	 * The version of the package.
+	 */
+	public static readonly VERSION: string = pkg.version;
+
+	/**
+	 * The start of the comment that is added to all auto-generated files, whatever the version of the generator.
+	 */
+	public static readonly AUTO_GEN_MARKER = "// Auto-generated by @org-quicko/sheet-generator@";
+
 	/**
 	 * The comment that is added to all auto-generated files.
 	 */
-	public static readonly AUTO_GEN_COMMENT = `// Auto-generated by @org-quicko/sheet-generator@${pkg.version}\n\n`;
+	public static readonly AUTO_GEN_COMMENT = `${GeneratorUtil.AUTO_GEN_MARKER}${GeneratorUtil.VERSION}\n\n`;
+
+	/**
+	 * Patterns of the JSON Schema string formats that are inferred and validated, in order of precedence
+	 */
+	public static readonly STRING_FORMATS: Array<[string, RegExp]> = [
+		["date-time", /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/],
+		["date", /^\d{4}-\d{2}-\d{2}$/],
+		["uuid", /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+		["email", /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+		["uri", /^[a-z][a-z0-9+.-]*:\/\/\S+$/i],
+	];
 
 	/**
 	 * Capitalizes the first character of a string.
@@ -89,6 +111,63 @@ export class GeneratorUtil {
 		return typeMap[type as string] || "unknown";
 	}
 
+	/**
+	 * Converts a JSON Schema to its TypeScript equivalent, describing nested objects and arrays.
+	 * An object with "properties" becomes an interface, and an "enum" becomes a union of literal types,
+	 * whose declarations are added to the given list.
+	 * @param schema - The JSON Schema to convert
+	 * @param typeName - The name of the interface or type to declare
+	 * @param declarations - The list that the declarations are added to
+	 * @param rootSchema - The root schema to resolve "$ref"s against, if they are not resolved yet
+	 * @param plain - Whether untyped objects and arrays are plain TypeScript types rather than `JSONObject` and `JSONArray`
+	 * @returns The corresponding TypeScript type
+	 */
+	public static getNestedTypeScriptType(schema: Record<string, any> | null | undefined, typeName: string, declarations: string[], rootSchema?: JsonSchema, plain: boolean = false): string {
+		return this.toNestedType(schema, typeName, declarations, rootSchema, plain, []);
+	}
+
+	/**
+	 * Writes a key as a property name of an interface or object literal, quoted unless it is an identifier.
+	 * @param key - The key to write
+	 * @returns The property name
+	 */
+	public static toPropertyName(key: string): string {
+		return /^[A-Za-z_$][\w$]*$/.test(key) ? key : this.toLiteralType(key);
+	}
+
+	/**
+	 * Gets the distinct non-null enum values of a JSON Schema.
+	 * Values of a numeric field are converted to numbers, since Excel enums are read as strings.
+	 * @param schema - The JSON Schema of the field
+	 * @returns The enum values, or an empty array if the schema has no enum
+	 */
+	public static getEnumValues(schema: Record<string, any> | undefined): unknown[] {
+		if (!Array.isArray(schema?.enum)) {
+			return [];
+		}
+
+		const types: unknown[] = Array.isArray(schema!.type) ? schema!.type : [schema!.type];
+		const isNumeric = types.includes("number") || types.includes("integer");
+
+		const values = schema!.enum
+			.filter((value: unknown) => value !== null)
+			.map((value: unknown) => (isNumeric && value !== "" && !Number.isNaN(Number(value)) ? Number(value) : value));
+
+		return Array.from(new Set(values));
+	}
+
+	/**
+	 * Converts a value to a TypeScript literal type.
+	 * @param value - The value to convert
+	 * @returns The literal type
+	 */
+	public static toLiteralType(value: unknown): string {
+		if (typeof value === "string") {
+			return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+		}
+		return JSON.stringify(value);
+	}
+
 	/**
 	 * Gets the first enum value from a JSON Schema property.
 	 * @param schema - The JSON Schema object
@@ -102,4 +181,93 @@ export class GeneratorUtil {
 		}
 		return enumValues[0];
 	}
+
+	/**
+	 * Returns the sheet schemas of a workbook schema, as declared (possibly "$ref"s).
+	 * @param schema - The workbook JSON Schema
+	 * @returns The entries of "sheets.items.oneOf", or "sheets.items" itself
+	 * @throws If the workbook schema has no "sheets" array
+	 */
+	public static getSheetSchemas(schema: JsonSchema): JsonSchema[] {
+		const sheetsSchema = SchemaRefResolverUtil.resolveIfRef(schema.properties?.sheets, schema);
+		if (!sheetsSchema || sheetsSchema.type !== "array" || !sheetsSchema.items) {
+			throw new Error(`Invalid JSON Schema: "sheets" definition not found or malformed.`);
+		}
+
+		// Handle multiple sheet types if items is oneOf
+		const sheetsItems = SchemaRefResolverUtil.resolveIfRef(sheetsSchema.items, schema)!;
+		return sheetsItems.oneOf || [sheetsItems];
+	}
+
+	/**
+	 * Returns the block schemas of a sheet schema, as declared (possibly "$ref"s).
+	 * @param sheetSchema - The sheet JSON Schema, resolved
+	 * @param rootSchema - The workbook JSON Schema, to resolve "$ref"s against
+	 * @returns The entries of "blocks.items.oneOf"
+	 * @throws If the sheet schema has no "blocks" array, or its items no "oneOf"
+	 */
+	public static getBlockSchemas(sheetSchema: JsonSchema, rootSchema: JsonSchema): JsonSchema[] {
+		const blocksSchema = SchemaRefResolverUtil.resolveIfRef(sheetSchema.properties?.blocks, rootSchema);
+		if (!blocksSchema || blocksSchema.type !== "array") {
+			throw new Error(`Invalid JSON Schema: "blocks" definition not found or malformed.`);
+		}
+
+		const blockItems = SchemaRefResolverUtil.resolveIfRef(blocksSchema.items, rootSchema);
+		if (!blockItems) {
+			throw new Error(`Invalid JSON Schema: "blocks.items" not found.`);
+		}
+
+		const blockOneOf = blockItems.oneOf;
+		if (!Array.isArray(blockOneOf)) {
+			throw new Error(`Invalid JSON Schema: "blocks.items.oneOf" not found or not an array.`);
+		}
+		return blockOneOf;
+	}
+
+	/**
+	 * Converts a JSON Schema to its TypeScript equivalent, as {@link getNestedTypeScriptType}.
+	 * @param ancestors - The schemas being converted higher up, to stop at recursive schemas
+	 */
+	private static toNestedType(fieldSchema: Record<string, any> | null | undefined, typeName: string, declarations: string[], rootSchema: JsonSchema | undefined, plain: boolean, ancestors: object[]): string {
+		const schema = rootSchema && fieldSchema ? SchemaRefResolverUtil.resolveIfRef(fieldSchema, rootSchema) : fieldSchema;
+		if (schema && ancestors.includes(schema)) {
+			return "unknown";
+		}
+
+		// Null comes last, as in "string | null"
+		const types: unknown[] = Array.isArray(schema?.type) ? schema!.type : [schema?.type];
+		const sortedTypes = [...types.filter((type) => type !== "null"), ...types.filter((type) => type === "null")];
+
+		const enumValues = this.getEnumValues(schema ?? undefined);
+		if (enumValues.length > 0) {
+			declarations.push(`export type ${typeName} = ${enumValues.map((value) => this.toLiteralType(value)).join(" | ")};`);
+			return types.includes("null") ? `${typeName} | null` : typeName;
+		}
+
+		return sortedTypes
+			.map((type) => {
+				if (type === "object" && schema?.properties) {
+					const fields = Object.entries(schema.properties).map(([key, value]: [string, any]) => {
+						const optional = schema.required?.includes(key) ? "" : "?";
+						const fieldType = this.toNestedType(value, `${typeName}${this.capitalize(this.toCamelCase(key))}`, declarations, rootSchema, plain, [...ancestors, schema]);
+						return `    ${this.toPropertyName(key)}${optional}: ${fieldType};`;
+					});
+					declarations.push(`export interface ${typeName} {\n${fields.join("\n")}\n}`);
+					return typeName;
+				}
+
+				if (type === "array" && schema?.items && !Array.isArray(schema.items)) {
+					return `Array<${this.toNestedType(schema.items, `${typeName}Item`, declarations, rootSchema, plain, [...ancestors, schema])}>`;
+				}
+
+				if (plain && type === "object") {
+					return "Record<string, unknown>";
+				}
+				if (plain && type === "array") {
+					return "Array<unknown>";
+				}
+				return this.getTypeScriptType(type);
+			})
+			.join(" | ");
+	}
 }
@@ -0,0 +1,197 @@
+import { JsonSchema } from "../beans";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { SchemaDiffUtil } from "./SchemaDiffUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+
+/**
+ * The definitions of a generated SDL document, by type name, in dependency order
+ */
+type Definitions = Map<string, string>;
+
+/**
+ * Utility class that generates the GraphQL SDL of a workbook JSON Schema.
+ *
+ * The workbook is the root object type, with a field per sheet. A sheet is an object type with a field per block,
+ * a table an object type with the "rows" of its row type, and a list an object type with a field per key.
+ * Row fields are named from the header in camelCase. Enums become GraphQL enums, and non-nullable fields are marked `!`.
+ * Definitions follow the order of the schema, so that the same schema always gives the same document.
+ */
+export class GraphqlGeneratorUtil {
+	/**
+	 * Scalar types of the JSON types, and the custom scalars declared when used
+	 */
+	private static readonly SCALARS: Record<string, string> = {
+		string: "String",
+		integer: "Int",
+		number: "Float",
+		boolean: "Boolean",
+		long: "Long",
+		epoch: "Long",
+	};
+
+	private static readonly CUSTOM_SCALARS = ["JSON", "Long"];
+
+	/**
+	 * Generates the SDL document of a workbook schema.
+	 * @param schema - The workbook JSON Schema
+	 * @returns The SDL document
+	 */
+	public static generate(schema: JsonSchema): string {
+		const definitions: Definitions = new Map();
+		const workbookName = GeneratorUtil.getFirstEnum(schema, "name");
+
+		const sheetFields = Array.from(SchemaDiffUtil.getSheetSchemas(schema).entries()).map(([sheetName, sheetSchema]) => {
+			const blockFields = Array.from(SchemaDiffUtil.getBlockSchemas(sheetSchema, schema).entries()).map(([blockName, blockSchema]) => {
+				const blockTypeName = this.declareBlock(blockName, blockSchema, schema, definitions);
+				return this.toField(blockName, blockTypeName, blockSchema.description);
+			});
+			const sheetTypeName = this.declare(this.toTypeName(sheetName, "Sheet"), sheetSchema.description, `{\n${blockFields.join("\n")}\n}`, definitions);
+			return this.toField(sheetName, sheetTypeName, sheetSchema.description);
+		});
+		this.declare(this.toTypeName(workbookName, "Workbook"), schema.description, `{\n${this.toField("name", "String!")}\n${sheetFields.join("\n")}\n}`, definitions);
+
+		// Custom scalars used by the fields, first
+		const body = Array.from(definitions.values()).join("\n\n");
+		const scalars = this.CUSTOM_SCALARS.filter((scalar) => new RegExp(`: \\[*${scalar}\\b`).test(body)).map((scalar) => `scalar ${scalar}`);
+
+		return `${GeneratorUtil.AUTO_GEN_MARKER.replace(/^\/\//, "#")}${GeneratorUtil.VERSION}\n\n${[...scalars, body].join("\n\n")}\n`;
+	}
+
+	/**
+	 * Declares the object type of a table and its row type, or of a list with a field per key.
+	 * @returns The name of the block type
+	 */
+	private static declareBlock(blockName: string, blockSchema: JsonSchema, rootSchema: JsonSchema, definitions: Definitions): string {
+		if (GeneratorUtil.getFirstEnum(blockSchema, "@entity") === "list") {
+			const listTypeName = this.toTypeName(blockName, "List");
+			const itemSchema = SchemaDiffUtil.getListItemSchema(blockSchema, rootSchema);
+			return this.declareObject(listTypeName, { ...itemSchema, description: blockSchema.description }, rootSchema, definitions, []);
+		}
+
+		const tableTypeName = this.toTypeName(blockName, "Table");
+		const rowTypeName = tableTypeName.replace(/Table$/, "Row");
+		const fields = this.toFieldNames(Array.from(SchemaDiffUtil.getColumnSchemas(blockSchema, rootSchema).entries())).map(([fieldName, column, columnSchema]) => {
+			const resolved = SchemaRefResolverUtil.resolveIfRef(columnSchema, rootSchema) ?? {};
+			return this.toField(fieldName, this.toType(resolved, `${rowTypeName}${this.toTypeName(column)}`, false, rootSchema, definitions, []), resolved.description);
+		});
+		const rowType = this.declare(rowTypeName, undefined, `{\n${fields.join("\n")}\n}`, definitions);
+		return this.declare(tableTypeName, blockSchema.description, `{\n${this.toField("header", "[String!]!")}\n${this.toField("rows", `[${rowType}!]!`)}\n}`, definitions);
+	}
+
+	/**
+	 * Declares the object type of an object schema, with a field per property. Required properties are marked `!`.
+	 * @returns The name of the object type
+	 */
+	private static declareObject(typeName: string, schema: Record<string, any>, rootSchema: JsonSchema, definitions: Definitions, ancestors: object[]): string {
+		const required: string[] = schema.required ?? [];
+		const fields = this.toFieldNames(Object.entries(schema.properties ?? {}) as Array<[string, JsonSchema]>).map(([fieldName, key, keySchema]) => {
+			const resolved = SchemaRefResolverUtil.resolveIfRef(keySchema, rootSchema) ?? {};
+			return this.toField(fieldName, this.toType(resolved, `${typeName}${this.toTypeName(key)}`, !required.includes(key), rootSchema, definitions, [...ancestors, schema]), resolved.description);
+		});
+		// Object types need at least one field
+		return this.declare(typeName, schema.description, fields.length > 0 ? `{\n${fields.join("\n")}\n}` : `{\n${this.toField("value", "JSON")}\n}`, definitions);
+	}
+
+	/**
+	 * Converts a field schema to a GraphQL type, declaring its enum or object type under the given type name.
+	 * @param optional - Whether the field may be left out, which makes it nullable
+	 * @param ancestors - The schemas being converted higher up, to stop at recursive schemas
+	 */
+	private static toType(schema: Record<string, any>, typeName: string, optional: boolean, rootSchema: JsonSchema, definitions: Definitions, ancestors: object[]): string {
+		const types: string[] = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+		const nullable = optional || types.length === 0 || types.includes("null") || (Array.isArray(schema.enum) && schema.enum.includes(null));
+		const valueTypes = types.filter((type) => type !== "null");
+
+		let type = "JSON";
+		const enumValues = GeneratorUtil.getEnumValues(schema);
+		if (enumValues.length > 0 && valueTypes.length === 1 && valueTypes[0] !== "boolean") {
+			type = this.declareEnum(typeName, enumValues, definitions);
+		} else if (valueTypes.length === 1 && valueTypes[0] === "object" && schema.properties && !ancestors.includes(schema)) {
+			type = this.declareObject(typeName, schema, rootSchema, definitions, ancestors);
+		} else if (valueTypes.length === 1 && valueTypes[0] === "array" && schema.items && !Array.isArray(schema.items)) {
+			const itemSchema = SchemaRefResolverUtil.resolveIfRef(schema.items, rootSchema) ?? {};
+			type = `[${this.toType(itemSchema, `${typeName}Item`, false, rootSchema, definitions, [...ancestors, schema])}]`;
+		} else if (valueTypes.length === 1) {
+			type = this.SCALARS[valueTypes[0]] ?? "JSON";
+		}
+
+		return nullable ? type : `${type}!`;
+	}
+
+	/**
+	 * Declares an enum type. Values which are not valid GraphQL names are converted, e.g. `in-progress` to `in_progress`.
+	 * @returns The name of the enum type
+	 */
+	private static declareEnum(typeName: string, values: unknown[], definitions: Definitions): string {
+		const names: string[] = [];
+		values.forEach((value) => {
+			let name = String(value).replace(/[^_0-9A-Za-z]+/g, "_");
+			if (!/^[_A-Za-z]/.test(name) || ["true", "false", "null"].includes(name)) {
+				name = `_${name}`;
+			}
+			names.push(names.includes(name) ? `${name}_${names.length}` : name);
+		});
+		return this.declare(typeName, undefined, `{\n${names.map((name) => `    ${name}`).join("\n")}\n}`, definitions, "enum");
+	}
+
+	/**
+	 * Adds a definition, unless the same one is already declared. A name already declared for another definition gets a number.
+	 * @returns The name of the type
+	 */
+	private static declare(typeName: string, description: string | undefined, body: string, definitions: Definitions, kind: string = "type"): string {
+		for (let index = 1; ; index++) {
+			const name = index === 1 ? typeName : `${typeName}${index}`;
+			const definition = `${this.toDescription(description, "")}${kind} ${name} ${body}`;
+			const existing = definitions.get(name);
+			if (existing === undefined) {
+				definitions.set(name, definition);
+				return name;
+			}
+			if (existing === definition) {
+				return name;
+			}
+		}
+	}
+
+	private static toField(name: string, type: string, description?: string): string {
+		return `${this.toDescription(description, "    ")}    ${this.toFieldName(name)}: ${type}`;
+	}
+
+	/**
+	 * Names the fields of columns or keys in camelCase. Names which become the same get a number.
+	 * @returns The field name, the column or key, and its schema
+	 */
+	private static toFieldNames<T>(entries: Array<[string, T]>): Array<[string, string, T]> {
+		const fieldNames: string[] = [];
+		return entries.map(([name, schema]) => {
+			const camelCase = this.toFieldName(name);
+			const fieldName = fieldNames.includes(camelCase) ? `${camelCase}${fieldNames.length}` : camelCase;
+			fieldNames.push(fieldName);
+			return [fieldName, name, schema];
+		});
+	}
+
+	/**
+	 * Names a field in camelCase, words being separated by any character which is not valid in a GraphQL name, e.g. `paid-at` to `paidAt`.
+	 * A field name is kept as it is.
+	 */
+	private static toFieldName(name: string): string {
+		const fieldName = GeneratorUtil.toCamelCase(name.replace(/[^_0-9A-Za-z]+/g, "_"));
+		return /^[_A-Za-z]/.test(fieldName) ? fieldName : `_${fieldName}`;
+	}
+
+	private static toTypeName(name: string, suffix: string = ""): string {
+		const typeName = this.toFieldName(GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(name)));
+		return suffix ? GeneratorUtil.sanitizeName(typeName, suffix) : typeName;
+	}
+
+	/**
+	 * Writes a description as a block string.
+	 */
+	private static toDescription(description: string | undefined, indent: string): string {
+		if (!description) {
+			return "";
+		}
+		return `${indent}"""\n${description.replace(/"""/g, '\\"""').split(/\r?\n/).map((line) => `${indent}${line}`).join("\n")}\n${indent}"""\n`;
+	}
+}
@@ -0,0 +1,126 @@
+import path from "path";
+import { JsonSchema } from "../beans/JsonSchema";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { Declarations, ProjectWalkerUtil } from "./ProjectWalkerUtil";
+import { SchemaDiffUtil } from "./SchemaDiffUtil";
+
+/**
+ * Utility class that generates plain TypeScript interfaces and type aliases describing the JSON of workbooks:
+ * one module per workbook, and a "common" module for the sheets and blocks used by several workbooks or reached through a "$ref".
+ *
+ * A workbook has a union of its sheet types, and a sheet a union of its block types, told apart by "name".
+ * Tables have tuple types for their header and rows, and lists an interface for their items.
+ * The modules only declare types, so they have no runtime imports.
+ */
+export class InterfaceGeneratorUtil {
+	/**
+	 * Generates the interface modules of the workbook schemas of a project.
+	 * @param schemas - The workbook JSON Schemas of the project
+	 * @param interfacesDir - The directory of the modules, relative to the output directory
+	 * @param sharedBlocks - The names of the blocks used with the same shape by several workbooks
+	 * @param files - The generated files, by path relative to the output directory
+	 */
+	public static generate(schemas: JsonSchema[], interfacesDir: string, sharedBlocks: Set<string>, files: Map<string, string>): void {
+		const { common, modules } = ProjectWalkerUtil.walk(schemas, sharedBlocks, {
+			declareBlock: (blockSchema, rootSchema, declarations) => this.declareBlock(blockSchema, rootSchema, declarations),
+			declareSheet: (sheetSchema, blockTypes, declarations) => this.declareSheet(sheetSchema, blockTypes, declarations),
+			declareWorkbook: (schema, sheetTypes, declarations) => this.declareWorkbook(schema, sheetTypes, declarations),
+		});
+
+		if (common.size > 0) {
+			files.set(path.posix.join(interfacesDir, "common.ts"), this.toModule(common, []));
+		}
+		modules.forEach(({ workbookName, declarations, imports }) => {
+			files.set(path.posix.join(interfacesDir, `${GeneratorUtil.toKebabCase(workbookName)}.ts`), this.toModule(declarations, imports));
+		});
+	}
+
+	/**
+	 * Declares the interface of a workbook, and the union of its sheets.
+	 */
+	private static declareWorkbook(schema: JsonSchema, sheetTypes: string[], declarations: Declarations): void {
+		const workbookTypeName = this.toTypeName(GeneratorUtil.getFirstEnum(schema, "name"), "Workbook");
+		declarations.set(`${workbookTypeName}Sheet`, `export type ${workbookTypeName}Sheet = ${this.toUnion(sheetTypes)};`);
+		declarations.set(workbookTypeName, this.toInterface(workbookTypeName, schema, ["sheets", `Array<${workbookTypeName}Sheet>`]));
+	}
+
+	/**
+	 * Declares the interface of a sheet, and the union of its blocks.
+	 * @returns The name of the sheet interface
+	 */
+	private static declareSheet(sheetSchema: JsonSchema, blockTypes: string[], declarations: Declarations): string {
+		const sheetTypeName = this.toTypeName(GeneratorUtil.getFirstEnum(sheetSchema, "name"), "Sheet");
+		declarations.set(`${sheetTypeName}Block`, `export type ${sheetTypeName}Block = ${this.toUnion(blockTypes)};`);
+		declarations.set(sheetTypeName, this.toInterface(sheetTypeName, sheetSchema, ["blocks", `Array<${sheetTypeName}Block>`]));
+		return sheetTypeName;
+	}
+
+	/**
+	 * Declares the interface of a table, with its row tuple, or of a list, with its item interface.
+	 * @returns The name of the block interface
+	 */
+	private static declareBlock(blockSchema: JsonSchema, rootSchema: JsonSchema, declarations: Declarations): string {
+		const blockName = GeneratorUtil.getFirstEnum(blockSchema, "name");
+		const entity = GeneratorUtil.getFirstEnum(blockSchema, "@entity");
+		const blockTypeName = this.toTypeName(blockName, entity === "list" ? "List" : "Table");
+		if (declarations.has(blockTypeName)) {
+			return blockTypeName;
+		}
+
+		if (entity === "list") {
+			const itemTypeName = blockTypeName.replace(/List$/, "Item");
+			const itemSchema = SchemaDiffUtil.getListItemSchema(blockSchema, rootSchema);
+			this.toType({ ...itemSchema, type: "object", properties: itemSchema?.properties ?? {} }, itemTypeName, rootSchema, declarations);
+			declarations.set(blockTypeName, this.toInterface(blockTypeName, blockSchema, ["items", `Array<${itemTypeName}>`]));
+		} else {
+			const rowTypeName = blockTypeName.replace(/Table$/, "Row");
+			const columnSchemas = SchemaDiffUtil.getColumnSchemas(blockSchema, rootSchema);
+			const header = Array.from(columnSchemas.keys());
+			const columns = Array.from(columnSchemas).map(([column, columnSchema]) => this.toType(columnSchema, `${rowTypeName}${this.toTypeName(column)}`, rootSchema, declarations));
+
+			declarations.set(rowTypeName, `export type ${rowTypeName} = [${columns.join(", ")}];`);
+			declarations.set(blockTypeName, this.toInterface(blockTypeName, blockSchema, ["header", `[${header.map((column) => GeneratorUtil.toLiteralType(column)).join(", ")}]`], ["rows", `Array<${rowTypeName}>`]));
+		}
+
+		return blockTypeName;
+	}
+
+	/**
+	 * Converts a field schema to a TypeScript type, declaring the interfaces of its objects and the literal unions of its enums.
+	 */
+	private static toType(schema: JsonSchema | null, typeName: string, rootSchema: JsonSchema, declarations: Declarations): string {
+		const nestedDeclarations: string[] = [];
+		const type = GeneratorUtil.getNestedTypeScriptType(schema, typeName, nestedDeclarations, rootSchema, true);
+		nestedDeclarations.forEach((declaration) => declarations.set(/^export (?:type|interface) (\w+)/.exec(declaration)![1], declaration));
+		return type;
+	}
+
+	/**
+	 * Declares the interface of a workbook, sheet or block: its "name" and "@entity" literals, and the given properties.
+	 */
+	private static toInterface(typeName: string, schema: JsonSchema, ...properties: Array<[string, string]>): string {
+		const fields: Array<[string, string]> = [
+			["name", GeneratorUtil.toLiteralType(GeneratorUtil.getFirstEnum(schema, "name"))],
+			["'@entity'", GeneratorUtil.toLiteralType(GeneratorUtil.getFirstEnum(schema, "@entity"))],
+			...properties,
+		];
+		return `export interface ${typeName} {\n${fields.map(([name, type]) => `    ${name}: ${type};`).join("\n")}\n}`;
+	}
+
+	private static toUnion(types: string[]): string {
+		return types.length > 0 ? types.join(" | ") : "never";
+	}
+
+	/**
+	 * Writes a module of declarations, importing types of the common module.
+	 */
+	private static toModule(declarations: Declarations, imports: string[]): string {
+		const importLine = imports.length > 0 ? `import type { ${imports.join(", ")} } from './common';\n\n` : "";
+		return `${GeneratorUtil.AUTO_GEN_COMMENT}${importLine}${Array.from(declarations.values()).join("\n\n")}\n`;
+	}
+
+	private static toTypeName(name: string, suffix: string = ""): string {
+		const typeName = GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(name));
+		return suffix ? GeneratorUtil.sanitizeName(typeName, suffix) : typeName;
+	}
+}
@@ -0,0 +1,175 @@
+import * as XLSX from "xlsx";
+import { Block, JsonSchema, Workbook } from "../beans";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+
+/**
+ * The rows of a tab, with the number formats of its date cells
+ */
+interface TabRows {
+	rows: unknown[][];
+	dateFormats: Array<[number, number, string]>; // row index, column index, number format
+}
+
+/**
+ * Utility class that writes a workbook JSON instance to an Excel file, in the layout read by ExcelToJsonGeneratorUtil.
+ *
+ * Each sheet becomes a tab. Each block is written as a row holding its name, followed by the header row
+ * and data rows of a table, or one key/value row per list item, with a blank row between blocks.
+ * Table columns are written in the order of the schema's header.
+ */
+export class JsonToExcelGeneratorUtil {
+	/**
+	 * Number formats of the date cells, by JSON Schema string format
+	 */
+	private static readonly DATE_FORMATS: Record<string, string> = {
+		date: "yyyy-mm-dd",
+		"date-time": "yyyy-mm-dd hh:mm:ss",
+	};
+
+	/**
+	 * Serial number of 1970-01-01, counting days from 1899-12-30 as Excel does
+	 */
+	private static readonly UNIX_EPOCH_SERIAL = 25569;
+
+	private static readonly MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+	/**
+	 * Main entry point. Builds the Excel workbook for the given workbook JSON instance
+	 * and writes it to the given path.
+	 * @param data The workbook JSON instance
+	 * @param schema The workbook JSON Schema
+	 * @param excelFilePath Path of the Excel file (.xlsx) to write
+	 */
+	public static generate(data: Workbook, schema: JsonSchema, excelFilePath: string): void {
+		const wb = this.buildWorkbook(data, schema);
+		XLSX.writeFile(wb, excelFilePath);
+	}
+
+	/**
+	 * Builds a SheetJS workbook with one tab per sheet of the instance.
+	 */
+	private static buildWorkbook(data: Workbook, schema: JsonSchema): XLSX.WorkBook {
+		const sheetsSchema = SchemaRefResolverUtil.resolveIfRef(schema.properties?.sheets, schema);
+		const sheetsItems = SchemaRefResolverUtil.resolveIfRef(sheetsSchema?.items, schema);
+		if (!sheetsItems) {
+			throw new Error(`Invalid JSON Schema: "sheets" definition not found or malformed.`);
+		}
+		const sheetSchemas = this.byName(sheetsItems.oneOf || [sheetsItems], schema);
+
+		const wb = XLSX.utils.book_new();
+
+		data.sheets.forEach((sheet) => {
+			const sheetSchema = sheetSchemas.get(sheet.name);
+			const blocksSchema = SchemaRefResolverUtil.resolveIfRef(sheetSchema?.properties?.blocks, schema);
+			const blockItems = SchemaRefResolverUtil.resolveIfRef(blocksSchema?.items, schema);
+			const blockSchemas = this.byName(blockItems?.oneOf || [], schema);
+
+			const tab: TabRows = { rows: [], dateFormats: [] };
+			sheet.blocks.forEach((block) => {
+				// Separate blocks with a blank row
+				if (tab.rows.length > 0) {
+					tab.rows.push([]);
+				}
+
+				tab.rows.push([block.name]);
+				const blockSchema = blockSchemas.get(block.name);
+				if (block["@entity"] === "list") {
+					this.addListRows(block, blockSchema, schema, tab);
+				} else {
+					this.addTableRows(block, blockSchema, schema, tab);
+				}
+			});
+
+			const ws = XLSX.utils.aoa_to_sheet(tab.rows);
+			tab.dateFormats.forEach(([r, c, format]) => {
+				ws[XLSX.utils.encode_cell({ r, c })].z = format;
+			});
+			XLSX.utils.book_append_sheet(wb, ws, sheet.name);
+		});
+
+		return wb;
+	}
+
+	/**
+	 * Adds the header row and data rows of a table block. Columns missing from the schema are written after its columns.
+	 */
+	private static addTableRows(block: Block, blockSchema: JsonSchema | undefined, rootSchema: JsonSchema, tab: TabRows): void {
+		const headerItems = blockSchema?.properties?.header?.items;
+		const schemaHeader: string[] = Array.isArray(headerItems) ? headerItems.map((item: JsonSchema) => item.enum?.[0] ?? "") : [];
+		const columnSchemas = blockSchema?.properties?.rows?.items?.items;
+
+		// Rows without a header hold the columns of the schema, in order
+		const dataHeader: string[] = block.header ?? schemaHeader;
+		const header = [...schemaHeader.filter((column) => dataHeader.includes(column)), ...dataHeader.filter((column) => !schemaHeader.includes(column))];
+		tab.rows.push(header);
+
+		(block.rows ?? []).forEach((row) => {
+			const values = Array.isArray(row) ? row : [];
+			tab.rows.push(
+				header.map((column, colIndex) => {
+					const schemaIndex = schemaHeader.indexOf(column);
+					const columnSchema = schemaIndex >= 0 && Array.isArray(columnSchemas) ? SchemaRefResolverUtil.resolveIfRef(columnSchemas[schemaIndex], rootSchema) : null;
+					return this.toCellValue(values[dataHeader.indexOf(column)], columnSchema, tab, colIndex);
+				})
+			);
+		});
+	}
+
+	/**
+	 * Adds one key/value row per item of a list block.
+	 */
+	private static addListRows(block: Block, blockSchema: JsonSchema | undefined, rootSchema: JsonSchema, tab: TabRows): void {
+		const itemSchema = SchemaRefResolverUtil.resolveIfRef(blockSchema?.properties?.items?.items, rootSchema);
+		const properties: Record<string, any> = itemSchema?.properties ?? {};
+
+		(block.items ?? []).forEach((item) => {
+			Object.entries(item ?? {}).forEach(([key, value]) => {
+				const valueSchema = SchemaRefResolverUtil.resolveIfRef(properties[key] ?? null, rootSchema);
+				tab.rows.push([key, this.toCellValue(value, valueSchema, tab, 1)]);
+			});
+		});
+	}
+
+	/**
+	 * Converts a value to the value of its cell. Numbers and booleans are kept, so that they are written as such,
+	 * strings with a "date" or "date-time" format become date cells, and nested objects and arrays are written as JSON.
+	 * Date cells hold the serial number of the date and time in UTC, which ExcelToJsonGeneratorUtil reads back as UTC,
+	 * so that the local time zone does not shift them.
+	 * @param colIndex The column of the cell, in the row being added
+	 */
+	private static toCellValue(value: unknown, fieldSchema: Record<string, any> | null, tab: TabRows, colIndex: number): unknown {
+		if (value === null || value === undefined) {
+			return null;
+		}
+
+		const format: string | undefined = fieldSchema?.format;
+		if (typeof value === "string" && format && format in this.DATE_FORMATS) {
+			const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+			// A date-time without an offset is taken as UTC, not local time
+			const time = match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : Date.parse(/(Z|[+-]\d{2}:?\d{2})$/i.test(value) ? value : `${value}Z`);
+			if (!Number.isNaN(time)) {
+				tab.dateFormats.push([tab.rows.length, colIndex, this.DATE_FORMATS[format]]);
+				return time / this.MS_PER_DAY + this.UNIX_EPOCH_SERIAL;
+			}
+		}
+
+		if (typeof value === "object") {
+			return JSON.stringify(value);
+		}
+
+		return value;
+	}
+
+	/**
+	 * Maps the (resolved) schemas of a oneOf by the first enum of their "name".
+	 */
+	private static byName(schemas: JsonSchema[], rootSchema: JsonSchema): Map<string, JsonSchema> {
+		const map = new Map<string, JsonSchema>();
+		schemas.forEach((node) => {
+			const resolved = SchemaRefResolverUtil.resolveIfRef(node, rootSchema)!;
+			map.set(GeneratorUtil.getFirstEnum(resolved, "name"), resolved);
+		});
+		return map;
+	}
+}
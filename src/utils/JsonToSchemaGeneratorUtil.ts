@@ -1,38 +1,129 @@
 import { Block, Workbook } from "../beans";
+import { GeneratorUtil } from "./GeneratorUtil";
+
+/**
+ * Options for schema inference from JSON samples
+ */
+export interface JsonToSchemaOptions {
+	/**
+	 * Maximum number of distinct values for a string field to be given an "enum". Use 0 to disable.
+	 * Defaults to 10.
+	 */
+	enumThreshold?: number;
+
+	/**
+	 * Fill "minimum"/"maximum" and "minLength"/"maxLength" from the observed values. Defaults to false.
+	 */
+	inferRanges?: boolean;
+}
+
+/**
+ * Values observed for a single table column or list key across all samples.
+ * Objects and arrays are described recursively by the properties and items observed in them.
+ */
+interface FieldSample {
+	types: Set<string>;
+	values: unknown[];
+	count: number; // number of values observed, including nulls
+	objects: number; // number of object values observed
+	properties: Map<string, FieldSample>;
+	items?: FieldSample;
+}
+
+/**
+ * Block observed across all samples. Fields are kept in order of first appearance.
+ */
+interface BlockSample {
+	name: string;
+	entity: string;
+	fields: Map<string, FieldSample>;
+	minColumns?: number; // fewest columns in a sample of a table
+}
+
+/**
+ * Sheet observed across all samples. Blocks are kept in order of first appearance.
+ */
+interface SheetSample {
+	name: string;
+	entity: string;
+	blocks: Map<string, BlockSample>;
+}
 
 /**
  * Utility class for generating JSON schemas from workbook data
  */
 export class JsonToSchemaGeneratorUtil {
+	/**
+	 * Default maximum number of distinct values for a string field to be given an "enum"
+	 */
+	private static readonly DEFAULT_ENUM_THRESHOLD = 10;
+
 	/**
 	 * Takes a workbook object and produces a JSON Schema that uses `oneOf` for each
 	 * block definition. It supports blocks of @entity = "table" or "list".
 	 * @param data The workbook data to generate schema from
+	 * @param options Options for type, format, enum and range inference
+	 * @returns Generated JSON schema as a Record
+	 */
+	public static generate(data: Workbook, options: JsonToSchemaOptions = {}): Record<string, any> {
+		return this.merge([data], options);
+	}
+
+	/**
+	 * Takes several samples of the same workbook and produces a single JSON Schema describing all of them.
+	 * Types are unioned per table column and per list key, and a field is nullable only if a null was seen.
+	 * Sheets, blocks, columns and keys that appear in only some of the samples are included.
+	 * Samples of a table may leave out trailing columns, which are then nullable. Rows still have every column,
+	 * as the generated tuples, classes and models expect, so the rows of such samples need null in them to be valid.
+	 * Samples whose headers differ otherwise are rejected.
+	 * @param samples The workbook samples to generate schema from, all sharing the same workbook name
+	 * @param options Options for type, format, enum and range inference
 	 * @returns Generated JSON schema as a Record
 	 */
-	public static generate(data: Workbook): Record<string, any> {
-		// Basic validations
-		if (!data || !data.sheets || !data.sheets.length) {
-			throw new Error("Invalid data: No sheets found.");
+	public static merge(samples: Workbook[], options: JsonToSchemaOptions = {}): Record<string, any> {
+		if (!samples || !samples.length) {
+			throw new Error("Invalid data: No samples found.");
 		}
 
-		// Process all sheets
-		const sheetSchemas = data.sheets.map((sheet) => {
-			if (!sheet.blocks || !sheet.blocks.length) {
-				throw new Error(`Invalid data: No blocks found in sheet "${sheet.name}".`);
+		const [first] = samples;
+		const sheets = new Map<string, SheetSample>();
+
+		for (const data of samples) {
+			// Basic validations
+			if (!data || !data.sheets || !data.sheets.length) {
+				throw new Error("Invalid data: No sheets found.");
+			}
+			if (data.name !== first.name) {
+				throw new Error(`Invalid data: Cannot merge workbook "${data.name}" into workbook "${first.name}".`);
+			}
+
+			for (const sheet of data.sheets) {
+				if (!sheet.blocks || !sheet.blocks.length) {
+					throw new Error(`Invalid data: No blocks found in sheet "${sheet.name}".`);
+				}
+
+				let sheetSample = sheets.get(sheet.name);
+				if (!sheetSample) {
+					sheetSample = { name: sheet.name, entity: sheet["@entity"], blocks: new Map() };
+					sheets.set(sheet.name, sheetSample);
+				}
+
+				for (const block of sheet.blocks) {
+					this.collectBlock(block, sheetSample);
+				}
 			}
+		}
 
+		// Process all sheets
+		const sheetSchemas = Array.from(sheets.values()).map((sheet) => {
 			// Build a oneOf array for all blocks in this sheet
 			const blocksOneOf: Array<Record<string, any>> = [];
 
-			for (const block of sheet.blocks) {
-				const blockName = block.name;
-				const blockEntity = block["@entity"];
-
-				if (blockEntity === "table") {
-					this.handleTableBlock(block, blockName, blocksOneOf);
-				} else if (blockEntity === "list") {
-					this.handleListBlock(block, blockName, blocksOneOf);
+			for (const block of sheet.blocks.values()) {
+				if (block.entity === "table") {
+					this.handleTableBlock(block, blocksOneOf, options);
+				} else if (block.entity === "list") {
+					this.handleListBlock(block, blocksOneOf, options);
 				}
 			}
 
@@ -45,7 +136,7 @@ export class JsonToSchemaGeneratorUtil {
 					},
 					"@entity": {
 						type: "string",
-						enum: [sheet["@entity"]],
+						enum: [sheet.entity],
 					},
 					blocks: {
 						type: "array",
@@ -64,11 +155,11 @@ export class JsonToSchemaGeneratorUtil {
 			properties: {
 				name: {
 					type: "string",
-					enum: [data.name],
+					enum: [first.name],
 				},
 				"@entity": {
 					type: "string",
-					enum: [data["@entity"]],
+					enum: [first["@entity"]],
 				},
 				sheets: {
 					type: "array",
@@ -90,49 +181,192 @@ export class JsonToSchemaGeneratorUtil {
 	}
 
 	/**
-	 * Handles generation of schema for table blocks
+	 * Records the types observed in a block's table columns or list keys
 	 */
-	private static handleTableBlock(block: Block, blockName: string, blocksOneOf: Array<Record<string, any>>): void {
-		let columnTypes: Record<string, any>[] | undefined;
-		if (block.header && block.header.length > 0) {
-			columnTypes = block.header.map((_, colIndex) => {
+	private static collectBlock(block: Block, sheetSample: SheetSample): void {
+		const blockEntity = block["@entity"];
+
+		let blockSample = sheetSample.blocks.get(block.name);
+		if (!blockSample) {
+			blockSample = { name: block.name, entity: blockEntity, fields: new Map() };
+			sheetSample.blocks.set(block.name, blockSample);
+		} else if (blockSample.entity !== blockEntity) {
+			throw new Error(`Invalid data: Block "${block.name}" in sheet "${sheetSample.name}" is both a ${blockSample.entity} and a ${blockEntity}.`);
+		}
+
+		const getField = (fieldName: string): FieldSample => {
+			let field = blockSample.fields.get(fieldName);
+			if (!field) {
+				field = this.createFieldSample();
+				blockSample.fields.set(fieldName, field);
+			}
+			return field;
+		};
+
+		if (blockEntity === "table") {
+			// Samples of a table may leave out trailing columns, but their headers must agree on the columns they share
+			const blockHeader = block.header ?? [];
+			const knownHeader = Array.from(blockSample.fields.keys());
+			if (blockHeader.some((header, colIndex) => colIndex < knownHeader.length && header !== knownHeader[colIndex])) {
+				throw new Error(
+					`Invalid data: Cannot merge table "${block.name}" in sheet "${sheetSample.name}": header [${blockHeader.join(", ")}] does not match header [${knownHeader.join(", ")}] of another sample. Headers may only differ in their trailing columns.`
+				);
+			}
+			blockSample.minColumns = Math.min(blockSample.minColumns ?? blockHeader.length, blockHeader.length);
+
+			blockHeader.forEach((header, colIndex) => {
 				// Get all unique types for this column across all rows
-				const uniqueTypes = new Set<string>();
-				if (block.rows) {
-					for (const row of block.rows) {
-						const type = this.deriveJsonSchemaType(row![colIndex]);
-						if (type) {
-							uniqueTypes.add(type);
-						}
-					}
+				const field = getField(header);
+				for (const row of block.rows ?? []) {
+					this.collectValue(field, row![colIndex]);
 				}
+			});
+		} else if (blockEntity === "list") {
+			for (const item of block.items ?? []) {
+				const [key, value] = Object.entries(item!)[0];
+				this.collectValue(getField(key), value);
+			}
+		}
+	}
 
-				// Convert Set to array of types
-				const types = Array.from(uniqueTypes);
+	private static createFieldSample(): FieldSample {
+		return { types: new Set(), values: [], count: 0, objects: 0, properties: new Map() };
+	}
 
-				// If only one type, return simple schema
-				if (types.length === 1) {
-					return { type: types[0] };
-				}
-				// If multiple types including null, return array of types
-				if (types.length > 0) {
-					return { type: types };
+	/**
+	 * Records the type of a single sample value, and the value itself unless it is null.
+	 * Object properties and array elements are recorded recursively.
+	 */
+	private static collectValue(field: FieldSample, value: any): void {
+		const type = this.deriveJsonSchemaType(value);
+		if (type) {
+			field.types.add(type);
+		}
+		field.count += 1;
+
+		if (type === "object") {
+			field.objects += 1;
+			for (const [key, propertyValue] of Object.entries(value)) {
+				let property = field.properties.get(key);
+				if (!property) {
+					property = this.createFieldSample();
+					field.properties.set(key, property);
 				}
-				// Fallback if no valid types found
-				return { type: "null" };
+				this.collectValue(property, propertyValue);
+			}
+		} else if (type === "array") {
+			field.items = field.items ?? this.createFieldSample();
+			for (const element of value) {
+				this.collectValue(field.items, element);
+			}
+		} else if (value !== null && value !== undefined) {
+			field.values.push(value);
+		}
+	}
+
+	/**
+	 * Builds the schema of a single column or key from the types and values observed for it
+	 */
+	private static buildFieldSchema(field: FieldSample, options: JsonToSchemaOptions): Record<string, any> {
+		// Convert Set to array of types; a mix of whole and fractional numbers is a number
+		let types = Array.from(field.types);
+		if (types.includes("integer") && types.includes("number")) {
+			types = types.filter((t) => t !== "integer");
+		}
+
+		const fieldSchema: Record<string, any> = {};
+
+		// If only one type, return simple schema
+		if (types.length === 1) {
+			[fieldSchema.type] = types;
+		} else if (types.length > 0) {
+			// If multiple types including null, return array of types
+			fieldSchema.type = types;
+		} else {
+			// Fallback if no valid types found
+			fieldSchema.type = "null";
+		}
+
+		const nonNullTypes = types.filter((t) => t !== "null");
+		if (nonNullTypes.length !== 1) {
+			return fieldSchema;
+		}
+
+		if (nonNullTypes[0] === "string") {
+			// cells missing from short rows have no value, so a column may have none at all
+			const strings = (field.values as Array<string | undefined>).filter((value): value is string => value !== undefined);
+
+			// format, when every value matches
+			const format = strings.length > 0 ? GeneratorUtil.STRING_FORMATS.find(([, regex]) => strings.every((s) => regex.test(s))) : undefined;
+			if (format) {
+				[fieldSchema.format] = format;
+			}
+
+			// string length; reduced rather than spread, as a large sample exceeds the argument limit
+			if (options.inferRanges && strings.length > 0) {
+				fieldSchema.minLength = strings.reduce((min, s) => Math.min(min, s.length), strings[0].length);
+				fieldSchema.maxLength = strings.reduce((max, s) => Math.max(max, s.length), strings[0].length);
+			}
+
+			// enum, for low-cardinality fields whose values repeat
+			const distinct = Array.from(new Set(strings));
+			const enumThreshold = options.enumThreshold ?? this.DEFAULT_ENUM_THRESHOLD;
+			if (!format && distinct.length <= enumThreshold && distinct.length < strings.length) {
+				// a nullable field lists null too, or its null values fail the enum
+				fieldSchema.enum = types.includes("null") ? [...distinct.sort(), null] : distinct.sort();
+			}
+		} else if (nonNullTypes[0] === "object" && field.properties.size > 0) {
+			// nested properties; a property is required if every object had it
+			const properties: Record<string, any> = {};
+			field.properties.forEach((property, key) => {
+				properties[key] = this.buildFieldSchema(property, options);
 			});
+			fieldSchema.properties = properties;
+			fieldSchema.required = Array.from(field.properties.entries())
+				.filter(([, property]) => property.count === field.objects)
+				.map(([key]) => key);
+			fieldSchema.additionalProperties = false;
+		} else if (nonNullTypes[0] === "array" && field.items && field.items.count > 0) {
+			// nested items
+			fieldSchema.items = this.buildFieldSchema(field.items, options);
+		} else if (options.inferRanges && (nonNullTypes[0] === "integer" || nonNullTypes[0] === "number")) {
+			// numeric constraints
+			const numbers = field.values as number[];
+			fieldSchema.minimum = numbers.reduce((min, n) => Math.min(min, n), numbers[0]);
+			fieldSchema.maximum = numbers.reduce((max, n) => Math.max(max, n), numbers[0]);
 		}
 
-		const headerSize = block.header?.length ?? 0;
+		return fieldSchema;
+	}
+
+	/**
+	 * Handles generation of schema for table blocks.
+	 * Trailing columns missing from some samples are nullable.
+	 */
+	private static handleTableBlock(block: BlockSample, blocksOneOf: Array<Record<string, any>>, options: JsonToSchemaOptions): void {
+		const header = Array.from(block.fields.keys());
+		const headerSize = header.length;
+		const minColumns = block.minColumns ?? headerSize;
+		const columnTypes = Array.from(block.fields.values()).map((field, colIndex) => {
+			const columnType = this.buildFieldSchema(field, options);
+			if (colIndex >= minColumns) {
+				const types: string[] = Array.isArray(columnType.type) ? columnType.type : [columnType.type];
+				columnType.type = types.includes("null") ? columnType.type : [...types, "null"];
+				if (Array.isArray(columnType.enum) && !columnType.enum.includes(null)) {
+					columnType.enum = [...columnType.enum, null];
+				}
+			}
+			return columnType;
+		});
 
 		blocksOneOf.push({
 			type: "object",
 			properties: {
-				name: { type: "string", enum: [blockName] },
+				name: { type: "string", enum: [block.name] },
 				"@entity": { type: "string", enum: ["table"] },
 				header: {
 					type: "array",
-					items: block.header?.map((h) => ({ type: "string", enum: [h] })) ?? [],
+					items: header.map((h) => ({ type: "string", enum: [h] })),
 					additionalItems: false,
 					minItems: headerSize,
 					maxItems: headerSize,
@@ -141,7 +375,7 @@ export class JsonToSchemaGeneratorUtil {
 					type: "array",
 					items: {
 						type: "array",
-						items: columnTypes ?? [],
+						items: columnTypes,
 						additionalItems: false,
 						minItems: headerSize,
 						maxItems: headerSize,
@@ -155,21 +389,17 @@ export class JsonToSchemaGeneratorUtil {
 	/**
 	 * Handles generation of schema for list blocks
 	 */
-	private static handleListBlock(block: Block, blockName: string, blocksOneOf: Array<Record<string, any>>): void {
+	private static handleListBlock(block: BlockSample, blocksOneOf: Array<Record<string, any>>, options: JsonToSchemaOptions): void {
 		const properties: Record<string, any> = {};
 
-		if (block.items && block.items.length > 0) {
-			block.items.forEach((item) => {
-				const [key, value] = Object.entries(item!)[0];
-				const derivedType = this.deriveJsonSchemaType(value) || "string"; // Fallback to 'string' if null
-				properties[key] = { type: derivedType };
-			});
-		}
+		block.fields.forEach((field, key) => {
+			properties[key] = this.buildFieldSchema(field, options);
+		});
 
 		blocksOneOf.push({
 			type: "object",
 			properties: {
-				name: { type: "string", enum: [blockName] },
+				name: { type: "string", enum: [block.name] },
 				"@entity": { type: "string", enum: ["list"] },
 				items: {
 					type: "array",
@@ -199,7 +429,7 @@ export class JsonToSchemaGeneratorUtil {
 		}
 
 		if (typeof value === "number") {
-			return "number";
+			return Number.isInteger(value) ? "integer" : "number";
 		}
 
 		if (Array.isArray(value)) {
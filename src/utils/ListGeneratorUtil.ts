@@ -1,12 +1,12 @@
 import path from "path";
 import { JsonSchema } from "../beans";
-import { FileUtil } from "./FileUtil";
 import { GeneratorUtil } from "./GeneratorUtil";
+import { ValidationGeneratorUtil } from "./ValidationGeneratorUtil";
 
 export class ListGeneratorUtil {
-	public static generate(blockSchema: JsonSchema, blockName: string, listsDir: string, classNames: { list: string[] }, isCommon: boolean) {
+	public static generate(blockSchema: JsonSchema, blockName: string, listsDir: string, classNames: { list: string[] }, isCommon: boolean, files: Map<string, string>) {
 		const listDirectoryName = GeneratorUtil.toKebabCase(blockName);
-		const listDirectory = isCommon ? path.join(listsDir, "common", listDirectoryName) : path.join(listsDir, listDirectoryName);
+		const listDirectory = isCommon ? path.posix.join(listsDir, "common", listDirectoryName) : path.posix.join(listsDir, listDirectoryName);
 
 		const className = GeneratorUtil.sanitizeName(GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(blockName)), "List");
 
@@ -17,13 +17,16 @@ export class ListGeneratorUtil {
 		const properties = blockSchema.properties?.items?.items?.properties;
 		if (!properties) return;
 
+		// Interfaces for nested object properties
+		const declarations: string[] = [];
+
 		// Generate getters and setters for each property
 		const gettersSetters = Object.entries(properties)
 			.map(([key, value]: [string, any]) => {
 				const camelKey = GeneratorUtil.toCamelCase(key);
 				const validVarName = /^[0-9]/.test(camelKey) ? `_${camelKey}` : camelKey;
 				const capitalizedKey = GeneratorUtil.capitalize(camelKey);
-				const type = GeneratorUtil.getTypeScriptType(value.type);
+				const type = GeneratorUtil.getNestedTypeScriptType(value, `${className}${capitalizedKey}`, declarations);
 				const nullable = type.includes("null");
 
 				return `
@@ -37,23 +40,51 @@ export class ListGeneratorUtil {
 			})
 			.join("\n");
 
+		const nestedTypes = declarations.length > 0 ? `${declarations.join("\n\n")}\n\n` : "";
+
 		let orgQuickoImports: string | undefined;
-		if (gettersSetters.includes("JSONObject")) {
+		if (gettersSetters.includes("JSONObject") || nestedTypes.includes("JSONObject")) {
 			orgQuickoImports = `import { JSONObject`;
 		}
-		if (gettersSetters.includes("JSONArray")) {
+		if (gettersSetters.includes("JSONArray") || nestedTypes.includes("JSONArray")) {
 			orgQuickoImports = orgQuickoImports ? `${orgQuickoImports}, JSONArray` : `import { JSONArray`;
 		}
 		if (orgQuickoImports) {
 			orgQuickoImports += ` } from "@org-quicko/core";\n`;
 		}
 
-		const listClass = `${GeneratorUtil.AUTO_GEN_COMMENT}import { Item, List } from '@org-quicko/sheet';\n${orgQuickoImports || ""}
-@Reflect.metadata('name', '${blockName}')
-export class ${className} extends List {${gettersSetters}
+		const constraints = Object.entries(properties).map(([key, value]: [string, any]) => `'${key}': ${ValidationGeneratorUtil.getConstraints(value)}`);
+
+		const listClass = `${GeneratorUtil.AUTO_GEN_COMMENT}import { Item, List } from '@org-quicko/sheet';
+import { ValidateBy } from 'class-validator';\n${orgQuickoImports || ""}import { Constraints, validateItems, Violation } from '${ValidationGeneratorUtil.getImportPath(isCommon)}';
+
+${nestedTypes}@Reflect.metadata('name', '${blockName}')
+export class ${className} extends List {
+                private static constraints: Record<string, Constraints> = {
+                    ${constraints.join(",\n\t\t\t\t\t")}
+                };
+${gettersSetters}
+
+                /**
+                 * Validates every item of the list against the constraints of its key.
+                 */
+                validate(): Array<Violation> {
+                    return validateItems(this.getItems(), ${className}.constraints);
+                }
+
+                @ValidateBy({
+                    name: 'validItems',
+                    validator: {
+                        validate: (violations: Array<Violation>) => violations.length === 0,
+                        defaultMessage: (args) => \`${blockName} has \${(args?.value as Array<Violation>).length} invalid item(s)\`,
+                    },
+                })
+                get violations(): Array<Violation> {
+                    return this.validate();
+                }
 }
 `.trim();
 
-		FileUtil.write(path.join(listDirectory, `${className}.ts`), listClass);
+		files.set(path.posix.join(listDirectory, `${className}.ts`), listClass);
 	}
 }
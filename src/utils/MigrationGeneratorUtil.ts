@@ -0,0 +1,262 @@
+import { JsonSchema, SchemaChange, SchemaRenames } from "../beans";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { SchemaDiffUtil } from "./SchemaDiffUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+
+/**
+ * A block kept in the new version, with its previous and new names and schemas
+ */
+interface MigratedBlock {
+	previousName: string;
+	name: string;
+	entity: string;
+	before: JsonSchema;
+	after: JsonSchema;
+}
+
+/**
+ * Utility class that generates a TypeScript module upgrading workbook JSON instances of a previous version of a schema to the new version.
+ *
+ * Table rows are remapped by header name: removed columns are dropped, and added columns are filled with their "default", or null.
+ * List items, which hold a single key, are remapped by key: the items of removed keys are dropped,
+ * and an item is added for each added key with a "default", or null if it is required.
+ * Sheets and blocks are renamed according to a rename map, and removed ones are dropped.
+ */
+export class MigrationGeneratorUtil {
+	/**
+	 * Generates the migration module between two versions of a workbook schema.
+	 * @param before The previous version of the workbook JSON Schema
+	 * @param after The new version of the workbook JSON Schema
+	 * @param renames The new names of the sheets and blocks renamed since the previous version
+	 * @returns The content of the module, exporting a `migrate(workbook)` function
+	 */
+	public static generate(before: JsonSchema, after: JsonSchema, renames: SchemaRenames = {}): string {
+		// Values whose type changed in a breaking way are copied as is, with a cast. Inserted columns are remapped by name.
+		const changes = SchemaDiffUtil.diff(before, after, renames).filter((change) => change.severity === "breaking" && change.column !== undefined && !["constraint-narrowed", "column-inserted"].includes(change.kind));
+
+		const declarations: string[] = [];
+		const functions: string[] = [];
+		const sheetCases: string[] = [];
+
+		const beforeSheets = SchemaDiffUtil.getSheetSchemas(before);
+		const afterSheets = SchemaDiffUtil.getSheetSchemas(after);
+		beforeSheets.forEach((beforeSheet, previousSheetName) => {
+			const sheetName = renames.sheets?.[previousSheetName] ?? previousSheetName;
+			const afterSheet = afterSheets.get(sheetName);
+			if (!afterSheet) {
+				return;
+			}
+
+			const afterBlocks = SchemaDiffUtil.getBlockSchemas(afterSheet, after);
+			const blocks: MigratedBlock[] = [];
+			SchemaDiffUtil.getBlockSchemas(beforeSheet, before).forEach((beforeBlock, previousBlockName) => {
+				const blockName = renames.blocks?.[previousBlockName] ?? previousBlockName;
+				const afterBlock = afterBlocks.get(blockName);
+				const entity = GeneratorUtil.getFirstEnum(beforeBlock, "@entity");
+				if (afterBlock && GeneratorUtil.getFirstEnum(afterBlock, "@entity") === entity) {
+					blocks.push({ previousName: previousBlockName, name: blockName, entity, before: beforeBlock, after: afterBlock });
+				}
+			});
+
+			const sheetFunctionName = `migrate${this.toTypeName(sheetName)}Block`;
+			const blockCases = blocks.map((block) => {
+				const typeName = `${this.toTypeName(sheetName)}${this.toTypeName(block.name)}`;
+				const blockChanges = changes.filter((change) => change.sheet === sheetName && change.block === block.name);
+				const migratedBlock =
+					block.entity === "table"
+						? this.generateTable(block, typeName, before, after, blockChanges, declarations, functions)
+						: this.generateList(block, typeName, before, after, blockChanges, declarations, functions);
+				return `        case ${GeneratorUtil.toLiteralType(block.previousName)}:\n            return [${migratedBlock}];`;
+			});
+
+			functions.push(`function ${sheetFunctionName}(block: BlockJson): Array<BlockJson> {
+    switch (block.name) {
+${blockCases.join("\n")}
+        default:
+            return [];
+    }
+}`);
+			sheetCases.push(`        case ${GeneratorUtil.toLiteralType(previousSheetName)}:
+            return [{ ...sheet, name: ${GeneratorUtil.toLiteralType(sheetName)}, blocks: sheet.blocks.flatMap((block) => ${sheetFunctionName}(block)) }];`);
+		});
+
+		const workbookName = GeneratorUtil.getFirstEnum(after, "name");
+		const coreTypes = ["JSONArray", "JSONObject"].filter((type) => declarations.some((declaration) => new RegExp(`\\b${type}\\b`).test(declaration)));
+
+		return `${GeneratorUtil.AUTO_GEN_COMMENT}${coreTypes.length > 0 ? `import { ${coreTypes.join(", ")} } from '@org-quicko/core';\n\n` : ""}export interface WorkbookJson {
+    name: string;
+    '@entity': string;
+    sheets: Array<SheetJson>;
+}
+
+export interface SheetJson {
+    name: string;
+    '@entity': string;
+    blocks: Array<BlockJson>;
+}
+
+export interface BlockJson {
+    name: string;
+    '@entity': string;
+    header?: Array<string>;
+    rows?: Array<Array<unknown>>;
+    items?: Array<object>;
+}
+
+${declarations.join("\n\n")}${declarations.length > 0 ? "\n\n" : ""}/**
+ * Upgrades a \`${workbookName}\` workbook JSON instance of the previous schema to the current schema.
+ * Sheets and blocks removed from the schema are dropped.
+ */
+export function migrate(workbook: WorkbookJson): WorkbookJson {
+    return { ...workbook, name: ${GeneratorUtil.toLiteralType(workbookName)}, sheets: workbook.sheets.flatMap((sheet) => migrateSheet(sheet)) };
+}
+
+function migrateSheet(sheet: SheetJson): Array<SheetJson> {
+    switch (sheet.name) {
+${sheetCases.join("\n")}
+        default:
+            return [];
+    }
+}
+${functions.map((fn) => `\n${fn}\n`).join("")}`;
+	}
+
+	/**
+	 * Generates the row types and row function of a table, returning the expression of the migrated block.
+	 */
+	private static generateTable(block: MigratedBlock, typeName: string, before: JsonSchema, after: JsonSchema, changes: SchemaChange[], declarations: string[], functions: string[]): string {
+		const beforeColumns = Array.from(SchemaDiffUtil.getColumnSchemas(block.before, before).entries());
+		const afterColumns = Array.from(SchemaDiffUtil.getColumnSchemas(block.after, after).entries());
+		const previousRowType = `Previous${typeName}Row`;
+		const rowType = `${typeName}Row`;
+
+		const toTupleType = (columns: Array<[string, JsonSchema]>, tupleName: string, rootSchema: JsonSchema) =>
+			`[${columns.map(([column, columnSchema]) => this.getType(columnSchema, `${tupleName}${this.toTypeName(column)}`, rootSchema, declarations)).join(", ")}]`;
+		declarations.push(`export type ${previousRowType} = ${toTupleType(beforeColumns, previousRowType, before)};`);
+		declarations.push(`export type ${rowType} = ${toTupleType(afterColumns, rowType, after)};`);
+
+		const cells = afterColumns.map(([column, columnSchema], index) => {
+			const previousIndex = beforeColumns.findIndex(([previousColumn]) => previousColumn === column);
+			const value = previousIndex >= 0 ? `row[${previousIndex}]` : this.getDefault(columnSchema, after);
+			return `        ${this.cast(value, this.isChanged(column, changes) || !this.accepts(columnSchema, after, value), `${rowType}[${index}]`)},`;
+		});
+
+		const rowFunctionName = `migrate${rowType}`;
+		functions.push(`/**
+ * Remaps a row of table \`${block.previousName}\` by header name.
+ */
+export function ${rowFunctionName}(row: ${previousRowType}): ${rowType} {
+    return [
+${cells.join("\n")}
+    ];
+}`);
+
+		const header = afterColumns.map(([column]) => GeneratorUtil.toLiteralType(column)).join(", ");
+		return `{ ...block, name: ${GeneratorUtil.toLiteralType(block.name)}, header: [${header}], rows: (block.rows ?? []).map((row) => ${rowFunctionName}(row as ${previousRowType})) }`;
+	}
+
+	/**
+	 * Generates the item interfaces and items function of a list, returning the expression of the migrated block.
+	 */
+	private static generateList(block: MigratedBlock, typeName: string, before: JsonSchema, after: JsonSchema, changes: SchemaChange[], declarations: string[], functions: string[]): string {
+		const beforeItem: Record<string, any> = SchemaDiffUtil.getListItemSchema(block.before, before) ?? {};
+		const afterItem: Record<string, any> = SchemaDiffUtil.getListItemSchema(block.after, after) ?? {};
+		const previousItemType = `Previous${typeName}Item`;
+		const itemType = `${typeName}Item`;
+
+		this.getType({ ...beforeItem, type: "object", properties: beforeItem.properties ?? {} }, previousItemType, before, declarations);
+		this.getType({ ...afterItem, type: "object", properties: afterItem.properties ?? {} }, itemType, after, declarations);
+
+		// Items hold a single key: the items of removed keys are dropped, and kept ones are copied, or cast if their type changed
+		const beforeKeys = Object.keys(beforeItem.properties ?? {});
+		const afterKeys = Object.entries((afterItem.properties ?? {}) as Record<string, JsonSchema>);
+		const cases = afterKeys
+			.filter(([key]) => beforeKeys.includes(key))
+			.map(([key]) => {
+				const value = this.cast(`item${this.toAccessor(key)}`, this.isChanged(key, changes), `${itemType}[${GeneratorUtil.toLiteralType(key)}]`);
+				return `                case ${GeneratorUtil.toLiteralType(key)}:\n                    return [{ ${GeneratorUtil.toPropertyName(key)}: ${value} }];`;
+			});
+
+		// Added keys get an item with their default, or null if they are required
+		const addedItems = afterKeys
+			.filter(([key]) => !beforeKeys.includes(key))
+			.flatMap(([key, keySchema]) => {
+				const required = afterItem.required?.includes(key) ?? false;
+				const resolved = SchemaRefResolverUtil.resolveIfRef(keySchema, after) as Record<string, any> | null;
+				if (resolved?.default === undefined && !required) {
+					return [];
+				}
+				const value = this.getDefault(keySchema, after);
+				if (!this.accepts(keySchema, after, value)) {
+					return [`        // ${GeneratorUtil.toLiteralType(key)} is required, but has no default: add its item`];
+				}
+				return [`        { ${GeneratorUtil.toPropertyName(key)}: ${value} },`];
+			});
+
+		const itemsFunctionName = `migrate${itemType}s`;
+		functions.push(`/**
+ * Remaps the items of list \`${block.previousName}\` by key: items of removed keys are dropped, and an item is added for each added key.
+ */
+export function ${itemsFunctionName}(items: Array<Partial<${previousItemType}>>): Array<Partial<${itemType}>> {
+    return [
+        ...items.flatMap((item): Array<Partial<${itemType}>> => {
+            switch (Object.keys(item)[0]) {
+${cases.map((itemCase) => `${itemCase}\n`).join("")}                default:
+                    return [];
+            }
+        }),
+${addedItems.map((addedItem) => `${addedItem}\n`).join("")}    ];
+}`);
+
+		return `{ ...block, name: ${GeneratorUtil.toLiteralType(block.name)}, items: ${itemsFunctionName}((block.items ?? []) as Array<Partial<${previousItemType}>>) }`;
+	}
+
+	/**
+	 * Gets the TypeScript type of a field, adding the declarations of its enums and nested objects.
+	 */
+	private static getType(fieldSchema: JsonSchema | null, typeName: string, rootSchema: JsonSchema, declarations: string[]): string {
+		const resolved = SchemaRefResolverUtil.resolveIfRef(fieldSchema, rootSchema);
+		return resolved ? GeneratorUtil.getNestedTypeScriptType(resolved, typeName, declarations) : "unknown";
+	}
+
+	/**
+	 * Gets the expression of the default value of an added field, or null.
+	 */
+	private static getDefault(fieldSchema: JsonSchema | null, rootSchema: JsonSchema): string {
+		const value = (SchemaRefResolverUtil.resolveIfRef(fieldSchema, rootSchema) as Record<string, any> | null)?.default;
+		if (value === undefined || value === null) {
+			return "null";
+		}
+		return typeof value === "object" ? JSON.stringify(value) : GeneratorUtil.toLiteralType(value);
+	}
+
+	/**
+	 * Whether a field accepts the default value of an added field: null must be allowed by its type.
+	 */
+	private static accepts(fieldSchema: JsonSchema | null, rootSchema: JsonSchema, value: string): boolean {
+		const type = SchemaRefResolverUtil.resolveIfRef(fieldSchema, rootSchema)?.type;
+		return value !== "null" || type === "null" || (Array.isArray(type) && type.includes("null"));
+	}
+
+	/**
+	 * Whether the type of a column or key, or of a field nested in it, changed in a breaking way.
+	 */
+	private static isChanged(column: string, changes: SchemaChange[]): boolean {
+		return changes.some((change) => change.column === column || change.column!.startsWith(`${column}.`) || change.column!.startsWith(`${column}[`));
+	}
+
+	/**
+	 * Casts a value to a type, when the value may not be of that type.
+	 */
+	private static cast(value: string, needed: boolean, type: string): string {
+		return needed ? `${value} as unknown as ${type}` : value;
+	}
+
+	private static toTypeName(name: string): string {
+		return GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(name));
+	}
+
+	private static toAccessor(key: string): string {
+		return /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${GeneratorUtil.toLiteralType(key)}]`;
+	}
+}
@@ -1,45 +1,37 @@
 import path from 'path';
-import { FileUtil } from './FileUtil';
 import { GeneratorUtil } from './GeneratorUtil';
 
 export class MixinGeneratorUtil {
-    public static generate(mixinsDir: string, classNames: { workbook: string[], sheet: string[], table: string[], list: string[], row: string[] }, commonBlocks: Set<string>): void {
+    /**
+     * @param sheetDirectories The directories of the sheet classes under "sheets/", by class name
+     * @param blockDirectories The directories of the table, row and list classes under the output directory, e.g. "tables/common/address-table", by class name
+     */
+    public static generate(mixinsDir: string, classNames: { workbook: string[], sheet: string[], table: string[], list: string[], row: string[] }, files: Map<string, string>, sheetDirectories: Map<string, string> = new Map(), blockDirectories: Map<string, string> = new Map()): void {
+        const getBlockDirectory = (className: string) => {
+            const directory = blockDirectories.get(className);
+            if (directory === undefined) {
+                throw new Error(`Directory of the generated class "${className}" not found.`);
+            }
+            return directory;
+        };
+
         // Generate each mixin file
-        this.generateMixin(classNames.workbook, 'workbook', 'WorkbookMixin.ts', mixinsDir);
-        this.generateMixin(classNames.sheet, 'sheet', 'SheetMixin.ts', mixinsDir);
-        this.generateMixin(classNames.table, 'table', 'TableMixin.ts', mixinsDir, commonBlocks);
-        this.generateMixin(classNames.list, 'list', 'ListMixin.ts', mixinsDir, commonBlocks);
-        this.generateMixin(classNames.row, 'row', 'RowMixin.ts', mixinsDir, commonBlocks);
+        this.generateMixin(classNames.workbook, 'workbook', 'WorkbookMixin.ts', mixinsDir, files, () => 'workbook');
+        this.generateMixin(classNames.sheet, 'sheet', 'SheetMixin.ts', mixinsDir, files, className => `sheets/${sheetDirectories.get(className) ?? GeneratorUtil.toKebabCase(className)}`);
+        this.generateMixin(classNames.table, 'table', 'TableMixin.ts', mixinsDir, files, getBlockDirectory);
+        this.generateMixin(classNames.list, 'list', 'ListMixin.ts', mixinsDir, files, getBlockDirectory);
+        this.generateMixin(classNames.row, 'row', 'RowMixin.ts', mixinsDir, files, getBlockDirectory);
     }
 
-    private static generateMixin(names: string[], entityType: string, fileName: string, mixinsDir: string, commonBlocks?: Set<string>): void {
+    /**
+     * @param getDirectory Returns the directory of a class under the output directory
+     */
+    private static generateMixin(names: string[], entityType: string, fileName: string, mixinsDir: string, files: Map<string, string>, getDirectory: (className: string) => string): void {
         if (names.length === 0) return;
 
         const imports = new Set<string>();
         names.forEach(className => {
-            if(entityType === 'workbook'){
-                imports.add(`import { ${className} } from '../workbook/${className}';`);
-            }else if(entityType === 'sheet'){
-                imports.add(`import { ${className} } from '../sheets/${GeneratorUtil.toKebabCase(className)}/${className}';`);
-            }else if(entityType === 'table'){
-                if (commonBlocks?.has(className)) {
-                    imports.add(`import { ${className} } from '../tables/common/${GeneratorUtil.toKebabCase(className)}/${className}';`);
-                } else {
-                    imports.add(`import { ${className} } from '../tables/${GeneratorUtil.toKebabCase(className)}/${className}';`);
-                }
-            }else if(entityType === 'list'){
-                if (commonBlocks?.has(className)) {
-                    imports.add(`import { ${className} } from '../lists/common/${GeneratorUtil.toKebabCase(className)}/${className}';`);
-                } else {
-                    imports.add(`import { ${className} } from '../lists/${GeneratorUtil.toKebabCase(className)}/${className}';`);
-                }
-            }else if(entityType === 'row'){
-                 if(commonBlocks?.has(className.replace(/Row/, 'Table'))) {
-                    imports.add(`import { ${className} } from '../tables/common/${GeneratorUtil.toKebabCase(className).replace(/row/, 'table')}/${className}';`);
-                } else {
-                    imports.add(`import { ${className} } from '../tables/${GeneratorUtil.toKebabCase(className).replace(/row/, 'table')}/${className}';`);
-                }
-            }
+            imports.add(`import { ${className} } from '../${getDirectory(className)}/${className}';`);
         });
 
         const content = `${GeneratorUtil.AUTO_GEN_COMMENT}import 'reflect-metadata';
@@ -50,6 +42,6 @@ ${Array.from(imports).join('\n')}
 export abstract class ${GeneratorUtil.capitalize(entityType)}Mixin { }
 `;
 
-        FileUtil.write(path.join(mixinsDir, fileName), content);
+        files.set(path.posix.join(mixinsDir, fileName), content);
     }
-}
\ No newline at end of file
+}
@@ -1,12 +1,48 @@
 import fs from "fs";
 import path from "path";
 import { JsonSchema } from "../beans/JsonSchema";
+import { NameClash } from "../beans/NameClash";
+import { DiffUtil } from "./DiffUtil";
 import { FileUtil } from "./FileUtil";
 import { GeneratorUtil } from "./GeneratorUtil";
+import { InterfaceGeneratorUtil } from "./InterfaceGeneratorUtil";
 import { MixinGeneratorUtil } from "./MixinGeneratorUtil";
+import { PydanticGeneratorUtil } from "./PydanticGeneratorUtil";
 import { SheetGeneratorUtil } from "./SheetGeneratorUtil";
 import { WorkbookGeneratorUtil } from "./WorkbookGeneratorUtil";
 import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+import { ValidationGeneratorUtil } from "./ValidationGeneratorUtil";
+import { ZodGeneratorUtil } from "./ZodGeneratorUtil";
+
+/**
+ * The files generated from workbook JSON Schemas, and the name clashes which prevented the generation
+ */
+export interface ObjectGeneratorResult {
+	files: Map<string, string>; // contents by path relative to the output directory, e.g. "tables/salary-table/SalaryTable.ts"
+	clashes: NameClash[];
+}
+
+/**
+ * What is generated from the workbook JSON Schemas: classes extending the `@org-quicko/sheet` classes, Zod schemas,
+ * plain interfaces describing the workbook JSON, or Python pydantic models
+ */
+export type ObjectGeneratorTarget = "classes" | "zod" | "interfaces" | "pydantic";
+
+/**
+ * Options for writing the generated files to an output directory
+ */
+export interface ObjectGeneratorOptions {
+	clean?: boolean; // delete the files of a previous run that are no longer generated, and record the generated files in a manifest
+	target?: ObjectGeneratorTarget; // "classes" by default
+}
+
+/**
+ * The differences between an output directory and the files that would be generated into it
+ */
+export interface ObjectGeneratorCheckResult {
+	diffs: string[]; // unified diff of each file that would be written or deleted
+	clashes: NameClash[];
+}
 
 // --- Core Code-Generation Logic -----------------------------
 
@@ -15,14 +51,130 @@ import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
  * parse it to find all the Sheets and Blocks definitions.
  * Then generate TypeScript files for them, and also generate
  * "mixin" classes for each type.
+ *
+ * Several workbook schemas can be generated as a project, into one output tree:
+ * blocks with the same shape in several workbooks are generated once under "common/",
+ * and the mixins and index cover the classes of every workbook.
  */
 export class ObjectGeneratorUtil {
+	/**
+	 * The manifest of the generated files, written to the output directory when cleaning
+	 */
+	public static readonly MANIFEST_FILE_NAME = ".sheet-generator-manifest.json";
+
+	/**
+	 * Output folders whose files are exported by the index, by target. Pydantic models have no index.
+	 */
+	private static readonly INDEX_FOLDERS: Record<ObjectGeneratorTarget, string[]> = {
+		classes: ["workbook", "sheets", "tables", "lists", "mixins", "validation"],
+		zod: ["zod"],
+		interfaces: ["interfaces"],
+		pydantic: [],
+	};
+
+	/**
+	 * Output folders of the generated files other than those at the root of the output directory, by target
+	 */
+	private static readonly OUTPUT_FOLDERS: Record<ObjectGeneratorTarget, string[]> = { ...ObjectGeneratorUtil.INDEX_FOLDERS, pydantic: ["models"] };
+
+	/**
+	 * Keywords which do not change the shape of a schema, ignored when comparing schemas
+	 */
+	private static readonly ANNOTATION_KEYWORDS = ["title", "description", "$comment", "examples", "$id", "$anchor", "$schema", "definitions", "$defs"];
+
 	/**
 	 * Generate TypeScript classes and mixins from a JSON Schema.
 	 * @param schema - The JSON Schema to generate classes from.
 	 * @param outputDir - The directory to output the generated files to.
+	 * @throws If two blocks or sheets of the schema have the same name but different shapes
 	 */
 	public static generate(schema: JsonSchema, outputDir: string): void {
+		const clashes = this.generateProject([schema], outputDir);
+		if (clashes.length > 0) {
+			throw new Error(clashes.map((clash) => this.formatClash(clash)).join("\n"));
+		}
+	}
+
+	/**
+	 * Generate TypeScript classes from several workbook JSON Schemas into one output directory,
+	 * with one set of mixins and one index for all of them.
+	 * Nothing is generated if the same name is used for workbooks, sheets or blocks of different shapes.
+	 * @param schemas - The workbook JSON Schemas of the project.
+	 * @param outputDir - The directory to output the generated files to.
+	 * @param options - Whether to delete the files of a previous run that are no longer generated.
+	 * @returns The name clashes, empty if the classes were generated
+	 */
+	public static generateProject(schemas: JsonSchema[], outputDir: string, options: ObjectGeneratorOptions = {}): NameClash[] {
+		const { files, staleFiles, clashes } = this.getOutput(schemas, outputDir, options);
+		files.forEach((content, filePath) => FileUtil.write(path.join(outputDir, filePath), content));
+		staleFiles.forEach((filePath) => this.deleteFile(outputDir, filePath));
+		return clashes;
+	}
+
+	/**
+	 * Compares an output directory with the files that would be generated into it, without writing anything.
+	 * @param schemas - The workbook JSON Schemas of the project.
+	 * @param outputDir - The directory the files would be generated to.
+	 * @param options - Whether the files of a previous run that are no longer generated would be deleted.
+	 * @returns A unified diff for each file that would be written or deleted, and the name clashes
+	 */
+	public static checkProject(schemas: JsonSchema[], outputDir: string, options: ObjectGeneratorOptions = {}): ObjectGeneratorCheckResult {
+		const { files, staleFiles, clashes } = this.getOutput(schemas, outputDir, options);
+		const diffs: string[] = [];
+
+		files.forEach((content, filePath) => {
+			const absolutePath = path.join(outputDir, filePath);
+			const exists = fs.existsSync(absolutePath);
+			const diff = DiffUtil.unifiedDiff(exists ? fs.readFileSync(absolutePath, "utf-8") : "", content, exists ? `a/${filePath}` : "/dev/null", `b/${filePath}`);
+			if (diff || !exists) {
+				diffs.push(diff || `--- /dev/null\n+++ b/${filePath}\n`);
+			}
+		});
+		staleFiles.forEach((filePath) => {
+			diffs.push(DiffUtil.unifiedDiff(fs.readFileSync(path.join(outputDir, filePath), "utf-8"), "", `a/${filePath}`, "/dev/null") || `--- a/${filePath}\n+++ /dev/null\n`);
+		});
+
+		return { diffs, clashes };
+	}
+
+	/**
+	 * Generate TypeScript classes and mixins, Zod schemas, interfaces or pydantic models from one or several workbook JSON Schemas, without writing them to disk.
+	 * @param schemas - The workbook JSON Schema, or the workbook JSON Schemas of a project.
+	 * @param target - What is generated, classes by default.
+	 * @returns The generated files by path relative to the output directory, and the name clashes.
+	 * No file is generated if there are name clashes.
+	 */
+	public static generateToMemory(schemas: JsonSchema | JsonSchema[], target: ObjectGeneratorTarget = "classes"): ObjectGeneratorResult {
+		const workbookSchemas = Array.isArray(schemas) ? schemas : [schemas];
+		const files = new Map<string, string>();
+
+		const { clashes, sharedBlocks } = this.analyzeProject(workbookSchemas);
+		if (clashes.length > 0) {
+			return { files, clashes };
+		}
+
+		if (target === "zod") {
+			// One module of Zod schemas per workbook
+			const zodDir = "zod";
+			ZodGeneratorUtil.generate(workbookSchemas, zodDir, sharedBlocks, files);
+			this.generateIndexFile(files, this.INDEX_FOLDERS.zod);
+			return { files, clashes };
+		}
+
+		if (target === "interfaces") {
+			// One module of types per workbook, without runtime imports
+			const interfacesDir = "interfaces";
+			InterfaceGeneratorUtil.generate(workbookSchemas, interfacesDir, sharedBlocks, files);
+			this.generateIndexFile(files, this.INDEX_FOLDERS.interfaces);
+			return { files, clashes };
+		}
+
+		if (target === "pydantic") {
+			// A Python package with one module of models per workbook, re-exported by its "__init__.py"
+			PydanticGeneratorUtil.generate(workbookSchemas, "models", sharedBlocks, files);
+			return { files, clashes };
+		}
+
 		// Create class name tracking objects for this generation run
 		const classNames = {
 			workbook: [] as string[],
@@ -32,149 +184,237 @@ export class ObjectGeneratorUtil {
 			row: [] as string[],
 		};
 
-		// Create output folders if needed
-		const baseDir = outputDir;
-		const workbookDir = path.join(baseDir, "workbook");
-		const sheetsDir = path.join(baseDir, "sheets");
-		const tablesDir = path.join(baseDir, "tables");
-		const listsDir = path.join(baseDir, "lists");
-		const mixinsDir = path.join(baseDir, "mixins");
-
-		// Create all directories
-		[baseDir, workbookDir, sheetsDir, tablesDir, listsDir, mixinsDir].forEach((dir) => FileUtil.mkdir(dir));
-
-		// Read the "sheets" schema definition
-		const sheetsSchema = schema.properties?.sheets;
-		if (!sheetsSchema || sheetsSchema.type !== "array" || !sheetsSchema.items) {
-			throw new Error(`Invalid JSON Schema: "sheets" definition not found or malformed.`);
-		}
+		// Output folders, relative to the output directory
+		const workbookDir = "workbook";
+		const sheetsDir = "sheets";
+		const tablesDir = "tables";
+		const listsDir = "lists";
+		const mixinsDir = "mixins";
+		const validationDir = "validation";
+
+		// Common blocks already generated, so that each one is generated once for the whole project
+		const generatedBlocks = new Set<string>();
+		const sheetDirectories = new Map<string, string>();
+		const blockDirectories = new Map<string, string>();
+
+		workbookSchemas.forEach((schema) => {
+			const sheetSchemas = GeneratorUtil.getSheetSchemas(schema);
+
+			// Generate workbook class with all sheet types
+			WorkbookGeneratorUtil.generate(schema, sheetSchemas, workbookDir, classNames, files);
 
-		// Handle multiple sheet types if items is oneOf
-		const sheetSchemas = sheetsSchema.items.oneOf || [sheetsSchema.items];
-
-		// Generate workbook class with all sheet types
-		WorkbookGeneratorUtil.generate(schema, sheetSchemas, workbookDir, classNames);
-
-		// Generate sheet classes for each sheet type
-		sheetSchemas.forEach((sheetSchema) => SheetGeneratorUtil.generate(schema, sheetSchema, sheetsDir, tablesDir, listsDir, classNames));
-
-		    const commonBlocks = new Set<string>();
-
-		    sheetSchemas.forEach(sheet => {
-		        const sheetSchema = SchemaRefResolverUtil.resolveIfRef(sheet, schema)!;
-
-		        let blocksSchema = sheetSchema.properties?.blocks;
-		        blocksSchema = SchemaRefResolverUtil.resolveIfRef(blocksSchema, schema)!;
-		        if (!blocksSchema || blocksSchema.type !== 'array') {
-		            throw new Error(`Invalid JSON Schema: "blocks" definition not found or malformed.`);
-		        }
-
-		        let blockItems = blocksSchema.items;
-		        blockItems = SchemaRefResolverUtil.resolveIfRef(blockItems, schema)!;
-		        if (!blockItems) {
-		                    throw new Error(`Invalid JSON Schema: "blocks.items" not found.`);
-		                }
-
-		                let blockOneOf = blockItems?.oneOf;
-		                blockOneOf = SchemaRefResolverUtil.resolveIfRef(blockOneOf, schema)!;
-		                if (!Array.isArray(blockOneOf)) {
-		                    throw new Error(`Invalid JSON Schema: "blocks.items.oneOf" not found or not an array.`);
-		                }
-
-		        blockOneOf.forEach((block: JsonSchema) => {
-		          if (Boolean(block.$ref)) {
-		            const blockSchema = SchemaRefResolverUtil.resolveIfRef(block, schema)!;
-		        const blockNameEnum = GeneratorUtil.getFirstEnum(blockSchema, 'name');
-		        const blockEntityEnum = GeneratorUtil.getFirstEnum(blockSchema, '@entity');
-		        const blockClassName = GeneratorUtil.sanitizeName(
-		            GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(blockNameEnum)),
-		            blockEntityEnum === 'list' ? 'List' : 'Table'
-		        );
-		        commonBlocks.add(blockClassName);
-		      }
-		    });
-		  });
+			// Generate sheet classes for each sheet type
+			sheetSchemas.forEach((sheetSchema) => SheetGeneratorUtil.generate(schema, sheetSchema, sheetsDir, tablesDir, listsDir, classNames, files, generatedBlocks, sharedBlocks));
+
+			sheetSchemas.forEach((sheet) => {
+				const sheetSchema = SchemaRefResolverUtil.resolveIfRef(sheet, schema)!;
+				const sheetNameEnum = GeneratorUtil.getFirstEnum(sheetSchema, "name");
+				sheetDirectories.set(GeneratorUtil.sanitizeName(GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(sheetNameEnum)), "Sheet"), GeneratorUtil.toKebabCase(sheetNameEnum));
+
+				GeneratorUtil.getBlockSchemas(sheetSchema, schema).forEach((block) => {
+					const blockSchema = SchemaRefResolverUtil.resolveIfRef(block, schema)!;
+					const blockNameEnum = GeneratorUtil.getFirstEnum(blockSchema, "name");
+					const blockEntityEnum = GeneratorUtil.getFirstEnum(blockSchema, "@entity");
+					const isCommon = SheetGeneratorUtil.isCommonBlock(block, blockSchema, schema, sharedBlocks);
+					const blockDirectory = path.posix.join(blockEntityEnum === "list" ? listsDir : tablesDir, isCommon ? "common" : "", GeneratorUtil.toKebabCase(blockNameEnum));
+					const blockClassName = GeneratorUtil.sanitizeName(GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(blockNameEnum)), blockEntityEnum === "list" ? "List" : "Table");
+					blockDirectories.set(blockClassName, blockDirectory);
+					if (blockEntityEnum !== "list") {
+						blockDirectories.set(blockClassName.replace(/Table$/, "Row"), blockDirectory);
+					}
+				});
+			});
+		});
 
 		// Generate mixin classes (one per type)
-		MixinGeneratorUtil.generate(mixinsDir, classNames, commonBlocks);
+		MixinGeneratorUtil.generate(mixinsDir, classNames, files, sheetDirectories, blockDirectories);
+
+		// Generate validation helpers used by the row and list classes
+		ValidationGeneratorUtil.generate(validationDir, files);
 
 		// Generate index file
-		this.generateIndexFile(baseDir, [
-			{ folderPath: workbookDir, importPath: "./workbook" },
-			{ folderPath: sheetsDir, importPath: "./sheets" },
-			{ folderPath: tablesDir, importPath: "./tables" },
-			{ folderPath: listsDir, importPath: "./lists" },
-			{ folderPath: mixinsDir, importPath: "./mixins" },
-		]);
+		this.generateIndexFile(files, this.INDEX_FOLDERS.classes);
+
+		return { files, clashes };
 	}
 
 	/**
-	 * Generate an index file in the base directory that re-exports all generated classes
-	 * from the subdirectories (workbook, sheets, tables, lists, rows, mixins).
-	 */
-	private static generateIndexFile(baseDir: string, subfolders: { folderPath: string; importPath: string }[]): void {
-		try {
-			const exportsMap = new Map<string, string>();
-			const indexContent = [GeneratorUtil.AUTO_GEN_COMMENT];
-
-			for (const { folderPath, importPath } of subfolders) {
-				// Validate subfolder entries
-				if (typeof folderPath !== "string" || typeof importPath !== "string") {
-					throw new TypeError("Invalid subfolder entry: folderPath and importPath must be strings");
-				}
-
-				// Resolve and validate folder path
-				const resolvedFolderPath = path.resolve(folderPath);
-				if (!fs.existsSync(resolvedFolderPath)) {
-					// Skipping non-existent directory
-					continue;
-				}
-
-				try {
-					// Get all files with safety checks
-					const files = FileUtil.getAllFiles(resolvedFolderPath).filter((file) => {
-						const isValidExtension = file.endsWith(".ts");
-						const isIndexFile = file.includes("index.ts");
-						const isWithinAllowedPath = file.startsWith(resolvedFolderPath);
-
-						if (!isWithinAllowedPath) {
-							// Skipping file outside allowed directory
-							return false;
-						}
-
-						return isValidExtension && !isIndexFile;
-					});
-
-					// Process files and collect exports
-					for (const file of files) {
-						const relativePath = path.relative(resolvedFolderPath, file);
-						const normalizedPath = path.posix.normalize(relativePath).replace(/\\/g, "/").replace(/\.ts$/, "");
-
-						const fullImport = `${importPath}/${normalizedPath}`;
-						const exportStatement = `export * from '${fullImport}';`;
-
-						// Deduplicate exports
-						if (!exportsMap.has(fullImport)) {
-							exportsMap.set(fullImport, exportStatement);
-							indexContent.push(exportStatement);
-						}
-					}
-				} catch (error) {
-					throw new Error(`Failed to process directory ${resolvedFolderPath}: ${(error as Error).message}`);
-				}
+	 * Returns the files to write to an output directory and, when cleaning, the files of a previous run to delete.
+	 * The index also exports the files already in the output folders, such as those generated from other schemas,
+	 * except those being deleted. The manifest is one of the files to write when cleaning.
+	 */
+	private static getOutput(schemas: JsonSchema[], outputDir: string, options: ObjectGeneratorOptions): ObjectGeneratorResult & { staleFiles: string[] } {
+		const target = options.target ?? "classes";
+		const { files, clashes } = this.generateToMemory(schemas, target);
+		if (clashes.length > 0) {
+			return { files, clashes, staleFiles: [] };
+		}
+
+		const staleFiles = options.clean ? this.getPreviousFiles(outputDir, target).filter((filePath) => !files.has(filePath)) : [];
+
+		if (files.has("index.ts")) {
+			const existingFiles = this.INDEX_FOLDERS[target]
+				.flatMap((folder) => FileUtil.getAllFiles(path.join(outputDir, folder)))
+				.map((file) => path.relative(outputDir, file).split(path.sep).join("/"))
+				.filter((filePath) => !staleFiles.includes(filePath));
+			this.generateIndexFile(files, this.INDEX_FOLDERS[target], existingFiles);
+		}
+
+		if (options.clean) {
+			files.set(this.MANIFEST_FILE_NAME, `${JSON.stringify({ files: Array.from(files.keys()).sort() }, null, 2)}\n`);
+		}
+		return { files, clashes, staleFiles };
+	}
+
+	/**
+	 * Returns the files generated into an output directory by a previous run, by path relative to it: the files of the manifest or,
+	 * if there is no manifest, the files starting with the auto-generated comment at the root and in the output folders of the target.
+	 * Subdirectories with a manifest of their own are other output directories, and are not scanned.
+	 * Files outside the output directory, and files which no longer exist, are left out.
+	 */
+	private static getPreviousFiles(outputDir: string, target: ObjectGeneratorTarget): string[] {
+		const manifestPath = path.join(outputDir, this.MANIFEST_FILE_NAME);
+		let previousFiles: string[];
+
+		if (fs.existsSync(manifestPath)) {
+			const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+			previousFiles = Array.isArray(manifest.files) ? manifest.files.filter((file: unknown) => typeof file === "string") : [];
+		} else {
+			const rootFiles = fs.existsSync(outputDir) ? fs.readdirSync(outputDir, { withFileTypes: true }).filter((entry) => entry.isFile()).map((entry) => path.join(outputDir, entry.name)) : [];
+			previousFiles = [...rootFiles, ...this.OUTPUT_FOLDERS[target].flatMap((folder) => this.getOwnFiles(path.join(outputDir, folder)))]
+				.filter((file) => (file.endsWith(".ts") && fs.readFileSync(file, "utf-8").startsWith(GeneratorUtil.AUTO_GEN_MARKER)) || (file.endsWith(".py") && fs.readFileSync(file, "utf-8").startsWith(PydanticGeneratorUtil.AUTO_GEN_MARKER)))
+				.map((file) => path.relative(outputDir, file).split(path.sep).join("/"));
+		}
+
+		return previousFiles.filter((filePath) => {
+			const absolutePath = path.resolve(outputDir, filePath);
+			return absolutePath.startsWith(path.resolve(outputDir) + path.sep) && fs.existsSync(absolutePath) && fs.lstatSync(absolutePath).isFile();
+		});
+	}
+
+	/**
+	 * Returns the files of a directory and of its subdirectories, except those of directories with a manifest.
+	 */
+	private static getOwnFiles(dirPath: string): string[] {
+		if (!fs.existsSync(dirPath) || fs.existsSync(path.join(dirPath, this.MANIFEST_FILE_NAME))) {
+			return [];
+		}
+		return fs.readdirSync(dirPath, { withFileTypes: true }).flatMap((entry) => {
+			const fullPath = path.join(dirPath, entry.name);
+			return entry.isDirectory() ? this.getOwnFiles(fullPath) : entry.isFile() ? [fullPath] : [];
+		});
+	}
+
+	/**
+	 * Deletes a file of the output directory, and the directories left empty up to the output directory.
+	 */
+	private static deleteFile(outputDir: string, filePath: string): void {
+		const root = path.resolve(outputDir);
+		fs.unlinkSync(path.join(root, filePath));
+
+		let directory = path.dirname(path.join(root, filePath));
+		while (directory !== root && directory.startsWith(root + path.sep) && fs.readdirSync(directory).length === 0) {
+			fs.rmdirSync(directory);
+			directory = path.dirname(directory);
+		}
+	}
+
+	/**
+	 * Formats a name clash as a message, e.g. "table `address_table` has 2 different shapes: in tax, payroll | in invoice".
+	 */
+	public static formatClash(clash: NameClash): string {
+		return `${clash.entity} \`${clash.name}\` has ${clash.workbooks.length} different shapes: ${clash.workbooks.map((workbooks) => `in ${workbooks.join(", ")}`).join(" | ")}`;
+	}
+
+	/**
+	 * Compares the workbooks, sheets and blocks of a project by name.
+	 * Returns the names used for different shapes, and the names of the blocks used with the same shape by several workbooks.
+	 */
+	private static analyzeProject(schemas: JsonSchema[]): { clashes: NameClash[]; sharedBlocks: Set<string> } {
+		// Workbooks using each shape, by entity and name
+		const shapes = new Map<string, { entity: string; name: string; workbooks: Map<string, Set<string>> }>();
+
+		const record = (entity: string, name: string, node: JsonSchema, rootSchema: JsonSchema, workbookName: string) => {
+			const key = `${entity}:${GeneratorUtil.toKebabCase(name)}`;
+			const entry = shapes.get(key) ?? { entity, name, workbooks: new Map<string, Set<string>>() };
+			const shape = this.getShape(node, rootSchema);
+			entry.workbooks.set(shape, (entry.workbooks.get(shape) ?? new Set<string>()).add(workbookName));
+			shapes.set(key, entry);
+		};
+
+		schemas.forEach((schema) => {
+			const workbookName = GeneratorUtil.getFirstEnum(schema, "name");
+			record("workbook", workbookName, schema, schema, workbookName);
+
+			GeneratorUtil.getSheetSchemas(schema).forEach((sheet) => {
+				const sheetSchema = SchemaRefResolverUtil.resolveIfRef(sheet, schema)!;
+				record("sheet", GeneratorUtil.getFirstEnum(sheetSchema, "name"), sheetSchema, schema, workbookName);
+
+				GeneratorUtil.getBlockSchemas(sheetSchema, schema).forEach((block) => {
+					const blockSchema = SchemaRefResolverUtil.resolveIfRef(block, schema)!;
+					record(GeneratorUtil.getFirstEnum(blockSchema, "@entity"), GeneratorUtil.getFirstEnum(blockSchema, "name"), blockSchema, schema, workbookName);
+				});
+			});
+		});
+
+		const clashes: NameClash[] = [];
+		const sharedBlocks = new Set<string>();
+		shapes.forEach(({ entity, name, workbooks }) => {
+			if (workbooks.size > 1) {
+				clashes.push({ entity, name, workbooks: Array.from(workbooks.values()).map((names) => Array.from(names)) });
+			} else if (entity !== "workbook" && entity !== "sheet" && Array.from(workbooks.values())[0].size > 1) {
+				sharedBlocks.add(name);
 			}
+		});
 
-			// Sort exports alphabetically for consistency
-			indexContent.sort((a, b) => a.localeCompare(b));
+		return { clashes, sharedBlocks };
+	}
 
-			// Add newline at end of file
-			indexContent.push("");
+	/**
+	 * Returns a canonical text of a schema, with refs expanded, keys sorted and annotations left out,
+	 * so that schemas of the same shape give the same text.
+	 */
+	private static getShape(node: unknown, rootSchema: JsonSchema, ancestors: object[] = []): string {
+		if (!node || typeof node !== "object") {
+			return JSON.stringify(node ?? null);
+		}
+
+		const resolved: Record<string, any> = Array.isArray(node) ? node : SchemaRefResolverUtil.resolveIfRef(node, rootSchema)!;
+		if (ancestors.includes(resolved)) {
+			// Recursive schema
+			return `"<recursive>"`;
+		}
 
-			// Write index file with improved FileUtil.write
-			const indexPath = path.join(baseDir, "index.ts");
-			FileUtil.write(indexPath, indexContent.join("\n"));
-		} catch (error) {
-			throw new Error(`Index generation failed: ${(error as Error).message}`);
+		const nested = [...ancestors, resolved];
+		if (Array.isArray(resolved)) {
+			return `[${resolved.map((item) => this.getShape(item, rootSchema, nested)).join(",")}]`;
 		}
+
+		const entries = Object.keys(resolved)
+			.filter((key) => !this.ANNOTATION_KEYWORDS.includes(key))
+			.sort()
+			.map((key) => `${JSON.stringify(key)}:${this.getShape(resolved[key], rootSchema, nested)}`);
+		return `{${entries.join(",")}}`;
+	}
+
+	/**
+	 * Generate an index file in the base directory that re-exports all generated classes
+	 * from the subdirectories (workbook, sheets, tables, lists, mixins, validation).
+	 * @param existingFiles - Files already in the output directory to export as well, by path relative to it.
+	 */
+	private static generateIndexFile(files: Map<string, string>, subfolders: string[], existingFiles: string[] = []): void {
+		const indexContent = [GeneratorUtil.AUTO_GEN_COMMENT];
+
+		Array.from(new Set([...files.keys(), ...existingFiles]))
+			.filter((file) => file.endsWith(".ts") && !file.endsWith("index.ts") && subfolders.some((folder) => file.startsWith(`${folder}/`)))
+			.forEach((file) => indexContent.push(`export * from './${file.replace(/\.ts$/, "")}';`));
+
+		// Sort exports alphabetically for consistency
+		indexContent.sort((a, b) => a.localeCompare(b));
+
+		// Add newline at end of file
+		indexContent.push("");
+
+		files.set("index.ts", indexContent.join("\n"));
 	}
 }
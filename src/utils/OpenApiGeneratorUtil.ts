@@ -0,0 +1,260 @@
+import { JsonSchema } from "../beans";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+
+/**
+ * The components of the document being generated, and the schema nodes they are generated from
+ */
+interface Components {
+	rootSchema: JsonSchema;
+	schemas: Record<string, any>;
+	names: Map<object, string>; // component name of each schema node
+}
+
+/**
+ * Output formats of the OpenAPI document
+ */
+export type OpenApiFormat = "yaml" | "json";
+
+/**
+ * Utility class that exports a workbook JSON Schema as the component schemas of an OpenAPI 3.1 document.
+ *
+ * The workbook, its sheets and its blocks become components named like their classes (e.g. `TaxWorkbook`, `IncomeSheet`, `SalaryTable`),
+ * and the `oneOf` of sheets and blocks get a discriminator on "name". Other schemas reached through a "$ref", such as
+ * "definitions", become components too, and their refs point to `#/components/schemas/...`.
+ */
+export class OpenApiGeneratorUtil {
+	/**
+	 * Keywords left out of the components: the components replace "definitions", and refs are resolved
+	 */
+	private static readonly OMITTED_KEYWORDS = ["$schema", "$id", "$anchor", "definitions", "$defs"];
+
+	/**
+	 * Types of the Excel schemas which are not JSON Schema types, with the type and format they are exported as
+	 */
+	private static readonly TYPES: Record<string, [string, string]> = {
+		long: ["integer", "int64"],
+		epoch: ["integer", "int64"],
+	};
+
+	/**
+	 * Generates the OpenAPI document of a workbook schema.
+	 * @param schema - The workbook JSON Schema
+	 * @returns The OpenAPI 3.1 document, holding the component schemas
+	 */
+	public static generate(schema: JsonSchema): Record<string, any> {
+		const components: Components = { rootSchema: schema, schemas: {}, names: new Map() };
+		const workbookName = GeneratorUtil.getFirstEnum(schema, "name");
+
+		// Name the workbook, sheets and blocks first, in that order, so that refs to them use these names
+		this.register(schema, this.toComponentName(workbookName, "Workbook"), components);
+		const sheetsSchema = SchemaRefResolverUtil.resolveIfRef(schema.properties?.sheets, schema);
+		const sheetsItems = SchemaRefResolverUtil.resolveIfRef(sheetsSchema?.items, schema);
+		if (!sheetsItems) {
+			throw new Error(`Invalid JSON Schema: "sheets" definition not found or malformed.`);
+		}
+		const sheetSchemas = (sheetsItems.oneOf || [sheetsItems]).map((sheet) => SchemaRefResolverUtil.resolveIfRef(sheet, schema)!);
+		sheetSchemas.forEach((sheetSchema) => this.register(sheetSchema, this.toComponentName(GeneratorUtil.getFirstEnum(sheetSchema, "name"), "Sheet"), components));
+		sheetSchemas.forEach((sheetSchema) => {
+			const blocksSchema = SchemaRefResolverUtil.resolveIfRef(sheetSchema.properties?.blocks, schema);
+			const blockItems = SchemaRefResolverUtil.resolveIfRef(blocksSchema?.items, schema);
+			(blockItems?.oneOf ?? []).forEach((block: JsonSchema) => {
+				const blockSchema = SchemaRefResolverUtil.resolveIfRef(block, schema)!;
+				const entity = GeneratorUtil.getFirstEnum(blockSchema, "@entity");
+				this.register(blockSchema, this.toComponentName(GeneratorUtil.getFirstEnum(blockSchema, "name"), entity === "list" ? "List" : "Table"), components);
+			});
+		});
+
+		const named = Array.from(components.names.entries());
+		named.forEach(([, name]) => (components.schemas[name] = {}));
+		named.forEach(([node, name]) => (components.schemas[name] = this.convert(node, components, true)));
+
+		return {
+			openapi: "3.1.0",
+			info: {
+				title: `${workbookName} workbook`,
+				version: "1.0.0",
+			},
+			components: {
+				schemas: components.schemas,
+			},
+		};
+	}
+
+	/**
+	 * Writes an OpenAPI document as YAML or JSON.
+	 */
+	public static serialize(document: Record<string, any>, format: OpenApiFormat = "yaml"): string {
+		if (format === "json") {
+			return `${JSON.stringify(document, null, 2)}\n`;
+		}
+		return `${this.toYamlLines(document, "").join("\n")}\n`;
+	}
+
+	/**
+	 * Names the component of a schema node. Nodes of the same shape share a name, and other nodes get a numbered name.
+	 * @returns The name of the component
+	 */
+	private static register(node: object, baseName: string, components: Components): string {
+		const registered = components.names.get(node);
+		if (registered) {
+			return registered;
+		}
+
+		let name = baseName;
+		for (let index = 2; ; index++) {
+			const existing = Array.from(components.names.entries()).find(([, componentName]) => componentName === name)?.[0];
+			if (!existing) {
+				break;
+			}
+			if (JSON.stringify(existing) === JSON.stringify(node)) {
+				components.names.set(node, name);
+				return name;
+			}
+			name = `${baseName}${index}`;
+		}
+
+		components.names.set(node, name);
+		return name;
+	}
+
+	/**
+	 * Converts a schema node to an OpenAPI 3.1 schema: refs and named nodes become refs to components,
+	 * `oneOf`s of sheets or blocks get a discriminator, and draft-07 tuples become `prefixItems`.
+	 * @param isComponent - Whether the node is the root of its own component, rather than a ref to it
+	 */
+	private static convert(node: unknown, components: Components, isComponent: boolean = false): any {
+		if (!node || typeof node !== "object") {
+			return node;
+		}
+		if (Array.isArray(node)) {
+			return node.map((item) => this.convert(item, components));
+		}
+
+		const schemaNode = node as Record<string, any>;
+		const resolved = SchemaRefResolverUtil.resolveIfRef(schemaNode, components.rootSchema)! as Record<string, any>;
+		if (!isComponent) {
+			const name = components.names.get(resolved) ?? (schemaNode.$ref ? this.register(resolved, this.toRefName(schemaNode.$ref, resolved), components) : undefined);
+			if (name) {
+				if (!(name in components.schemas)) {
+					// Added before it is converted, so that refs to itself do not convert it again
+					components.schemas[name] = {};
+					components.schemas[name] = this.convert(resolved, components, true);
+				}
+				return { $ref: `#/components/schemas/${name}` };
+			}
+		}
+
+		const converted: Record<string, any> = {};
+		Object.entries(resolved).forEach(([key, value]) => {
+			if (this.OMITTED_KEYWORDS.includes(key)) {
+				return;
+			}
+			if (key === "properties" || key === "patternProperties") {
+				converted[key] = Object.fromEntries(Object.entries(value as Record<string, any>).map(([property, propertySchema]) => [property, this.convert(propertySchema, components)]));
+			} else if (key === "items" && Array.isArray(value)) {
+				// Tuples are "prefixItems" in JSON Schema 2020-12, and "additionalItems" became "items"
+				converted.prefixItems = this.convert(value, components);
+			} else if (key === "additionalItems") {
+				if (!Array.isArray(resolved.items)) {
+					return;
+				}
+				converted.items = this.convert(value, components);
+			} else if (key === "type") {
+				converted.type = Array.isArray(value) ? Array.from(new Set(value.map((type: string) => this.TYPES[type]?.[0] ?? type))) : (this.TYPES[value]?.[0] ?? value);
+				const format = (Array.isArray(value) ? value : [value]).map((type: string) => this.TYPES[type]?.[1]).find(Boolean);
+				if (format && resolved.format === undefined) {
+					converted.format = format;
+				}
+			} else if (key === "enum" || key === "const" || key === "default" || key === "examples") {
+				converted[key] = value;
+			} else {
+				converted[key] = this.convert(value, components);
+			}
+		});
+
+		// Sheets and blocks are told apart by their name
+		if (Array.isArray(converted.oneOf) && converted.oneOf.length > 0 && converted.oneOf.every((member: Record<string, any>) => typeof member.$ref === "string")) {
+			const mapping: Record<string, string> = {};
+			(resolved.oneOf as JsonSchema[]).forEach((member, index) => {
+				const memberSchema = SchemaRefResolverUtil.resolveIfRef(member, components.rootSchema)!;
+				const name = memberSchema.properties?.name?.enum?.[0];
+				if (name !== undefined) {
+					mapping[name] = converted.oneOf[index].$ref;
+				}
+			});
+			if (Object.keys(mapping).length === converted.oneOf.length) {
+				converted.discriminator = { propertyName: "name", mapping };
+			}
+		}
+
+		return converted;
+	}
+
+	/**
+	 * Names the component of a schema reached through a ref: like its class for a sheet or block,
+	 * or after the last segment of the ref, e.g. `Address` for "#/definitions/address".
+	 */
+	private static toRefName(ref: string, resolved: Record<string, any>): string {
+		const entity = resolved.properties?.["@entity"]?.enum?.[0];
+		const name = resolved.properties?.name?.enum?.[0];
+		if (typeof entity === "string" && typeof name === "string") {
+			return this.toComponentName(name, { workbook: "Workbook", sheet: "Sheet", list: "List" }[entity] ?? "Table");
+		}
+
+		const [file, fragment = ""] = ref.split("#");
+		const segment = fragment.split("/").filter(Boolean).pop() ?? file.split("/").pop()!.replace(/(\.schema)?\.json$/, "");
+		const readable = segment.replace(/~1/g, "_").replace(/~0/g, "_").replace(/[^\w]+/g, "_");
+		return GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(readable)) || "Schema";
+	}
+
+	private static toComponentName(name: string, suffix: string): string {
+		return GeneratorUtil.sanitizeName(GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(name)), suffix);
+	}
+
+	/**
+	 * Writes a non-empty object or array as YAML lines at the given indentation.
+	 */
+	private static toYamlLines(value: Record<string, any> | unknown[], indent: string): string[] {
+		const lines: string[] = [];
+		const isCollection = (item: unknown) => item !== null && typeof item === "object" && Object.keys(item).length > 0;
+
+		if (Array.isArray(value)) {
+			value.forEach((item) => {
+				if (isCollection(item)) {
+					const [first, ...rest] = this.toYamlLines(item as Record<string, any>, `${indent}  `);
+					lines.push(`${indent}- ${first.trimStart()}`, ...rest);
+				} else {
+					lines.push(`${indent}- ${this.toYamlScalar(item)}`);
+				}
+			});
+		} else {
+			Object.entries(value).forEach(([key, item]) => {
+				if (isCollection(item)) {
+					lines.push(`${indent}${this.toYamlScalar(key)}:`, ...this.toYamlLines(item, `${indent}  `));
+				} else {
+					lines.push(`${indent}${this.toYamlScalar(key)}: ${this.toYamlScalar(item)}`);
+				}
+			});
+		}
+
+		return lines;
+	}
+
+	/**
+	 * Writes a scalar, or an empty object or array, as YAML. Strings which could be read as another value are quoted.
+	 */
+	private static toYamlScalar(value: unknown): string {
+		if (Array.isArray(value)) {
+			return "[]";
+		}
+		if (value !== null && typeof value === "object") {
+			return "{}";
+		}
+		if (typeof value === "string") {
+			const isPlain = /^[A-Za-z_][\w./-]*$/.test(value) && !/^(true|false|null|yes|no|on|off|y|n)$/i.test(value);
+			return isPlain ? value : JSON.stringify(value);
+		}
+		return JSON.stringify(value ?? null);
+	}
+}
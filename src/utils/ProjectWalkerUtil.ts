@@ -0,0 +1,111 @@
+import { JsonSchema } from "../beans/JsonSchema";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { SchemaDiffUtil } from "./SchemaDiffUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+import { SheetGeneratorUtil } from "./SheetGeneratorUtil";
+
+/**
+ * The declarations of a generated module, by exported name, in dependency order
+ */
+export type Declarations = Map<string, string>;
+
+/**
+ * Declares the workbooks, sheets and blocks of a project in the language of a generator
+ */
+export interface ProjectDeclarer {
+	/**
+	 * Declares a table or list, unless already declared.
+	 * @returns The name of its declaration
+	 */
+	declareBlock(blockSchema: JsonSchema, rootSchema: JsonSchema, declarations: Declarations): string;
+
+	/**
+	 * Declares a sheet, whose blocks are already declared.
+	 * @returns The name of its declaration
+	 */
+	declareSheet(sheetSchema: JsonSchema, blockNames: string[], declarations: Declarations): string;
+
+	/**
+	 * Declares a workbook, whose sheets are already declared.
+	 */
+	declareWorkbook(schema: JsonSchema, sheetNames: string[], declarations: Declarations): void;
+}
+
+/**
+ * The module of a workbook
+ */
+export interface WorkbookModule {
+	workbookName: string;
+	declarations: Declarations;
+	/**
+	 * The names of the common module used by the workbook module
+	 */
+	imports: string[];
+}
+
+/**
+ * Utility class that walks the workbook schemas of a project for the generators writing one module per workbook,
+ * and a "common" module for the sheets and blocks used by several workbooks or reached through a "$ref".
+ */
+export class ProjectWalkerUtil {
+	/**
+	 * Declares the workbooks of a project, their sheets and their blocks, each common sheet and block only once.
+	 * @param schemas - The workbook JSON Schemas of the project
+	 * @param sharedBlocks - The names of the blocks used with the same shape by several workbooks
+	 * @param declarer - Declares the workbooks, sheets and blocks in the language of the generator
+	 * @returns The declarations of the common module, and the module of each workbook
+	 */
+	public static walk(schemas: JsonSchema[], sharedBlocks: Set<string>, declarer: ProjectDeclarer): { common: Declarations; modules: WorkbookModule[] } {
+		const common: Declarations = new Map();
+		const commonSheets = new Map<string, string>();
+
+		// Sheets used by several workbooks are common, like their blocks
+		const sheetWorkbooks = new Map<string, number>();
+		schemas.forEach((schema) => {
+			SchemaDiffUtil.getSheetSchemas(schema).forEach((_, sheetName) => sheetWorkbooks.set(sheetName, (sheetWorkbooks.get(sheetName) ?? 0) + 1));
+		});
+
+		const workbooks = schemas.map((schema) => {
+			const declarations: Declarations = new Map();
+
+			const sheetNames = Array.from(SchemaDiffUtil.getSheetSchemas(schema)).map(([sheetName, sheetSchema]) => {
+				const isCommon = (sheetWorkbooks.get(sheetName) ?? 0) > 1;
+				if (isCommon && commonSheets.has(sheetName)) {
+					return commonSheets.get(sheetName)!;
+				}
+
+				const sheetDeclarations = isCommon ? common : declarations;
+				const blockNodes = this.getBlockNodes(sheetSchema, schema);
+				const blockNames = Array.from(SchemaDiffUtil.getBlockSchemas(sheetSchema, schema).values()).map((blockSchema) => {
+					const isCommonBlock = isCommon || SheetGeneratorUtil.isCommonBlock(blockNodes.get(blockSchema) ?? blockSchema, blockSchema, schema, sharedBlocks);
+					return declarer.declareBlock(blockSchema, schema, isCommonBlock ? common : declarations);
+				});
+
+				const sheetDeclarationName = declarer.declareSheet(sheetSchema, blockNames, sheetDeclarations);
+				if (isCommon) {
+					commonSheets.set(sheetName, sheetDeclarationName);
+				}
+				return sheetDeclarationName;
+			});
+
+			declarer.declareWorkbook(schema, sheetNames, declarations);
+			return { workbookName: GeneratorUtil.getFirstEnum(schema, "name"), declarations };
+		});
+
+		const modules = workbooks.map(({ workbookName, declarations }) => {
+			const imports = Array.from(common.keys()).filter((name) => Array.from(declarations.values()).some((code) => new RegExp(`\\b${name}\\b`).test(code)));
+			return { workbookName, declarations, imports };
+		});
+
+		return { common, modules };
+	}
+
+	/**
+	 * Maps the (resolved) block schemas of a sheet to their entries in its "oneOf", which may be "$ref"s.
+	 */
+	private static getBlockNodes(sheetSchema: JsonSchema, rootSchema: JsonSchema): Map<JsonSchema, JsonSchema> {
+		const blocksSchema = SchemaRefResolverUtil.resolveIfRef(sheetSchema.properties?.blocks, rootSchema);
+		const blockItems = SchemaRefResolverUtil.resolveIfRef(blocksSchema?.items, rootSchema);
+		return new Map((blockItems?.oneOf ?? []).map((block: JsonSchema): [JsonSchema, JsonSchema] => [SchemaRefResolverUtil.resolveIfRef(block, rootSchema)!, block]));
+	}
+}
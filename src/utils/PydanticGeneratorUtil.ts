@@ -0,0 +1,359 @@
+import path from "path";
+import { JsonSchema } from "../beans/JsonSchema";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { Declarations, ProjectWalkerUtil } from "./ProjectWalkerUtil";
+import { SchemaDiffUtil } from "./SchemaDiffUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+
+/**
+ * Utility class that generates pydantic (v2) models from workbook JSON Schemas: one Python module per workbook,
+ * a "common" module for the sheets and blocks used by several workbooks or reached through a "$ref",
+ * and a "base" module with the base classes of the models.
+ *
+ * Table rows are models with a field per column, read from and dumped to the list of column values of the JSON.
+ * List items are models with a field per key. The blocks of a sheet, and the sheets of a workbook,
+ * are unions discriminated by "name", so that `TaxWorkbook.model_validate(data)` reads the workbook JSON.
+ */
+export class PydanticGeneratorUtil {
+	/**
+	 * Marker identifying generated Python modules, like {@link GeneratorUtil.AUTO_GEN_MARKER} for TypeScript files
+	 */
+	public static readonly AUTO_GEN_MARKER = GeneratorUtil.AUTO_GEN_MARKER.replace(/^\/\//, "#");
+
+	/**
+	 * Comment starting the generated modules
+	 */
+	public static readonly AUTO_GEN_COMMENT = `${PydanticGeneratorUtil.AUTO_GEN_MARKER}${GeneratorUtil.VERSION}\n\n`;
+
+	/**
+	 * Python types of the JSON types
+	 */
+	private static readonly TYPES: Record<string, string> = {
+		string: "str",
+		integer: "int",
+		long: "int",
+		epoch: "int",
+		number: "float",
+		boolean: "bool",
+		null: "None",
+	};
+
+	/**
+	 * Names which cannot be fields of a model: Python keywords, and attributes of `BaseModel`
+	 */
+	private static readonly RESERVED_NAMES = new Set([
+		"False", "None", "True", "and", "as", "assert", "async", "await", "break", "class", "continue", "def", "del", "elif", "else", "except", "finally", "for",
+		"from", "global", "if", "import", "in", "is", "lambda", "nonlocal", "not", "or", "pass", "raise", "return", "try", "while", "with", "yield",
+		"construct", "copy", "dict", "from_orm", "json", "parse_file", "parse_obj", "parse_raw", "schema", "schema_json", "update_forward_refs", "validate",
+	]);
+
+	private static readonly BASE_MODULE = `from typing import Any
+
+from pydantic import BaseModel, ConfigDict, SerializerFunctionWrapHandler, model_serializer, model_validator
+
+
+class WorkbookModel(BaseModel):
+    """
+    Base of the generated models. Keys which are not Python names, such as "@entity", are field aliases:
+    dump with \`by_alias=True\` to get the workbook JSON back.
+    """
+
+    model_config = ConfigDict(populate_by_name=True, regex_engine="python-re")
+
+
+class RowModel(WorkbookModel):
+    """
+    Base of the table row models, read from and dumped to the list of column values, in the order of the header.
+    """
+
+    @model_validator(mode="before")
+    @classmethod
+    def _from_values(cls, data: Any) -> Any:
+        if isinstance(data, (list, tuple)):
+            names = list(cls.model_fields)
+            if len(data) != len(names):
+                raise ValueError(f"expected {len(names)} values, got {len(data)}")
+            return dict(zip(names, data))
+        return data
+
+    @model_serializer(mode="wrap")
+    def _to_values(self, handler: SerializerFunctionWrapHandler) -> list[Any]:
+        return list(handler(self).values())
+`;
+
+	/**
+	 * Generates the pydantic modules of the workbook schemas of a project, and the package re-exporting their models.
+	 * @param schemas - The workbook JSON Schemas of the project
+	 * @param modelsDir - The directory of the package, relative to the output directory
+	 * @param sharedBlocks - The names of the blocks used with the same shape by several workbooks
+	 * @param files - The generated files, by path relative to the output directory
+	 */
+	public static generate(schemas: JsonSchema[], modelsDir: string, sharedBlocks: Set<string>, files: Map<string, string>): void {
+		const { common, modules } = ProjectWalkerUtil.walk(schemas, sharedBlocks, {
+			declareBlock: (blockSchema, rootSchema, declarations) => this.declareBlock(blockSchema, rootSchema, declarations),
+			declareSheet: (sheetSchema, blockNames, declarations) => this.declareSheet(sheetSchema, blockNames, declarations),
+			declareWorkbook: (schema, sheetNames, declarations) => this.declareWorkbook(schema, sheetNames, declarations),
+		});
+
+		files.set(path.posix.join(modelsDir, "base.py"), `${this.AUTO_GEN_COMMENT}${this.BASE_MODULE}`);
+		if (common.size > 0) {
+			files.set(path.posix.join(modelsDir, "common.py"), this.toModule(common, []));
+		}
+		modules.forEach(({ workbookName, declarations, imports }) => {
+			files.set(path.posix.join(modelsDir, `${this.toModuleName(workbookName)}.py`), this.toModule(declarations, imports));
+		});
+
+		// The package re-exports the models of every module
+		const exports: Array<[string, string[]]> = [
+			["base", ["RowModel", "WorkbookModel"]],
+			...(common.size > 0 ? [["common", Array.from(common.keys())] as [string, string[]]] : []),
+			...modules.map(({ workbookName, declarations }): [string, string[]] => [this.toModuleName(workbookName), Array.from(declarations.keys())]),
+		];
+		const importLines = exports.map(([moduleName, names]) => `from .${moduleName} import (\n${names.map((name) => `    ${name},`).join("\n")}\n)`);
+		const allNames = exports.flatMap(([, names]) => names).sort();
+		files.set(path.posix.join(modelsDir, "__init__.py"), `${this.AUTO_GEN_COMMENT}${importLines.join("\n")}\n\n__all__ = [\n${allNames.map((name) => `    "${name}",`).join("\n")}\n]\n`);
+	}
+
+	/**
+	 * Declares the model of a workbook, and the union of its sheets.
+	 */
+	private static declareWorkbook(schema: JsonSchema, sheetNames: string[], declarations: Declarations): void {
+		const workbookClassName = this.toClassName(GeneratorUtil.getFirstEnum(schema, "name"), "Workbook");
+		declarations.set(`${workbookClassName}Sheet`, `${workbookClassName}Sheet = ${this.toUnion(sheetNames)}`);
+		declarations.set(workbookClassName, this.toClass(workbookClassName, schema, ["sheets", `list[${workbookClassName}Sheet]`]));
+	}
+
+	/**
+	 * Declares the model of a sheet, and the union of its blocks.
+	 * @returns The name of the sheet model
+	 */
+	private static declareSheet(sheetSchema: JsonSchema, blockNames: string[], declarations: Declarations): string {
+		const sheetClassName = this.toClassName(GeneratorUtil.getFirstEnum(sheetSchema, "name"), "Sheet");
+		declarations.set(`${sheetClassName}Block`, `${sheetClassName}Block = ${this.toUnion(blockNames)}`);
+		declarations.set(sheetClassName, this.toClass(sheetClassName, sheetSchema, ["blocks", `list[${sheetClassName}Block]`]));
+		return sheetClassName;
+	}
+
+	/**
+	 * Declares the model of a table, with its row model, or of a list, with its item model.
+	 * @returns The name of the block model
+	 */
+	private static declareBlock(blockSchema: JsonSchema, rootSchema: JsonSchema, declarations: Declarations): string {
+		const blockName = GeneratorUtil.getFirstEnum(blockSchema, "name");
+		const entity = GeneratorUtil.getFirstEnum(blockSchema, "@entity");
+		const blockClassName = this.toClassName(blockName, entity === "list" ? "List" : "Table");
+		if (declarations.has(blockClassName)) {
+			return blockClassName;
+		}
+
+		if (entity === "list") {
+			const itemClassName = blockClassName.replace(/List$/, "Item");
+			const itemSchema = SchemaDiffUtil.getListItemSchema(blockSchema, rootSchema);
+			this.declareModel(itemClassName, { ...itemSchema, properties: itemSchema?.properties ?? {} }, rootSchema, declarations, []);
+			declarations.set(blockClassName, this.toClass(blockClassName, blockSchema, ["items", `list[${itemClassName}]`]));
+		} else {
+			const rowClassName = blockClassName.replace(/Table$/, "Row");
+			const columnSchemas = SchemaDiffUtil.getColumnSchemas(blockSchema, rootSchema);
+			const header = Array.from(columnSchemas.keys());
+
+			// Row values are positional, so the fields need no alias
+			const fieldNames: string[] = [];
+			const fields = Array.from(columnSchemas).map(([column, schema]) => {
+				const fieldName = this.toFieldName(column, fieldNames);
+				const columnSchema = SchemaRefResolverUtil.resolveIfRef(schema, rootSchema);
+				const type = this.toType(columnSchema, `${rowClassName}${this.toClassName(column)}`, rootSchema, declarations, []);
+				return `    ${fieldName}: ${type}${this.toFieldDefault({ description: columnSchema?.description })}`;
+			});
+
+			declarations.set(rowClassName, `class ${rowClassName}(RowModel):\n${fields.length > 0 ? fields.join("\n") : "    pass"}`);
+			declarations.set(blockClassName, this.toClass(blockClassName, blockSchema, ["header", `tuple[${header.map((column) => `Literal[${this.toLiteral(column)}]`).join(", ") || "()"}]`], ["rows", `list[${rowClassName}]`]));
+		}
+
+		return blockClassName;
+	}
+
+	/**
+	 * Declares the model of an object schema, with a field per property. Properties which are not required default to None.
+	 */
+	private static declareModel(className: string, schema: Record<string, any>, rootSchema: JsonSchema, declarations: Declarations, ancestors: object[]): void {
+		const required: string[] = schema.required ?? [];
+		const fieldNames: string[] = [];
+		const fields = Object.entries(schema.properties ?? {}).map(([key, value]) => {
+			const fieldName = this.toFieldName(key, fieldNames);
+			const keySchema = SchemaRefResolverUtil.resolveIfRef(value as JsonSchema, rootSchema);
+			const type = this.toType(keySchema, `${className}${this.toClassName(key)}`, rootSchema, declarations, [...ancestors, schema]);
+			const isOptional = !required.includes(key);
+			const fieldType = isOptional && !/^Optional\[|^Any$|^None$/.test(type) ? `Optional[${type}]` : type;
+			return `    ${fieldName}: ${fieldType}${this.toFieldDefault({ optional: isOptional, alias: fieldName === key ? undefined : key, description: keySchema?.description })}`;
+		});
+
+		const lines = [...(schema.additionalProperties === false ? [`    model_config = ConfigDict(extra="forbid")`, ""] : []), ...fields];
+		declarations.set(className, `class ${className}(WorkbookModel):\n${this.toDocstring(schema.description)}${lines.length > 0 ? lines.join("\n") : "    pass"}`);
+	}
+
+	/**
+	 * Converts a field schema to a Python type: a Literal for an "enum", a model for an object with "properties",
+	 * and an `Annotated` type with a `Field` for the constraints.
+	 * @param ancestors - The schemas being converted higher up, to stop at recursive schemas
+	 */
+	private static toType(schema: Record<string, any> | null, className: string, rootSchema: JsonSchema, declarations: Declarations, ancestors: object[]): string {
+		if (!schema || ancestors.includes(schema)) {
+			return "Any";
+		}
+
+		const types: string[] = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+		const nullable = types.includes("null") || (Array.isArray(schema.enum) && schema.enum.includes(null));
+		const valueTypes = types.filter((type) => type !== "null");
+
+		let type: string;
+		const enumValues = GeneratorUtil.getEnumValues(schema);
+		if (enumValues.length > 0) {
+			type = `Literal[${enumValues.map((value) => this.toLiteral(value)).join(", ")}]`;
+		} else if (valueTypes.length === 0) {
+			return nullable ? "None" : "Any";
+		} else {
+			const pythonTypes = valueTypes.map((valueType) => {
+				if (valueType === "object") {
+					if (!schema.properties) {
+						return "dict[str, Any]";
+					}
+					this.declareModel(className, schema, rootSchema, declarations, ancestors);
+					return className;
+				}
+				if (valueType === "array") {
+					const itemSchema = schema.items && !Array.isArray(schema.items) ? SchemaRefResolverUtil.resolveIfRef(schema.items, rootSchema) : null;
+					return `list[${this.toType(itemSchema, `${className}Item`, rootSchema, declarations, [...ancestors, schema])}]`;
+				}
+				return this.TYPES[valueType] ?? "Any";
+			});
+			type = pythonTypes.length > 1 ? `Union[${pythonTypes.join(", ")}]` : pythonTypes[0];
+
+			const constraints = this.toConstraints(schema, valueTypes);
+			if (constraints.length > 0) {
+				type = `Annotated[${type}, Field(${constraints.join(", ")})]`;
+			}
+		}
+
+		return nullable ? `Optional[${type}]` : type;
+	}
+
+	/**
+	 * Converts the constraints of a field schema to `Field` arguments, for the constraints of its type.
+	 */
+	private static toConstraints(schema: Record<string, any>, types: string[]): string[] {
+		const constraints: string[] = [];
+		const isNumeric = types.some((type) => ["integer", "number", "long", "epoch"].includes(type));
+		if (isNumeric && types.length === 1) {
+			const keywords: Array<[string, string]> = [["minimum", "ge"], ["exclusiveMinimum", "gt"], ["maximum", "le"], ["exclusiveMaximum", "lt"], ["multipleOf", "multiple_of"]];
+			keywords.filter(([keyword]) => typeof schema[keyword] === "number").forEach(([keyword, argument]) => constraints.push(`${argument}=${schema[keyword]}`));
+		}
+		if (types.length === 1 && types[0] === "string") {
+			if (typeof schema.minLength === "number") constraints.push(`min_length=${schema.minLength}`);
+			if (typeof schema.maxLength === "number") constraints.push(`max_length=${schema.maxLength}`);
+			if (typeof schema.pattern === "string") constraints.push(`pattern=${this.toLiteral(schema.pattern)}`);
+		}
+		if (types.length === 1 && types[0] === "array") {
+			if (typeof schema.minItems === "number") constraints.push(`min_length=${schema.minItems}`);
+			if (typeof schema.maxItems === "number") constraints.push(`max_length=${schema.maxItems}`);
+		}
+		return constraints;
+	}
+
+	/**
+	 * Declares the model of a workbook, sheet or block: its "name" and "@entity" literals, and the given fields.
+	 */
+	private static toClass(className: string, schema: JsonSchema, ...fields: Array<[string, string]>): string {
+		const lines = [
+			`    name: Literal[${this.toLiteral(GeneratorUtil.getFirstEnum(schema, "name"))}]`,
+			`    entity: Literal[${this.toLiteral(GeneratorUtil.getFirstEnum(schema, "@entity"))}] = Field(alias="@entity")`,
+			...fields.map(([name, type]) => `    ${name}: ${type}`),
+		];
+		return `class ${className}(WorkbookModel):\n${this.toDocstring(schema.description)}${lines.join("\n")}`;
+	}
+
+	/**
+	 * Converts the models of sheets or blocks to a union discriminated by "name".
+	 */
+	private static toUnion(classNames: string[]): string {
+		if (classNames.length === 0) {
+			return "Any";
+		}
+		if (classNames.length === 1) {
+			return classNames[0];
+		}
+		return `Annotated[Union[${classNames.join(", ")}], Field(discriminator="name")]`;
+	}
+
+	/**
+	 * Writes the default of a field: None for an optional key, and a `Field` for its alias and description.
+	 */
+	private static toFieldDefault({ optional = false, alias, description }: { optional?: boolean; alias?: string; description?: string }): string {
+		const args = [...(optional ? ["None"] : []), ...(alias !== undefined ? [`alias=${this.toLiteral(alias)}`] : []), ...(description ? [`description=${this.toLiteral(description)}`] : [])];
+		if (args.length === 0) {
+			return "";
+		}
+		return optional && args.length === 1 ? " = None" : ` = Field(${args.join(", ")})`;
+	}
+
+	/**
+	 * Writes a module of declarations, importing names of the common module.
+	 */
+	private static toModule(declarations: Declarations, imports: string[]): string {
+		const code = Array.from(declarations.values()).join("\n\n\n");
+		const typingNames = ["Annotated", "Any", "Literal", "Optional", "Union"].filter((name) => new RegExp(`\\b${name}\\[|\\b${name}\\b(?!\\[)`).test(code));
+		const pydanticNames = ["ConfigDict", "Field"].filter((name) => new RegExp(`\\b${name}\\(`).test(code));
+		const baseNames = ["RowModel", "WorkbookModel"].filter((name) => new RegExp(`\\(${name}\\)`).test(code));
+
+		const importLines = [
+			...(typingNames.length > 0 ? [`from typing import ${typingNames.join(", ")}`, ""] : []),
+			...(pydanticNames.length > 0 ? [`from pydantic import ${pydanticNames.join(", ")}`, ""] : []),
+			`from .base import ${baseNames.join(", ")}`,
+			...(imports.length > 0 ? [`from .common import ${imports.join(", ")}`] : []),
+		];
+		return `${this.AUTO_GEN_COMMENT}${importLines.join("\n").trimEnd()}\n\n\n${code}\n`;
+	}
+
+	private static toClassName(name: string, suffix: string = ""): string {
+		const className = GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(name)).replace(/\W+/g, "_");
+		const identifier = /^[A-Za-z]/.test(className) ? className : `N${className}`;
+		return suffix ? GeneratorUtil.sanitizeName(identifier, suffix) : identifier;
+	}
+
+	/**
+	 * Names the field of a column or key: a snake_case Python name, which is not reserved and not already taken.
+	 * Fields starting with an underscore would be private attributes, so they get a "field" prefix.
+	 */
+	private static toFieldName(key: string, fieldNames: string[]): string {
+		let fieldName = GeneratorUtil.toKebabCase(key).replace(/\W+|-/g, "_");
+		if (!/^[A-Za-z]/.test(fieldName)) {
+			fieldName = `field_${fieldName.replace(/^_+/, "")}`;
+		}
+		if (this.RESERVED_NAMES.has(fieldName) || fieldName.startsWith("model_")) {
+			fieldName = `${fieldName}_`;
+		}
+		while (fieldNames.includes(fieldName)) {
+			fieldName = `${fieldName}_`;
+		}
+		fieldNames.push(fieldName);
+		return fieldName;
+	}
+
+	private static toModuleName(workbookName: string): string {
+		const moduleName = GeneratorUtil.toKebabCase(workbookName).replace(/\W+|-/g, "_");
+		return /^[A-Za-z_]/.test(moduleName) ? moduleName : `workbook_${moduleName}`;
+	}
+
+	/**
+	 * Writes a value as a Python literal. JSON strings and numbers are valid Python literals.
+	 */
+	private static toLiteral(value: unknown): string {
+		if (typeof value === "boolean") {
+			return value ? "True" : "False";
+		}
+		return value === null || value === undefined ? "None" : JSON.stringify(value);
+	}
+
+	private static toDocstring(description: string | undefined): string {
+		return description ? `    """\n${description.replace(/\\/g, "\\\\").replace(/"""/g, '\\"""').split(/\r?\n/).map((line) => `    ${line}`.trimEnd()).join("\n")}\n    """\n\n` : "";
+	}
+}
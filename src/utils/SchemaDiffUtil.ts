@@ -0,0 +1,385 @@
+import { JsonSchema, SchemaChange, SchemaChangeSeverity, SchemaRenames } from "../beans";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+
+/**
+ * Where in the workbook a change is, down to the column or list key
+ */
+interface Location {
+	sheet?: string;
+	block?: string;
+	entity?: string;
+	column?: string;
+}
+
+/**
+ * The root schemas of both versions, against which their refs are resolved, and the sheets and blocks renamed between them
+ */
+interface Roots {
+	before: JsonSchema;
+	after: JsonSchema;
+	renames: SchemaRenames;
+}
+
+/**
+ * Utility class that compares two versions of a workbook JSON Schema, reporting the changes by sheet, block,
+ * column and list key, and whether each of them breaks the generated classes or the data of the previous version.
+ */
+export class SchemaDiffUtil {
+	/**
+	 * Numeric and length constraints, with whether raising them narrows the accepted values
+	 */
+	private static readonly BOUNDS: Array<[string, boolean]> = [
+		["minimum", true],
+		["exclusiveMinimum", true],
+		["minLength", true],
+		["minItems", true],
+		["maximum", false],
+		["exclusiveMaximum", false],
+		["maxLength", false],
+		["maxItems", false],
+	];
+
+	/**
+	 * Compares two versions of a workbook schema, following "$ref"s into "definitions" and other schema files.
+	 * Changes are located by the names of the new version.
+	 * @param before The previous version of the workbook JSON Schema
+	 * @param after The new version of the workbook JSON Schema
+	 * @param renames The new names of the sheets and blocks renamed since the previous version
+	 * @returns The changes, empty if both versions describe the same workbook
+	 */
+	public static diff(before: JsonSchema, after: JsonSchema, renames: SchemaRenames = {}): SchemaChange[] {
+		const changes: SchemaChange[] = [];
+		const roots: Roots = { before, after, renames };
+
+		this.diffDescription(before, after, {}, changes);
+
+		const beforeSheets = this.getSheetSchemas(before);
+		const afterSheets = this.getSheetSchemas(after);
+		const matchedSheets = new Set<string>();
+		beforeSheets.forEach((beforeSheet, previousName) => {
+			const sheetName = renames.sheets?.[previousName] ?? previousName;
+			const afterSheet = afterSheets.get(sheetName);
+			if (!afterSheet) {
+				changes.push({ severity: "breaking", kind: "sheet-removed", sheet: previousName, message: "sheet removed" });
+				return;
+			}
+			matchedSheets.add(sheetName);
+			if (sheetName !== previousName) {
+				changes.push({ severity: "breaking", kind: "sheet-renamed", sheet: sheetName, message: `sheet renamed from ${previousName}`, before: previousName, after: sheetName });
+			}
+			this.diffSheet(beforeSheet, afterSheet, roots, { sheet: sheetName }, changes);
+		});
+		afterSheets.forEach((_, sheetName) => {
+			if (!matchedSheets.has(sheetName)) {
+				changes.push({ severity: "non-breaking", kind: "sheet-added", sheet: sheetName, message: "sheet added" });
+			}
+		});
+
+		return changes;
+	}
+
+	/**
+	 * Maps the (resolved) sheet schemas of a workbook schema by sheet name.
+	 * @throws If the schema has no "sheets"
+	 */
+	public static getSheetSchemas(schema: JsonSchema): Map<string, JsonSchema> {
+		const sheetsSchema = SchemaRefResolverUtil.resolveIfRef(schema.properties?.sheets, schema);
+		const sheetsItems = SchemaRefResolverUtil.resolveIfRef(sheetsSchema?.items, schema);
+		if (!sheetsItems) {
+			throw new Error(`Invalid JSON Schema: "sheets" definition not found or malformed.`);
+		}
+		return this.byName(sheetsItems.oneOf || [sheetsItems], schema);
+	}
+
+	/**
+	 * Maps the (resolved) block schemas of a sheet schema by block name.
+	 */
+	public static getBlockSchemas(sheetSchema: JsonSchema, rootSchema: JsonSchema): Map<string, JsonSchema> {
+		const blocksSchema = SchemaRefResolverUtil.resolveIfRef(sheetSchema.properties?.blocks, rootSchema);
+		const blockItems = SchemaRefResolverUtil.resolveIfRef(blocksSchema?.items, rootSchema);
+		return this.byName(blockItems?.oneOf || [], rootSchema);
+	}
+
+	/**
+	 * Maps the column schemas of a table schema by column name, in the order of the header.
+	 */
+	public static getColumnSchemas(tableSchema: JsonSchema, rootSchema: JsonSchema): Map<string, JsonSchema> {
+		const headerItems = SchemaRefResolverUtil.resolveIfRef(tableSchema.properties?.header, rootSchema)?.items;
+		const rowItems = SchemaRefResolverUtil.resolveIfRef(SchemaRefResolverUtil.resolveIfRef(tableSchema.properties?.rows, rootSchema)?.items, rootSchema)?.items;
+		const columns = new Map<string, JsonSchema>();
+		if (Array.isArray(headerItems)) {
+			headerItems.forEach((item: JsonSchema, index: number) => {
+				const column = SchemaRefResolverUtil.resolveIfRef(item, rootSchema)?.enum?.[0];
+				if (column !== undefined) {
+					columns.set(column, Array.isArray(rowItems) ? rowItems[index] : null);
+				}
+			});
+		}
+		return columns;
+	}
+
+	/**
+	 * Gets the (resolved) item schema of a list schema.
+	 */
+	public static getListItemSchema(listSchema: JsonSchema, rootSchema: JsonSchema): JsonSchema | null {
+		return SchemaRefResolverUtil.resolveIfRef(SchemaRefResolverUtil.resolveIfRef(listSchema.properties?.items, rootSchema)?.items, rootSchema);
+	}
+
+	/**
+	 * Whether some of the changes break the previous version.
+	 */
+	public static isBreaking(changes: SchemaChange[]): boolean {
+		return changes.some((change) => change.severity === "breaking");
+	}
+
+	/**
+	 * Formats a change in domain terms, e.g.
+	 * "breaking: sheet `income`, table `salary_table`, column `amount`: type narrowed from number to integer"
+	 */
+	public static format(change: SchemaChange): string {
+		const parts: string[] = [];
+		if (change.sheet !== undefined) parts.push(`sheet \`${change.sheet}\``);
+		if (change.block !== undefined) parts.push(`${change.entity ?? "block"} \`${change.block}\``);
+		if (change.column !== undefined) parts.push(`${change.entity === "list" ? "key" : "column"} \`${change.column}\``);
+
+		return `${change.severity}: ${parts.length > 0 ? parts.join(", ") : "workbook"}: ${change.message}`;
+	}
+
+	/**
+	 * Compares the blocks of a sheet.
+	 */
+	private static diffSheet(before: JsonSchema, after: JsonSchema, roots: Roots, location: Location, changes: SchemaChange[]): void {
+		this.diffDescription(before, after, location, changes);
+
+		const beforeBlocks = this.getBlockSchemas(before, roots.before);
+		const afterBlocks = this.getBlockSchemas(after, roots.after);
+		const matchedBlocks = new Set<string>();
+		beforeBlocks.forEach((beforeBlock, previousName) => {
+			const entity = GeneratorUtil.getFirstEnum(beforeBlock, "@entity");
+			const blockName = roots.renames.blocks?.[previousName] ?? previousName;
+			const afterBlock = afterBlocks.get(blockName);
+			if (!afterBlock) {
+				changes.push({ severity: "breaking", kind: "block-removed", ...location, block: previousName, entity, message: `${entity} removed` });
+				return;
+			}
+			matchedBlocks.add(blockName);
+			if (blockName !== previousName) {
+				changes.push({ severity: "breaking", kind: "block-renamed", ...location, block: blockName, entity, message: `${entity} renamed from ${previousName}`, before: previousName, after: blockName });
+			}
+			this.diffBlock(beforeBlock, afterBlock, roots, { ...location, block: blockName, entity }, changes);
+		});
+		afterBlocks.forEach((afterBlock, blockName) => {
+			if (!matchedBlocks.has(blockName)) {
+				const entity = GeneratorUtil.getFirstEnum(afterBlock, "@entity");
+				changes.push({ severity: "non-breaking", kind: "block-added", ...location, block: blockName, entity, message: `${entity} added` });
+			}
+		});
+	}
+
+	/**
+	 * Compares the columns of a table, or the keys of a list.
+	 */
+	private static diffBlock(before: JsonSchema, after: JsonSchema, roots: Roots, location: Location, changes: SchemaChange[]): void {
+		const entity = GeneratorUtil.getFirstEnum(after, "@entity");
+		if (entity !== location.entity) {
+			changes.push({ severity: "breaking", kind: "entity-changed", ...location, message: `changed from ${location.entity} to ${entity}`, before: location.entity, after: entity });
+			return;
+		}
+
+		this.diffDescription(before, after, location, changes);
+
+		if (entity === "table") {
+			this.diffTable(before, after, roots, location, changes);
+		} else if (entity === "list") {
+			this.diffProperties(this.getListItemSchema(before, roots.before) ?? {}, this.getListItemSchema(after, roots.after) ?? {}, roots, location, changes, new Set());
+		}
+	}
+
+	/**
+	 * Compares the header and the column schemas of a table. Columns are matched by name.
+	 */
+	private static diffTable(before: JsonSchema, after: JsonSchema, roots: Roots, location: Location, changes: SchemaChange[]): void {
+		const beforeColumns = this.getColumnSchemas(before, roots.before);
+		const afterColumns = this.getColumnSchemas(after, roots.after);
+
+		beforeColumns.forEach((beforeColumn, column) => {
+			const afterColumn = afterColumns.get(column);
+			if (afterColumn === undefined) {
+				changes.push({ severity: "breaking", kind: "column-removed", ...location, column, message: "column removed" });
+				return;
+			}
+			this.diffField(beforeColumn, afterColumn, roots, { ...location, column }, changes, new Set());
+		});
+		// Rows are positional, so a column added before a kept column shifts the positions of the columns after it
+		const afterHeader = Array.from(afterColumns.keys());
+		const lastKeptIndex = afterHeader.reduce((last, column, index) => (beforeColumns.has(column) ? index : last), -1);
+		afterHeader.forEach((column, index) => {
+			if (beforeColumns.has(column)) {
+				return;
+			}
+			if (index < lastKeptIndex) {
+				changes.push({ severity: "breaking", kind: "column-inserted", ...location, column, message: "column inserted before existing columns" });
+			} else {
+				changes.push({ severity: "non-breaking", kind: "column-added", ...location, column, message: "column added" });
+			}
+		});
+
+		// Rows are positional, so the columns kept must stay in the same order
+		const beforeOrder = Array.from(beforeColumns.keys()).filter((column) => afterColumns.has(column));
+		const afterOrder = Array.from(afterColumns.keys()).filter((column) => beforeColumns.has(column));
+		if (beforeOrder.join("\n") !== afterOrder.join("\n")) {
+			changes.push({ severity: "breaking", kind: "header-reordered", ...location, message: `header reordered from ${beforeOrder.join(", ")} to ${afterOrder.join(", ")}`, before: beforeOrder, after: afterOrder });
+		}
+	}
+
+	/**
+	 * Compares the properties of the objects described by two schemas: the keys of a list item, or the fields of a nested object.
+	 * @param visited The schemas being compared higher up, to stop at recursive schemas
+	 */
+	private static diffProperties(before: Record<string, any>, after: Record<string, any>, roots: Roots, location: Location, changes: SchemaChange[], visited: Set<object>): void {
+		const beforeProperties: Record<string, any> = before.properties ?? {};
+		const afterProperties: Record<string, any> = after.properties ?? {};
+		const beforeRequired: string[] = before.required ?? [];
+		const afterRequired: string[] = after.required ?? [];
+		const columnOf = (key: string) => (location.column !== undefined ? `${location.column}.${key}` : key);
+
+		Object.keys(beforeProperties).forEach((key) => {
+			const column = columnOf(key);
+			if (!(key in afterProperties)) {
+				changes.push({ severity: "breaking", kind: "key-removed", ...location, column, message: "key removed" });
+				return;
+			}
+			if (!beforeRequired.includes(key) && afterRequired.includes(key)) {
+				changes.push({ severity: "breaking", kind: "required-added", ...location, column, message: "optional key made required" });
+			} else if (beforeRequired.includes(key) && !afterRequired.includes(key)) {
+				changes.push({ severity: "non-breaking", kind: "required-removed", ...location, column, message: "required key made optional" });
+			}
+			this.diffField(beforeProperties[key], afterProperties[key], roots, { ...location, column }, changes, visited);
+		});
+		Object.keys(afterProperties).forEach((key) => {
+			if (!(key in beforeProperties)) {
+				const required = afterRequired.includes(key);
+				changes.push({ severity: required ? "breaking" : "non-breaking", kind: "key-added", ...location, column: columnOf(key), message: required ? "required key added" : "key added" });
+			}
+		});
+	}
+
+	/**
+	 * Compares the schemas of a column or key: type, nullability, enum, constraints and description,
+	 * then the fields of nested objects and the items of arrays.
+	 */
+	private static diffField(beforeField: JsonSchema, afterField: JsonSchema, roots: Roots, location: Location, changes: SchemaChange[], visited: Set<object>): void {
+		const before: Record<string, any> | null = SchemaRefResolverUtil.resolveIfRef(beforeField ?? null, roots.before);
+		const after: Record<string, any> | null = SchemaRefResolverUtil.resolveIfRef(afterField ?? null, roots.after);
+		if (!before || !after || visited.has(before)) {
+			return;
+		}
+		const report = (severity: SchemaChangeSeverity, kind: string, message: string, beforeValue?: unknown, afterValue?: unknown) =>
+			changes.push({ severity, kind, ...location, message, before: beforeValue, after: afterValue });
+
+		// nullability and type
+		const beforeTypes = this.getTypes(before);
+		const afterTypes = this.getTypes(after);
+		if (beforeTypes && afterTypes) {
+			if (beforeTypes.includes("null") && !afterTypes.includes("null")) {
+				report("breaking", "nullable-removed", "nullable field made required");
+			} else if (!beforeTypes.includes("null") && afterTypes.includes("null")) {
+				report("non-breaking", "nullable-added", "required field made nullable");
+			}
+
+			const beforeValueTypes = beforeTypes.filter((type) => type !== "null");
+			const afterValueTypes = afterTypes.filter((type) => type !== "null");
+			const covers = (types: string[], type: string) => types.includes(type) || (type === "integer" && types.includes("number"));
+			const narrowed = beforeValueTypes.some((type) => !covers(afterValueTypes, type));
+			const widened = afterValueTypes.some((type) => !covers(beforeValueTypes, type));
+			const from = beforeValueTypes.join(" or ");
+			const to = afterValueTypes.join(" or ");
+			if (narrowed && widened) {
+				report("breaking", "type-changed", `type changed from ${from} to ${to}`, beforeValueTypes, afterValueTypes);
+			} else if (narrowed) {
+				report("breaking", "type-narrowed", `type narrowed from ${from} to ${to}`, beforeValueTypes, afterValueTypes);
+			} else if (widened) {
+				report("non-breaking", "type-widened", `type widened from ${from} to ${to}`, beforeValueTypes, afterValueTypes);
+			}
+		}
+
+		// enum
+		const beforeEnum = GeneratorUtil.getEnumValues(before);
+		const afterEnum = GeneratorUtil.getEnumValues(after);
+		if (beforeEnum.length === 0 && afterEnum.length > 0) {
+			report("breaking", "enum-added", `values restricted to ${afterEnum.map((value) => JSON.stringify(value)).join(", ")}`, undefined, afterEnum);
+		} else if (beforeEnum.length > 0 && afterEnum.length === 0) {
+			report("non-breaking", "enum-removed", "values no longer restricted", beforeEnum);
+		} else {
+			beforeEnum.filter((value) => !afterEnum.includes(value)).forEach((value) => report("breaking", "enum-value-removed", `enum value ${JSON.stringify(value)} removed`, value));
+			afterEnum.filter((value) => !beforeEnum.includes(value)).forEach((value) => report("non-breaking", "enum-value-added", `enum value ${JSON.stringify(value)} added`, undefined, value));
+		}
+
+		// constraints
+		this.BOUNDS.forEach(([keyword, isLowerBound]) => {
+			const beforeBound = before[keyword];
+			const afterBound = after[keyword];
+			if (beforeBound === afterBound || (typeof beforeBound !== "number" && typeof afterBound !== "number")) {
+				return;
+			}
+			const raised = beforeBound === undefined ? isLowerBound : afterBound === undefined ? !isLowerBound : afterBound > beforeBound;
+			const narrowed = raised === isLowerBound;
+			const message = `${keyword} ${beforeBound === undefined ? "added" : afterBound === undefined ? "removed" : "changed"}${beforeBound !== undefined ? ` from ${beforeBound}` : ""}${afterBound !== undefined ? ` to ${afterBound}` : ""}`;
+			report(narrowed ? "breaking" : "non-breaking", narrowed ? "constraint-narrowed" : "constraint-widened", message, beforeBound, afterBound);
+		});
+		["pattern", "format"].forEach((keyword) => {
+			if (before[keyword] === after[keyword]) {
+				return;
+			}
+			if (after[keyword] === undefined) {
+				report("non-breaking", "constraint-widened", `${keyword} ${JSON.stringify(before[keyword])} removed`, before[keyword]);
+			} else {
+				report("breaking", "constraint-narrowed", `${keyword} ${before[keyword] === undefined ? "added" : `changed from ${JSON.stringify(before[keyword])}`} to ${JSON.stringify(after[keyword])}`, before[keyword], after[keyword]);
+			}
+		});
+
+		this.diffDescription(before, after, location, changes);
+
+		// nested objects and arrays
+		visited.add(before);
+		if (before.properties && after.properties) {
+			this.diffProperties(before, after, roots, location, changes, visited);
+		}
+		if (before.items && after.items && !Array.isArray(before.items) && !Array.isArray(after.items)) {
+			this.diffField(before.items, after.items, roots, { ...location, column: `${location.column}[]` }, changes, visited);
+		}
+		visited.delete(before);
+	}
+
+	/**
+	 * Reports a change of the description of a workbook, sheet, block or field.
+	 */
+	private static diffDescription(before: Record<string, any>, after: Record<string, any>, location: Location, changes: SchemaChange[]): void {
+		if (before.description !== after.description) {
+			changes.push({ severity: "non-breaking", kind: "description-changed", ...location, message: "description changed", before: before.description, after: after.description });
+		}
+	}
+
+	/**
+	 * Maps the (resolved) schemas of a oneOf by the first enum of their "name".
+	 */
+	private static byName(schemas: JsonSchema[], rootSchema: JsonSchema): Map<string, JsonSchema> {
+		const map = new Map<string, JsonSchema>();
+		schemas.forEach((node) => {
+			const resolved = SchemaRefResolverUtil.resolveIfRef(node, rootSchema)!;
+			map.set(GeneratorUtil.getFirstEnum(resolved, "name"), resolved);
+		});
+		return map;
+	}
+
+	/**
+	 * Gets the types of a field schema, or undefined if it does not restrict the type.
+	 */
+	private static getTypes(schema: Record<string, any>): string[] | undefined {
+		if (schema.type === undefined) {
+			return undefined;
+		}
+		return Array.isArray(schema.type) ? schema.type : [schema.type];
+	}
+}
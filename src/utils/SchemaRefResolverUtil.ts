@@ -1,12 +1,149 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
 import { JsonSchema } from "../beans";
 
+/**
+ * A schema resource: a whole schema document, or a subschema with its own "$id"
+ */
+interface SchemaResource {
+	uri: string; // base URI of the resource, without fragment
+	root: Record<string, any>;
+	document: Record<string, any>; // root of the document holding the resource
+}
+
 /**
  * Utility class for resolving JSON Schema $ref pointers
+ *
+ * Supports local refs ("#/definitions/x", "#/$defs/x"), refs to other files relative to the referring schema
+ * ("./common.schema.json#/definitions/x"), refs by "$id", and plain-name fragments given by "$anchor" or a "#name" "$id".
+ * JSON pointer segments are unescaped ("~1" => "/", "~0" => "~").
+ * Schema files reached through a ref are loaded once and cached.
  */
 export class SchemaRefResolverUtil {
 	/**
-	 * Recursively resolves local $ref if present, returning the *real* schema node.
+	 * Loaded documents, and subschemas with an "$id", by URI
+	 */
+	private static readonly resources = new Map<string, Record<string, any>>();
+
+	/**
+	 * The resource each schema node belongs to
+	 */
+	private static readonly owners = new WeakMap<object, SchemaResource>();
+
+	/**
+	 * The plain-name fragments of each resource, by resource root
+	 */
+	private static readonly anchors = new WeakMap<object, Map<string, Record<string, any>>>();
+
+	/**
+	 * The path of each document loaded from a file
+	 */
+	private static readonly filePaths = new WeakMap<object, string>();
+
+	/**
+	 * Reads a schema file, and registers it so that refs relative to it, or to its "$id", can be resolved.
+	 * @param schemaFilePath Path of the schema file
+	 * @returns The schema
+	 */
+	public static load(schemaFilePath: string): JsonSchema {
+		const uri = pathToFileURL(path.resolve(schemaFilePath)).href;
+		const loaded = this.resources.get(uri);
+		if (loaded) {
+			return loaded;
+		}
+
+		const schema = JSON.parse(fs.readFileSync(schemaFilePath, "utf-8"));
+		this.resources.set(uri, schema);
+		this.filePaths.set(schema, path.resolve(schemaFilePath));
+		this.walk(schema, { uri, root: schema, document: schema });
+		return schema;
+	}
+
+	/**
+	 * Loads every schema file (.json) in a directory and its subdirectories, so that they can be referenced by "$id".
+	 * Files that are not valid JSON are skipped.
+	 * @param dirPath Path of the directory
+	 */
+	public static loadDirectory(dirPath: string): void {
+		const walk = (directory: string) => {
+			fs.readdirSync(directory, { withFileTypes: true }).forEach((entry) => {
+				const fullPath = path.join(directory, entry.name);
+				if (entry.isDirectory()) {
+					walk(fullPath);
+				} else if (entry.name.endsWith(".json")) {
+					try {
+						this.load(fullPath);
+					} catch {
+						// Reported when the file itself is processed
+					}
+				}
+			});
+		};
+		walk(dirPath);
+	}
+
+	/**
+	 * Forgets a loaded schema file, so that it is read again the next time it is loaded or referenced.
+	 * @param schemaFilePath Path of the schema file
+	 */
+	public static unload(schemaFilePath: string): void {
+		const document = this.resources.get(pathToFileURL(path.resolve(schemaFilePath)).href);
+		if (!document) {
+			return;
+		}
+
+		// Also forget the subschemas of the document registered by "$id"
+		this.resources.forEach((node, uri) => {
+			if (this.owners.get(node)?.document === document) {
+				this.resources.delete(uri);
+			}
+		});
+	}
+
+	/**
+	 * Returns the paths of the schema files a schema references through "$ref", directly or through other files.
+	 * Refs which cannot be resolved are left out.
+	 */
+	public static getReferencedFiles(schema: JsonSchema): string[] {
+		const document = this.getRootResource(schema).document;
+		const documents = [document];
+		const files: string[] = [];
+
+		const visit = (node: unknown) => {
+			if (!node || typeof node !== "object") {
+				return;
+			}
+			const schemaNode = node as Record<string, any>;
+			if (typeof schemaNode.$ref === "string" && !schemaNode.$ref.startsWith("#")) {
+				try {
+					const target = this.owners.get(this.resolveUri(this.toAbsoluteUri(schemaNode.$ref, this.owners.get(node)!.uri)));
+					const filePath = target ? this.filePaths.get(target.document) : undefined;
+					if (target && !documents.includes(target.document)) {
+						documents.push(target.document);
+						if (filePath) {
+							files.push(filePath);
+						}
+					}
+				} catch {
+					// Reported when the schema is used
+				}
+			}
+			Object.values(schemaNode).forEach(visit);
+		};
+
+		// The documents grow while they are visited, to follow refs through other files
+		for (let index = 0; index < documents.length; index++) {
+			visit(documents[index]);
+		}
+
+		return files;
+	}
+
+	/**
+	 * Recursively resolves $ref if present, returning the *real* schema node.
 	 * If no $ref is present, returns the original node.
+	 * @throws If a ref cannot be resolved, or refs form a cycle
 	 */
 	public static resolveIfRef(node: JsonSchema | null, rootSchema: JsonSchema): JsonSchema | null {
 		// Defensive: null checks
@@ -14,33 +151,189 @@ export class SchemaRefResolverUtil {
 			return node;
 		}
 
+		const rootResource = this.getRootResource(rootSchema);
+		const visited: string[] = [];
+
 		// While we have a $ref in the node, follow it
 		while (node.$ref) {
 			const ref = node.$ref;
-			// Typically something like "#/definitions/block_name_hash"
-			if (ref.startsWith("#/")) {
-				node = this.resolvePointer(ref.substring(2), rootSchema);
-			} else {
-				// We'll assume local references only.
-				throw new Error(`Unsupported $ref format (expected local ref): ${ref}`);
+			const resource = this.owners.get(node) ?? rootResource;
+
+			const uri = this.toAbsoluteUri(ref, resource.uri);
+			if (visited.includes(uri)) {
+				throw new Error(`Circular $ref: ${[...visited, uri].join(" -> ")}`);
 			}
+			visited.push(uri);
+
+			// Fragment-only refs stay within the resource, which may not be registered under its URI
+			node = ref.startsWith("#") ? this.resolveFragment(ref.substring(1), resource.root, uri) : this.resolveUri(uri);
 		}
 
 		return node;
 	}
 
 	/**
-	 * Resolve something like "definitions/block_name_hash" within the rootSchema.
+	 * Whether a schema node belongs to another document than the root schema, i.e. it was reached through an external ref.
 	 */
-	private static resolvePointer(pointer: string, rootSchema: Record<string, any>): Record<string, any> {
-		const parts = pointer.split("/");
+	public static isExternal(node: JsonSchema | null, rootSchema: JsonSchema): boolean {
+		const owner = node ? this.owners.get(node) : undefined;
+		return owner !== undefined && owner.document !== this.getRootResource(rootSchema).document;
+	}
+
+	/**
+	 * Returns the resource of a root schema, registering it against the working directory if it was not loaded from a file.
+	 */
+	private static getRootResource(rootSchema: JsonSchema): SchemaResource {
+		const owner = this.owners.get(rootSchema);
+		if (owner) {
+			return owner;
+		}
+
+		this.walk(rootSchema, { uri: pathToFileURL(path.join(process.cwd(), path.sep)).href, root: rootSchema, document: rootSchema });
+		return this.owners.get(rootSchema)!;
+	}
+
+	/**
+	 * Records the resource of every node of a schema. A node with an "$id" starts a new resource,
+	 * registered under its URI, and "$anchor"s are recorded as plain-name fragments of their resource.
+	 * @param isSchemaMap Whether the node maps names to schemas, like "properties", rather than being a schema
+	 */
+	private static walk(node: unknown, resource: SchemaResource, isSchemaMap = false): void {
+		if (!node || typeof node !== "object") {
+			return;
+		}
+
+		let current = resource;
+		const schemaNode = node as Record<string, any>;
+
+		if (!Array.isArray(node) && !isSchemaMap) {
+			if (typeof schemaNode.$id === "string") {
+				const uri = this.toAbsoluteUri(schemaNode.$id, resource.uri);
+				const [documentUri, fragment] = this.splitUri(uri);
+				if (fragment) {
+					// Draft 6/7 plain-name fragment, e.g. "$id": "#address"
+					this.addAnchor(resource.root, fragment, schemaNode);
+				} else {
+					current = { uri: documentUri, root: schemaNode, document: resource.document };
+					this.resources.set(documentUri, schemaNode);
+				}
+			}
+			if (typeof schemaNode.$anchor === "string") {
+				this.addAnchor(current.root, schemaNode.$anchor, schemaNode);
+			}
+		}
+
+		this.owners.set(node, current);
+
+		Object.entries(schemaNode).forEach(([key, value]) => {
+			if (Array.isArray(node) || isSchemaMap) {
+				this.walk(value, current);
+			} else if (!["enum", "const", "examples", "default"].includes(key)) {
+				// Values of the other keywords are data, not schemas
+				this.walk(value, current, ["properties", "patternProperties", "definitions", "$defs", "dependencies"].includes(key));
+			}
+		});
+	}
+
+	/**
+	 * Records a plain-name fragment of a resource.
+	 */
+	private static addAnchor(resourceRoot: Record<string, any>, name: string, node: Record<string, any>): void {
+		const anchors = this.anchors.get(resourceRoot) ?? new Map<string, Record<string, any>>();
+		anchors.set(name, node);
+		this.anchors.set(resourceRoot, anchors);
+	}
+
+	/**
+	 * Resolves an absolute URI, loading the file it points to if needed.
+	 */
+	private static resolveUri(uri: string): Record<string, any> {
+		const [documentUri, fragment] = this.splitUri(uri);
+
+		let document = this.resources.get(documentUri);
+		if (!document && documentUri.startsWith("file:")) {
+			const filePath = fileURLToPath(documentUri);
+			if (!fs.existsSync(filePath)) {
+				throw new Error(`Could not resolve $ref "${uri}": file "${filePath}" does not exist.`);
+			}
+			document = this.load(filePath);
+		}
+		if (!document) {
+			throw new Error(`Could not resolve $ref "${uri}": no schema with this "$id" is loaded.`);
+		}
+
+		return this.resolveFragment(fragment, document, uri);
+	}
+
+	/**
+	 * Resolves the fragment of a URI within a resource: a JSON pointer such as "/definitions/block_name_hash",
+	 * or a plain name given by "$anchor" or "$id".
+	 */
+	private static resolveFragment(fragment: string, root: Record<string, any>, uri: string): Record<string, any> {
+		if (fragment === "") {
+			return root;
+		}
+
+		if (!fragment.startsWith("/")) {
+			const named = this.anchors.get(root)?.get(this.decode(fragment));
+			if (!named) {
+				throw new Error(`Could not resolve $ref "${uri}": no "$anchor" or "$id" named "${fragment}".`);
+			}
+			return named;
+		}
+
+		return this.resolvePointer(fragment, root, uri);
+	}
+
+	/**
+	 * Resolve a JSON pointer like "/definitions/block_name_hash" within a schema.
+	 */
+	private static resolvePointer(pointer: string, rootSchema: Record<string, any>, uri: string): Record<string, any> {
+		const parts = pointer
+			.split("/")
+			.slice(1)
+			.map((part) => this.decode(part).replace(/~1/g, "/").replace(/~0/g, "~"));
+
 		let current = rootSchema;
 		for (const part of parts) {
-			current = current[part];
-			if (!current) {
-				throw new Error(`Could not resolve pointer: ${pointer}`);
+			current = current?.[part];
+			if (current === undefined || current === null) {
+				throw new Error(`Could not resolve pointer: ${pointer} (in $ref "${uri}")`);
 			}
 		}
 		return current;
 	}
+
+	/**
+	 * Resolves a ref against a base URI.
+	 */
+	private static toAbsoluteUri(ref: string, baseUri: string): string {
+		try {
+			return new URL(ref, baseUri).href;
+		} catch {
+			throw new Error(`Invalid $ref "${ref}" (base URI "${baseUri}").`);
+		}
+	}
+
+	/**
+	 * Splits a URI into the URI of its document and its (decoded) fragment.
+	 */
+	private static splitUri(uri: string): [string, string] {
+		const hashIndex = uri.indexOf("#");
+		if (hashIndex < 0) {
+			return [uri, ""];
+		}
+		return [uri.substring(0, hashIndex), uri.substring(hashIndex + 1)];
+	}
+
+	/**
+	 * Decodes the percent-encoding of a fragment, keeping it as is if it is not encoded.
+	 */
+	private static decode(fragment: string): string {
+		try {
+			return decodeURIComponent(fragment);
+		} catch {
+			return fragment;
+		}
+	}
 }
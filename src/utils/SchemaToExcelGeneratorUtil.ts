@@ -0,0 +1,219 @@
+import * as XLSX from "xlsx";
+import { JsonSchema } from "../beans";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+
+/**
+ * A block that describes the properties of a nested object field
+ */
+interface TypeBlock {
+	name: string;
+	fields: Array<[string, Record<string, any>]>;
+	required: string[];
+}
+
+/**
+ * Names of the blocks in a workbook, used to give the blocks describing nested objects unique names
+ */
+interface BlockNames {
+	used: Set<string>;
+	byShape: Map<string, string>; // JSON of an object's properties and required keys -> name of the block describing it
+}
+
+/**
+ * Utility class that writes a JSON Schema back into the Excel definition workbook
+ * layout read by ExcelToSchemaGeneratorUtil.
+ *
+ * Each sheet becomes a tab. Each block is written as a block header row ("X_list" / "X_table"),
+ * followed by the meta-header row and one row per field, with a blank row between blocks.
+ * Blocks referenced through "$ref" are expanded inline.
+ *
+ * Nested object fields are written with an "object:<block_name>" type, and the block describing
+ * their properties is added after the sheet's own blocks, with its "required" column filled in.
+ *
+ * The layout holds a single type per field, so a field of several non-null types keeps the first one.
+ * Keywords without a column, such as "const", "default" or "oneOf", are not written.
+ */
+export class SchemaToExcelGeneratorUtil {
+	/**
+	 * The meta-header row, in the column order it is written. The first column holds the field name.
+	 */
+	private static readonly META_HEADER = ["field_name", "null_allowed", "required", "type", "minimum", "maximum", "minLength", "maxLength", "pattern", "format", "enum", "description", "examples"];
+
+	/**
+	 * Main entry point. Builds the definition workbook for the given schema
+	 * and writes it to the given path.
+	 * @param schema The workbook JSON Schema
+	 * @param excelFilePath Path of the Excel file (.xlsx) to write
+	 */
+	public static generate(schema: JsonSchema, excelFilePath: string): void {
+		const wb = this.buildWorkbook(schema);
+		XLSX.writeFile(wb, excelFilePath);
+	}
+
+	/**
+	 * Builds a SheetJS workbook with one tab per sheet schema.
+	 */
+	private static buildWorkbook(schema: JsonSchema): XLSX.WorkBook {
+		const sheetSchemas = GeneratorUtil.getSheetSchemas(schema);
+
+		const wb = XLSX.utils.book_new();
+
+		// Block names already in use, so that the blocks describing nested objects get unique names
+		const blockNames: BlockNames = { used: new Set(), byShape: new Map() };
+		sheetSchemas.forEach((sheet) => {
+			const sheetSchema = SchemaRefResolverUtil.resolveIfRef(sheet, schema)!;
+			GeneratorUtil.getBlockSchemas(sheetSchema, schema).forEach((block) => blockNames.used.add(GeneratorUtil.getFirstEnum(SchemaRefResolverUtil.resolveIfRef(block, schema)!, "name")));
+		});
+
+		sheetSchemas.forEach((sheet) => {
+			const sheetSchema = SchemaRefResolverUtil.resolveIfRef(sheet, schema)!;
+			const sheetName = GeneratorUtil.getFirstEnum(sheetSchema, "name");
+
+			const rows = this.buildSheetRows(sheetSchema, schema, blockNames);
+			XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), sheetName);
+		});
+
+		return wb;
+	}
+
+	/**
+	 * Builds the rows (array of arrays) of a single tab from a sheet schema.
+	 */
+	private static buildSheetRows(sheetSchema: JsonSchema, rootSchema: JsonSchema, blockNames: BlockNames): string[][] {
+		const rows: string[][] = [];
+		const typeBlocks: TypeBlock[] = [];
+
+		const writeBlock = (blockName: string, fields: Array<[string, Record<string, any>]>, required?: string[]) => {
+			// Separate blocks with a blank row
+			if (rows.length > 0) {
+				rows.push([]);
+			}
+
+			rows.push([blockName]);
+			rows.push([...this.META_HEADER]);
+			fields.forEach(([fieldName, fieldSchema]) => {
+				// Only the fields of a block used as an object type can be left out
+				const requiredCell = required ? (required.includes(fieldName) ? "Yes" : "No") : "";
+				rows.push(this.buildFieldRow(fieldName, fieldSchema, requiredCell, rootSchema, typeBlocks, blockNames));
+			});
+		};
+
+		GeneratorUtil.getBlockSchemas(sheetSchema, rootSchema).forEach((block) => {
+			const blockSchema = SchemaRefResolverUtil.resolveIfRef(block, rootSchema)!;
+			const blockName = GeneratorUtil.getFirstEnum(blockSchema, "name");
+			const blockEntity = GeneratorUtil.getFirstEnum(blockSchema, "@entity");
+
+			// The Excel parser only recognises blocks by their name suffix
+			if (!blockName.endsWith(`_${blockEntity}`)) {
+				throw new Error(`Block "${blockName}" cannot be written to Excel: the name of a ${blockEntity} block must end with "_${blockEntity}".`);
+			}
+
+			writeBlock(blockName, blockEntity === "list" ? this.getListFields(blockSchema, rootSchema) : this.getTableFields(blockSchema, rootSchema));
+		});
+
+		// Blocks describing nested objects; writing one may add more
+		for (let i = 0; i < typeBlocks.length; i += 1) {
+			writeBlock(typeBlocks[i].name, typeBlocks[i].fields, typeBlocks[i].required);
+		}
+
+		return rows;
+	}
+
+	/**
+	 * Returns the [fieldName, fieldSchema] pairs of a table block, in header order.
+	 */
+	private static getTableFields(blockSchema: JsonSchema, rootSchema: JsonSchema): Array<[string, Record<string, any>]> {
+		const headerItems = blockSchema.properties?.header?.items;
+		if (!Array.isArray(headerItems)) {
+			return [];
+		}
+
+		const columnSchemas = blockSchema.properties?.rows?.items?.items;
+
+		return headerItems.map((item: JsonSchema, index: number) => {
+			const columnSchema = Array.isArray(columnSchemas) ? SchemaRefResolverUtil.resolveIfRef(columnSchemas[index], rootSchema) : null;
+			return [item.enum?.[0] ?? "", columnSchema ?? {}];
+		});
+	}
+
+	/**
+	 * Returns the [fieldName, fieldSchema] pairs of a list block, in property order.
+	 */
+	private static getListFields(blockSchema: JsonSchema, rootSchema: JsonSchema): Array<[string, Record<string, any>]> {
+		const properties = blockSchema.properties?.items?.items?.properties;
+		if (!properties) {
+			return [];
+		}
+
+		return Object.entries(properties).map(([key, value]: [string, any]) => [key, SchemaRefResolverUtil.resolveIfRef(value, rootSchema) ?? {}]);
+	}
+
+	/**
+	 * Converts a field schema into a field row, the reverse of ExcelToSchemaGeneratorUtil.buildFieldSchema.
+	 * Values are written as strings so that falsy values such as a minimum of 0 survive the round trip,
+	 * and examples as a JSON array so that they keep their types.
+	 */
+	private static buildFieldRow(fieldName: string, fieldSchema: Record<string, any>, required: string, rootSchema: JsonSchema, typeBlocks: TypeBlock[], blockNames: BlockNames): string[] {
+		const types: string[] = Array.isArray(fieldSchema.type) ? fieldSchema.type : [fieldSchema.type ?? "string"];
+		const nullAllowed = types.includes("null") ? "Yes" : "No";
+		const type = this.buildTypeExpression(fieldName, fieldSchema, rootSchema, typeBlocks, blockNames);
+
+		const toCell = (value: unknown): string => (value === undefined || value === null ? "" : String(value));
+
+		return [
+			fieldName,
+			nullAllowed,
+			required,
+			type,
+			toCell(fieldSchema.minimum),
+			toCell(fieldSchema.maximum),
+			toCell(fieldSchema.minLength),
+			toCell(fieldSchema.maxLength),
+			toCell(fieldSchema.pattern),
+			toCell(fieldSchema.format),
+			Array.isArray(fieldSchema.enum) ? fieldSchema.enum.join(", ") : "",
+			toCell(fieldSchema.description),
+			Array.isArray(fieldSchema.examples) ? JSON.stringify(fieldSchema.examples) : toCell(fieldSchema.examples),
+		];
+	}
+
+	/**
+	 * Converts the type of a field schema into a type expression, the reverse of ExcelToSchemaGeneratorUtil.buildTypeSchema.
+	 * An object with properties is written as "object:<block_name>", registering a new type block
+	 * unless an object of the same shape already has one.
+	 */
+	private static buildTypeExpression(fieldName: string, fieldSchema: Record<string, any>, rootSchema: JsonSchema, typeBlocks: TypeBlock[], blockNames: BlockNames): string {
+		const types: string[] = Array.isArray(fieldSchema.type) ? fieldSchema.type : [fieldSchema.type ?? "string"];
+
+		// The Excel layout holds a single type per field; fall back to the first non-null one, or "null" for a null-only field
+		const type = types.filter((t) => t !== "null")[0] ?? (types.includes("null") ? "null" : "string");
+
+		if (type === "object" && fieldSchema.properties) {
+			const required: string[] = Array.isArray(fieldSchema.required) ? fieldSchema.required : [];
+			const shape = JSON.stringify([fieldSchema.properties, required]);
+			const existingName = blockNames.byShape.get(shape);
+			if (existingName) {
+				return `object:${existingName}`;
+			}
+
+			let blockName = `${fieldName}_list`;
+			for (let i = 2; blockNames.used.has(blockName); i += 1) {
+				blockName = `${fieldName}_${i}_list`;
+			}
+			blockNames.used.add(blockName);
+			blockNames.byShape.set(shape, blockName);
+
+			const fields = Object.entries(fieldSchema.properties).map(([key, value]: [string, any]): [string, Record<string, any>] => [key, SchemaRefResolverUtil.resolveIfRef(value, rootSchema) ?? {}]);
+			typeBlocks.push({ name: blockName, fields, required });
+			return `object:${blockName}`;
+		}
+
+		if (type === "array" && fieldSchema.items && !Array.isArray(fieldSchema.items)) {
+			const itemSchema = SchemaRefResolverUtil.resolveIfRef(fieldSchema.items, rootSchema) ?? {};
+			return `array<${this.buildTypeExpression(fieldName, itemSchema, rootSchema, typeBlocks, blockNames)}>`;
+		}
+
+		return type;
+	}
+}
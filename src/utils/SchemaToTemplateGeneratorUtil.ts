@@ -0,0 +1,304 @@
+import * as fs from "fs";
+import * as XLSX from "xlsx";
+import { JsonSchema } from "../beans";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+
+/**
+ * Options of the data-entry template
+ */
+export interface SchemaToTemplateOptions {
+	/**
+	 * Number of empty rows prepared for each table (default 100)
+	 */
+	rows?: number;
+}
+
+/**
+ * A tab being built: its rows, and the formats, comments and validations of its cells
+ */
+interface TemplateTab {
+	rows: unknown[][];
+	formats: Array<[number, number, string]>; // row index, column index, number format of an empty cell
+	comments: Array<[number, number, string]>; // row index, column index, description
+	validations: string[]; // <dataValidation> elements
+}
+
+/**
+ * Utility class that generates an empty data-entry workbook from a JSON Schema, in the layout read by ExcelToJsonGeneratorUtil.
+ *
+ * Each table block gets a header row followed by empty rows formatted for the type of each column,
+ * and each list block gets one row per key, with the value in the second column.
+ * Field descriptions become comments on the header or key cells, and the field constraints become data validations:
+ * a dropdown for an enum, a numeric range for a minimum/maximum and a text length for a minLength/maxLength.
+ *
+ * The community edition of SheetJS does not write data validations, so they are added to the worksheet XML
+ * of the written file. Enum values that do not fit an inline dropdown are listed on a hidden tab.
+ */
+export class SchemaToTemplateGeneratorUtil {
+	/**
+	 * The hidden tab listing the values of long enums
+	 */
+	private static readonly ENUM_SHEET_NAME = "_enums";
+
+	/**
+	 * The author of the description comments
+	 */
+	private static readonly COMMENT_AUTHOR = "sheet-generator";
+
+	/**
+	 * Elements that follow <dataValidations> in a worksheet, in the order of the SpreadsheetML schema
+	 */
+	private static readonly ELEMENTS_AFTER_VALIDATIONS = ["hyperlinks", "printOptions", "pageMargins", "pageSetup", "headerFooter", "rowBreaks", "colBreaks", "customProperties", "cellWatches", "ignoredErrors", "smartTags", "drawing", "legacyDrawing", "legacyDrawingHF", "picture", "oleObjects", "controls", "webPublishItems", "tableParts", "extLst"];
+
+	/**
+	 * Main entry point. Builds the data-entry workbook for the given schema
+	 * and writes it to the given path.
+	 * @param schema The workbook JSON Schema
+	 * @param excelFilePath Path of the Excel file (.xlsx) to write
+	 * @param options Template options
+	 */
+	public static generate(schema: JsonSchema, excelFilePath: string, options: SchemaToTemplateOptions = {}): void {
+		const rowCount = options.rows ?? 100;
+
+		const wb = XLSX.utils.book_new();
+		const validations: string[][] = [];
+		const enumLists: unknown[][] = [];
+
+		GeneratorUtil.getSheetSchemas(schema).forEach((sheet) => {
+			const sheetSchema = SchemaRefResolverUtil.resolveIfRef(sheet, schema)!;
+			const tab: TemplateTab = { rows: [], formats: [], comments: [], validations: [] };
+
+			GeneratorUtil.getBlockSchemas(sheetSchema, schema).forEach((block) => {
+				const blockSchema = SchemaRefResolverUtil.resolveIfRef(block, schema)!;
+				// Separate blocks with a blank row
+				if (tab.rows.length > 0) {
+					tab.rows.push([]);
+				}
+
+				const blockName = GeneratorUtil.getFirstEnum(blockSchema, "name");
+				tab.rows.push([blockName]);
+
+				if (GeneratorUtil.getFirstEnum(blockSchema, "@entity") === "list") {
+					this.addListRows(blockSchema, schema, tab, enumLists);
+				} else {
+					this.addTableRows(blockSchema, schema, tab, enumLists, rowCount);
+				}
+			});
+
+			XLSX.utils.book_append_sheet(wb, this.buildWorksheet(tab), GeneratorUtil.getFirstEnum(sheetSchema, "name"));
+			validations.push(tab.validations);
+		});
+
+		// Hidden tab listing the values of long enums, one per column
+		if (enumLists.length > 0) {
+			const longest = Math.max(...enumLists.map((values) => values.length));
+			const rows = Array.from({ length: longest }, (_, r) => enumLists.map((values) => values[r] ?? null));
+			XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), this.ENUM_SHEET_NAME);
+			XLSX.utils.book_set_sheet_visibility(wb, this.ENUM_SHEET_NAME, 1);
+		}
+
+		const buffer: Buffer = XLSX.write(wb, { type: "buffer", bookType: "xlsx" });
+		fs.writeFileSync(excelFilePath, this.addDataValidations(buffer, validations));
+	}
+
+	/**
+	 * Builds the worksheet of a tab, with formatted empty cells for the values to enter,
+	 * comments on the header and key cells, and columns wide enough for their headers.
+	 */
+	private static buildWorksheet(tab: TemplateTab): XLSX.WorkSheet {
+		const ws = XLSX.utils.aoa_to_sheet(tab.rows);
+
+		tab.formats.forEach(([r, c, format]) => {
+			ws[XLSX.utils.encode_cell({ r, c })] = { t: "s", v: "", z: format };
+		});
+		tab.comments.forEach(([r, c, description]) => {
+			const comments: XLSX.Comments = [{ a: this.COMMENT_AUTHOR, t: description }];
+			comments.hidden = true;
+			ws[XLSX.utils.encode_cell({ r, c })].c = comments;
+		});
+
+		const widths: number[] = [];
+		tab.rows.forEach((row) => row.forEach((cell, c) => {
+			widths[c] = Math.max(widths[c] ?? 10, String(cell ?? "").length + 2);
+		}));
+		ws["!cols"] = widths.map((wch) => ({ wch }));
+		ws["!ref"] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: Math.max(tab.rows.length - 1, 0), c: Math.max(widths.length - 1, 0) } });
+
+		return ws;
+	}
+
+	/**
+	 * Adds the header row of a table block, followed by empty rows formatted and validated for each column.
+	 */
+	private static addTableRows(blockSchema: JsonSchema, rootSchema: JsonSchema, tab: TemplateTab, enumLists: unknown[][], rowCount: number): void {
+		const headerItems = blockSchema.properties?.header?.items;
+		const header: string[] = Array.isArray(headerItems) ? headerItems.map((item: JsonSchema) => item.enum?.[0] ?? "") : [];
+		const columnSchemas = blockSchema.properties?.rows?.items?.items;
+
+		const headerRow = tab.rows.length;
+		tab.rows.push(header);
+
+		header.forEach((_, colIndex) => {
+			const columnSchema: Record<string, any> = (Array.isArray(columnSchemas) ? SchemaRefResolverUtil.resolveIfRef(columnSchemas[colIndex], rootSchema) : null) ?? {};
+			this.addComment(tab, headerRow, colIndex, columnSchema.description);
+
+			// Formatted empty cells, so that typed values keep their type
+			const numberFormat = this.getNumberFormat(columnSchema);
+			for (let r = headerRow + 1; r <= headerRow + rowCount; r += 1) {
+				tab.formats.push([r, colIndex, numberFormat]);
+			}
+
+			const sqref = `${XLSX.utils.encode_cell({ r: headerRow + 1, c: colIndex })}:${XLSX.utils.encode_cell({ r: headerRow + rowCount, c: colIndex })}`;
+			this.addValidation(columnSchema, sqref, tab, enumLists);
+		});
+
+		for (let r = 0; r < rowCount; r += 1) {
+			tab.rows.push([]);
+		}
+	}
+
+	/**
+	 * Adds one row per key of a list block, with an empty value cell formatted and validated for the key.
+	 */
+	private static addListRows(blockSchema: JsonSchema, rootSchema: JsonSchema, tab: TemplateTab, enumLists: unknown[][]): void {
+		const properties: Record<string, any> = blockSchema.properties?.items?.items?.properties ?? {};
+
+		Object.entries(properties).forEach(([key, value]) => {
+			const valueSchema: Record<string, any> = SchemaRefResolverUtil.resolveIfRef(value, rootSchema) ?? {};
+			const r = tab.rows.length;
+			tab.rows.push([key]);
+
+			this.addComment(tab, r, 0, valueSchema.description);
+			tab.formats.push([r, 1, this.getNumberFormat(valueSchema)]);
+			this.addValidation(valueSchema, XLSX.utils.encode_cell({ r, c: 1 }), tab, enumLists);
+		});
+	}
+
+	/**
+	 * Adds a hidden comment holding a field description to a header or key cell.
+	 */
+	private static addComment(tab: TemplateTab, r: number, c: number, description: unknown): void {
+		if (typeof description === "string" && description.trim() !== "") {
+			tab.comments.push([r, c, description]);
+		}
+	}
+
+	/**
+	 * Returns the number format of the cells of a field: text for strings, so that codes such as "007" are kept,
+	 * a date format for dates, and a whole-number format for integers.
+	 */
+	private static getNumberFormat(fieldSchema: Record<string, any>): string {
+		const types: string[] = (Array.isArray(fieldSchema.type) ? fieldSchema.type : [fieldSchema.type]).filter((type: unknown) => type !== "null");
+
+		if (types.includes("string") && fieldSchema.format === "date") return "yyyy-mm-dd";
+		if (types.includes("string") && fieldSchema.format === "date-time") return "yyyy-mm-dd hh:mm:ss";
+		if (types.length === 1 && ["string", "object", "array"].includes(types[0])) return "@";
+		if (types.length === 1 && ["integer", "long", "epoch"].includes(types[0])) return "0";
+		return "General";
+	}
+
+	/**
+	 * Adds the data validation of a field, if it has constraints that Excel can check.
+	 * An enum takes precedence, since a cell holds a single validation.
+	 */
+	private static addValidation(fieldSchema: Record<string, any>, sqref: string, tab: TemplateTab, enumLists: unknown[][]): void {
+		const types: string[] = Array.isArray(fieldSchema.type) ? fieldSchema.type : [fieldSchema.type];
+		const attributes = `allowBlank="1" showErrorMessage="1" errorTitle="Invalid value" sqref="${sqref}"`;
+
+		// enum => dropdown
+		const enumValues = GeneratorUtil.getEnumValues(fieldSchema);
+		if (enumValues.length > 0) {
+			const inline = enumValues.map(String).join(",");
+			let formula: string;
+			if (inline.length <= 255 && enumValues.every((value) => !/[,"]/.test(String(value)))) {
+				formula = `"${inline}"`;
+			} else {
+				const column = XLSX.utils.encode_col(enumLists.length);
+				enumLists.push(enumValues);
+				formula = `'${this.ENUM_SHEET_NAME}'!$${column}$1:$${column}$${enumValues.length}`;
+			}
+			tab.validations.push(`<dataValidation type="list" ${attributes} error="Choose a value from the list."><formula1>${this.escapeXml(formula)}</formula1></dataValidation>`);
+			return;
+		}
+
+		// minimum/maximum => numeric range
+		if (fieldSchema.minimum !== undefined || fieldSchema.maximum !== undefined) {
+			const isWhole = !types.includes("number") && types.some((type) => ["integer", "long", "epoch"].includes(type));
+			const kind = isWhole ? "whole number" : "number";
+			tab.validations.push(this.buildRangeValidation(isWhole ? "whole" : "decimal", fieldSchema.minimum, fieldSchema.maximum, attributes, kind, ""));
+			return;
+		}
+
+		// date/date-time => date, since the length of a date cell is that of its serial number
+		if (types.includes("string") && ["date", "date-time"].includes(fieldSchema.format)) {
+			tab.validations.push(`<dataValidation type="date" operator="greaterThanOrEqual" ${attributes} error="Enter a date."><formula1>1</formula1></dataValidation>`);
+			return;
+		}
+
+		// minLength/maxLength => text length
+		if (fieldSchema.minLength !== undefined || fieldSchema.maxLength !== undefined) {
+			tab.validations.push(this.buildRangeValidation("textLength", fieldSchema.minLength, fieldSchema.maxLength, attributes, "text", " characters"));
+		}
+	}
+
+	/**
+	 * Builds a validation that checks a value, or the length of a text, against a range with an optional bound.
+	 */
+	private static buildRangeValidation(type: string, min: number | undefined, max: number | undefined, attributes: string, kind: string, unit: string): string {
+		let operator: string;
+		let error: string;
+		let formulas: string;
+
+		if (min !== undefined && max !== undefined) {
+			operator = "between";
+			error = type === "textLength" ? `Enter a ${kind} of ${min} to ${max}${unit}.` : `Enter a ${kind} between ${min} and ${max}${unit}.`;
+			formulas = `<formula1>${min}</formula1><formula2>${max}</formula2>`;
+		} else if (min !== undefined) {
+			operator = "greaterThanOrEqual";
+			error = `Enter a ${kind} of at least ${min}${unit}.`;
+			formulas = `<formula1>${min}</formula1>`;
+		} else {
+			operator = "lessThanOrEqual";
+			error = `Enter a ${kind} of at most ${max}${unit}.`;
+			formulas = `<formula1>${max}</formula1>`;
+		}
+
+		return `<dataValidation type="${type}" operator="${operator}" ${attributes} error="${this.escapeXml(error)}">${formulas}</dataValidation>`;
+	}
+
+	/**
+	 * Adds the data validations of each tab to the worksheet XML of a written workbook.
+	 * Worksheets are written in tab order, as xl/worksheets/sheet1.xml, sheet2.xml, ...
+	 */
+	private static addDataValidations(buffer: Buffer, validations: string[][]): Buffer {
+		const zip = XLSX.CFB.read(buffer, { type: "buffer" });
+
+		validations.forEach((tabValidations, index) => {
+			if (tabValidations.length === 0) {
+				return;
+			}
+
+			const entry = XLSX.CFB.find(zip, `/xl/worksheets/sheet${index + 1}.xml`);
+			if (!entry) {
+				throw new Error(`Worksheet ${index + 1} not found in the written workbook.`);
+			}
+
+			const xml: string = Buffer.from(entry.content).toString("utf-8");
+			const element = `<dataValidations count="${tabValidations.length}">${tabValidations.join("")}</dataValidations>`;
+			const next = new RegExp(`<(${this.ELEMENTS_AFTER_VALIDATIONS.join("|")})[\\s/>]`).exec(xml);
+			const position = next ? next.index : xml.lastIndexOf("</worksheet>");
+
+			entry.content = Buffer.from(xml.slice(0, position) + element + xml.slice(position), "utf-8");
+		});
+
+		return XLSX.CFB.write(zip, { type: "buffer", fileType: "zip" });
+	}
+
+	/**
+	 * Escapes the XML special characters of an attribute or element value.
+	 */
+	private static escapeXml(value: string): string {
+		return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+	}
+}
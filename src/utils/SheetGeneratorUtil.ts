@@ -1,13 +1,23 @@
 import path from "path";
 import { JsonSchema } from "../beans/JsonSchema";
-import { FileUtil } from "./FileUtil";
 import { GeneratorUtil } from "./GeneratorUtil";
 import { ListGeneratorUtil } from "./ListGeneratorUtil";
 import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
 import { TableGeneratorUtil } from "./TableGeneratorUtil";
 
 export class SheetGeneratorUtil {
-	public static generate(rootSchema: JsonSchema, sheet: JsonSchema, sheetsDir: string, tablesDir: string, listsDir: string, classNames: { sheet: string[]; table: string[]; list: string[]; row: string[] }): void {
+	/**
+	 * Whether a block is generated under "common/": blocks reached through a ref, defined in another schema file,
+	 * or used with the same shape by several workbooks of a project.
+	 * @param block - The block schema, as declared in the sheet
+	 * @param blockSchema - The resolved block schema
+	 * @param sharedBlocks - Names of the blocks shared by several workbooks of the project
+	 */
+	public static isCommonBlock(block: JsonSchema, blockSchema: JsonSchema, rootSchema: JsonSchema, sharedBlocks: Set<string>): boolean {
+		return Boolean(block.$ref) || SchemaRefResolverUtil.isExternal(blockSchema, rootSchema) || sharedBlocks.has(GeneratorUtil.getFirstEnum(blockSchema, "name"));
+	}
+
+	public static generate(rootSchema: JsonSchema, sheet: JsonSchema, sheetsDir: string, tablesDir: string, listsDir: string, classNames: { sheet: string[]; table: string[]; list: string[]; row: string[] }, files: Map<string, string>, generatedBlocks: Set<string> = new Set(), sharedBlocks: Set<string> = new Set()): void {
 		// First, resolve if `sheetSchema` is a $ref
 		const sheetSchema = SchemaRefResolverUtil.resolveIfRef(sheet, rootSchema)!;
 
@@ -39,9 +49,9 @@ export class SheetGeneratorUtil {
 		const blocksImports: string[] = [];
 
 		blockOneOf.forEach((block: JsonSchema) => {
-			const isCommon = Boolean(block.$ref);
-
 			const blockSchema = SchemaRefResolverUtil.resolveIfRef(block, rootSchema)!;
+
+			const isCommon = this.isCommonBlock(block, blockSchema, rootSchema, sharedBlocks);
 			const blockNameEnum = GeneratorUtil.getFirstEnum(blockSchema, "name");
 			const blockEntityEnum = GeneratorUtil.getFirstEnum(blockSchema, "@entity");
 			const blockClassName = GeneratorUtil.sanitizeName(GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(blockNameEnum)), blockEntityEnum === "list" ? "List" : "Table");
@@ -52,10 +62,25 @@ export class SheetGeneratorUtil {
 			const importPath = `../../${importDir}${GeneratorUtil.toKebabCase(blockNameEnum)}/${blockClassName}`;
 			blocksImports.push(`import { ${blockClassName} } from '${importPath}'`);
 
+			// A common block already generated for another workbook of the project only needs its classes registered
+			const blockDirectory = path.posix.join(blockEntityEnum === "table" ? tablesDir : listsDir, "common", GeneratorUtil.toKebabCase(blockNameEnum));
+			if (isCommon && generatedBlocks.has(blockDirectory)) {
+				if (blockEntityEnum === "table") {
+					classNames.table.push(blockClassName);
+					classNames.row.push(blockClassName.replace(/Table$/, "Row"));
+				} else if (blockEntityEnum === "list") {
+					classNames.list.push(blockClassName);
+				}
+				return;
+			}
+			if (isCommon) {
+				generatedBlocks.add(blockDirectory);
+			}
+
 			if (blockEntityEnum === "table") {
-				TableGeneratorUtil.generate(blockSchema, blockNameEnum, tablesDir, classNames, isCommon);
+				TableGeneratorUtil.generate(blockSchema, blockNameEnum, tablesDir, classNames, isCommon, files);
 			} else if (blockEntityEnum === "list") {
-				ListGeneratorUtil.generate(blockSchema, blockNameEnum, listsDir, classNames, isCommon);
+				ListGeneratorUtil.generate(blockSchema, blockNameEnum, listsDir, classNames, isCommon, files);
 			}
 		});
 
@@ -116,6 +141,6 @@ export class ${sheetClassName} extends Sheet {
 }
 `.trim();
 
-		FileUtil.write(path.join(sheetsDir, GeneratorUtil.toKebabCase(sheetNameEnum), `${sheetClassName}.ts`), sheetClassContent);
+		files.set(path.posix.join(sheetsDir, GeneratorUtil.toKebabCase(sheetNameEnum), `${sheetClassName}.ts`), sheetClassContent);
 	}
 }
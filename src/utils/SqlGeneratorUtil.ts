@@ -0,0 +1,276 @@
+import { JsonSchema } from "../beans";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { SchemaDiffUtil } from "./SchemaDiffUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+
+/**
+ * SQL dialects of the generated statements
+ */
+export type SqlDialect = "postgres" | "sqlite";
+
+/**
+ * Utility class that maps a workbook JSON Schema to SQL tables, and workbook JSON instances to inserts into them.
+ *
+ * A workbook gets a `<workbook>_workbook` table of its instances, identified by "id", and a `<workbook>_sheet` table of their sheets.
+ * Each table block gets a `<workbook>_<sheet>_<block>` table with a column per header column, and each list block
+ * a key/value table of the same name. The rows of block tables reference their workbook and sheet through the
+ * "workbook_id" and "sheet_name" foreign-key columns.
+ */
+export class SqlGeneratorUtil {
+	/**
+	 * Words which need quoting as identifiers in Postgres or SQLite
+	 */
+	private static readonly RESERVED_WORDS = new Set([
+		"all", "and", "as", "asc", "between", "by", "case", "check", "column", "constraint", "create", "default", "delete", "desc", "distinct", "else", "end", "except",
+		"exists", "foreign", "from", "group", "having", "in", "index", "insert", "intersect", "into", "is", "join", "key", "limit", "not", "null", "offset", "on", "or",
+		"order", "primary", "references", "select", "set", "table", "then", "to", "union", "unique", "update", "user", "using", "values", "when", "where", "with",
+	]);
+
+	/**
+	 * JSON types stored in a SQL column of their own type, rather than as JSON
+	 */
+	private static readonly SCALAR_TYPES = ["string", "integer", "long", "epoch", "number", "boolean"];
+
+	/**
+	 * Columns generated in every table of a table block, which its header columns cannot use
+	 */
+	private static readonly TABLE_PARENT_COLUMNS = ["workbook_id", "sheet_name", "row_index"];
+
+	/**
+	 * Generates the CREATE TABLE statements of a workbook schema.
+	 * @param schema - The workbook JSON Schema
+	 * @param dialect - The SQL dialect of the statements
+	 * @returns The SQL script
+	 * @throws If a header column of a table is named like a generated column
+	 */
+	public static generateTables(schema: JsonSchema, dialect: SqlDialect = "postgres"): string {
+		const workbookName = GeneratorUtil.getFirstEnum(schema, "name");
+		const sheetSchemas = SchemaDiffUtil.getSheetSchemas(schema);
+		const workbookTable = this.toIdentifier(`${workbookName}_workbook`);
+		const sheetTable = this.toIdentifier(`${workbookName}_sheet`);
+		const statements: string[] = [
+			this.toCreateTable(workbookTable, [`id TEXT PRIMARY KEY`]),
+			this.toCreateTable(sheetTable, [
+				`workbook_id TEXT NOT NULL REFERENCES ${workbookTable} (id)`,
+				`name TEXT NOT NULL CHECK (name IN (${Array.from(sheetSchemas.keys()).map((sheetName) => this.toLiteral(sheetName, dialect)).join(", ")}))`,
+				`PRIMARY KEY (workbook_id, name)`,
+			]),
+		];
+
+		sheetSchemas.forEach((sheetSchema, sheetName) => {
+			SchemaDiffUtil.getBlockSchemas(sheetSchema, schema).forEach((blockSchema, blockName) => {
+				const parentColumns = [
+					`workbook_id TEXT NOT NULL`,
+					`sheet_name TEXT NOT NULL CHECK (sheet_name = ${this.toLiteral(sheetName, dialect)})`,
+				];
+				const foreignKey = `FOREIGN KEY (workbook_id, sheet_name) REFERENCES ${sheetTable} (workbook_id, name)`;
+				const blockTable = this.toIdentifier(`${workbookName}_${sheetName}_${blockName}`);
+
+				if (GeneratorUtil.getFirstEnum(blockSchema, "@entity") === "list") {
+					const keys = Object.keys(SchemaDiffUtil.getListItemSchema(blockSchema, schema)?.properties ?? {});
+					statements.push(this.toCreateTable(blockTable, [
+						...parentColumns,
+						`item_index INTEGER NOT NULL`,
+						`${this.toIdentifier("key")} TEXT NOT NULL${keys.length > 0 ? ` CHECK (${this.toIdentifier("key")} IN (${keys.map((key) => this.toLiteral(key, dialect)).join(", ")}))` : ""}`,
+						`value ${this.toJsonType(dialect)}`,
+						`PRIMARY KEY (workbook_id, item_index, ${this.toIdentifier("key")})`,
+						foreignKey,
+					]));
+				} else {
+					this.checkColumns(Array.from(SchemaDiffUtil.getColumnSchemas(blockSchema, schema).keys()), blockName, workbookName);
+					const columns = Array.from(SchemaDiffUtil.getColumnSchemas(blockSchema, schema).entries()).map(([column, columnSchema]) => this.toColumn(column, SchemaRefResolverUtil.resolveIfRef(columnSchema, schema) ?? {}, dialect));
+					statements.push(this.toCreateTable(blockTable, [
+						...parentColumns,
+						`row_index INTEGER NOT NULL`,
+						...columns,
+						`PRIMARY KEY (workbook_id, row_index)`,
+						foreignKey,
+					]));
+				}
+			});
+		});
+
+		return `${statements.join("\n\n")}\n`;
+	}
+
+	/**
+	 * Generates the INSERT statements of a workbook JSON instance, into the tables generated by {@link generateTables}.
+	 * @param schema - The workbook JSON Schema
+	 * @param workbook - The workbook JSON instance
+	 * @param workbookId - The id of the workbook instance in the workbook table
+	 * @param dialect - The SQL dialect of the statements
+	 * @returns The SQL script, in a transaction
+	 * @throws If a sheet or block of the instance is not in the schema, or a header column of a table is named like a generated column
+	 */
+	public static generateInserts(schema: JsonSchema, workbook: Record<string, any>, workbookId: string, dialect: SqlDialect = "postgres"): string {
+		const workbookName = GeneratorUtil.getFirstEnum(schema, "name");
+		const sheetSchemas = SchemaDiffUtil.getSheetSchemas(schema);
+		const sheets: Record<string, any>[] = Array.isArray(workbook.sheets) ? workbook.sheets : [];
+		const id = this.toLiteral(workbookId, dialect);
+		const statements: string[] = [
+			this.toInsert(this.toIdentifier(`${workbookName}_workbook`), ["id"], [[id]]),
+			this.toInsert(this.toIdentifier(`${workbookName}_sheet`), ["workbook_id", "name"], sheets.map((sheet) => [id, this.toLiteral(sheet.name, dialect)])),
+		];
+
+		sheets.forEach((sheet) => {
+			const sheetSchema = sheetSchemas.get(sheet.name);
+			if (!sheetSchema) {
+				throw new Error(`Sheet "${sheet.name}" is not in the schema of workbook "${workbookName}"`);
+			}
+			const blockSchemas = SchemaDiffUtil.getBlockSchemas(sheetSchema, schema);
+			const sheetName = this.toLiteral(sheet.name, dialect);
+
+			(Array.isArray(sheet.blocks) ? sheet.blocks : []).forEach((block: Record<string, any>) => {
+				const blockSchema = blockSchemas.get(block.name);
+				if (!blockSchema) {
+					throw new Error(`Block "${block.name}" is not in sheet "${sheet.name}" of the schema of workbook "${workbookName}"`);
+				}
+				const blockTable = this.toIdentifier(`${workbookName}_${sheet.name}_${block.name}`);
+
+				if (GeneratorUtil.getFirstEnum(blockSchema, "@entity") === "list") {
+					const values: string[][] = [];
+					(Array.isArray(block.items) ? block.items : []).forEach((item: Record<string, unknown>, index: number) => {
+						Object.entries(item ?? {}).forEach(([key, value]) => values.push([id, sheetName, String(index), this.toLiteral(key, dialect), this.toJsonLiteral(value, dialect)]));
+					});
+					statements.push(this.toInsert(blockTable, ["workbook_id", "sheet_name", "item_index", "key", "value"], values));
+				} else {
+					// Rows are mapped to the columns of the schema by the header of the instance
+					const columnSchemas = SchemaDiffUtil.getColumnSchemas(blockSchema, schema);
+					const columns = Array.from(columnSchemas.keys());
+					this.checkColumns(columns, block.name, workbookName);
+					const header: string[] = Array.isArray(block.header) ? block.header : columns;
+					const unknownColumn = header.find((column) => !columns.includes(column));
+					if (unknownColumn !== undefined) {
+						throw new Error(`Column "${unknownColumn}" is not in table "${block.name}" of the schema of workbook "${workbookName}"`);
+					}
+					// Values of JSON columns are written as JSON text, even strings and numbers
+					const jsonColumns = columns.filter((column) => this.isJsonField(SchemaRefResolverUtil.resolveIfRef(columnSchemas.get(column)!, schema) ?? {}));
+					const toValue = (column: string, value: unknown) => (jsonColumns.includes(column) ? this.toJsonLiteral(value, dialect) : this.toLiteral(value, dialect));
+					const values = (Array.isArray(block.rows) ? block.rows : []).map((row: unknown[], index: number) => [id, sheetName, String(index), ...columns.map((column) => (header.includes(column) ? toValue(column, row?.[header.indexOf(column)]) : "NULL"))]);
+					statements.push(this.toInsert(blockTable, ["workbook_id", "sheet_name", "row_index", ...columns], values));
+				}
+			});
+		});
+
+		return ["BEGIN;", ...statements.filter(Boolean), "COMMIT;", ""].join("\n\n");
+	}
+
+	/**
+	 * Checks that no header column of a table block is named like the columns generated in its table.
+	 * @throws If one is
+	 */
+	private static checkColumns(columns: string[], blockName: string, workbookName: string): void {
+		const clash = columns.find((column) => this.TABLE_PARENT_COLUMNS.includes(column));
+		if (clash !== undefined) {
+			throw new Error(`Column "${clash}" of table "${blockName}" of the schema of workbook "${workbookName}" clashes with the generated column of the same name: rename it`);
+		}
+	}
+
+	/**
+	 * Declares a table column: its SQL type, NOT NULL unless the field is nullable,
+	 * and CHECK constraints from its "minimum", "maximum", "enum", "minLength" and "maxLength".
+	 */
+	private static toColumn(column: string, fieldSchema: Record<string, any>, dialect: SqlDialect): string {
+		const name = this.toIdentifier(column);
+		const types: string[] = (fieldSchema.type === undefined ? [] : Array.isArray(fieldSchema.type) ? fieldSchema.type : [fieldSchema.type]).filter((type: string) => type !== "null");
+		const nullable = fieldSchema.type === undefined || [fieldSchema.type].flat().includes("null") || (Array.isArray(fieldSchema.enum) && fieldSchema.enum.includes(null));
+		const sqlType = this.isJsonField(fieldSchema) ? this.toJsonType(dialect) : this.toSqlType(types[0], fieldSchema.format, dialect);
+
+		const checks: string[] = [];
+		if (types.length === 1 && ["number", "integer", "long", "epoch"].includes(types[0])) {
+			const comparisons: Array<[string, string]> = [["minimum", ">="], ["exclusiveMinimum", ">"], ["maximum", "<="], ["exclusiveMaximum", "<"]];
+			comparisons.filter(([keyword]) => typeof fieldSchema[keyword] === "number").forEach(([keyword, operator]) => checks.push(`${name} ${operator} ${fieldSchema[keyword]}`));
+		}
+		if (types.length === 1 && types[0] === "string") {
+			if (typeof fieldSchema.minLength === "number") checks.push(`length(${name}) >= ${fieldSchema.minLength}`);
+			if (typeof fieldSchema.maxLength === "number") checks.push(`length(${name}) <= ${fieldSchema.maxLength}`);
+		}
+		const enumValues = GeneratorUtil.getEnumValues(fieldSchema);
+		if (enumValues.length > 0 && types.length === 1) {
+			checks.push(`${name} IN (${enumValues.map((value) => this.toLiteral(value, dialect)).join(", ")})`);
+		}
+
+		return `${name} ${sqlType}${nullable ? "" : " NOT NULL"}${checks.map((check) => ` CHECK (${check})`).join("")}`;
+	}
+
+	/**
+	 * Maps a JSON type of the schema to a SQL type. Objects, arrays and values of several types are stored as JSON.
+	 */
+	private static toSqlType(type: string, format: string | undefined, dialect: SqlDialect): string {
+		const isPostgres = dialect === "postgres";
+		switch (type) {
+			case "string":
+				if (isPostgres && format === "date") return "DATE";
+				if (isPostgres && format === "date-time") return "TIMESTAMPTZ";
+				return "TEXT";
+			case "integer":
+				return "INTEGER";
+			case "long":
+			case "epoch":
+				return isPostgres ? "BIGINT" : "INTEGER";
+			case "number":
+				return isPostgres ? "DOUBLE PRECISION" : "REAL";
+			case "boolean":
+				return isPostgres ? "BOOLEAN" : "INTEGER";
+			default:
+				return this.toJsonType(dialect);
+		}
+	}
+
+	/**
+	 * Whether a field is stored as JSON: objects, arrays, and values of several types or of any type.
+	 */
+	private static isJsonField(fieldSchema: Record<string, any>): boolean {
+		const types: string[] = (fieldSchema.type === undefined ? [] : [fieldSchema.type].flat()).filter((type: string) => type !== "null");
+		return types.length !== 1 || !this.SCALAR_TYPES.includes(types[0]);
+	}
+
+	private static toJsonType(dialect: SqlDialect): string {
+		return dialect === "postgres" ? "JSONB" : "TEXT";
+	}
+
+	/**
+	 * Writes a value as a SQL literal. Objects and arrays are written as JSON text, and booleans as 1 or 0 in SQLite.
+	 */
+	private static toLiteral(value: unknown, dialect: SqlDialect): string {
+		if (value === null || value === undefined) {
+			return "NULL";
+		}
+		if (typeof value === "boolean") {
+			return dialect === "postgres" ? String(value).toUpperCase() : value ? "1" : "0";
+		}
+		if (typeof value === "number") {
+			return Number.isFinite(value) ? String(value) : "NULL";
+		}
+		const text = typeof value === "string" ? value : JSON.stringify(value);
+		return `'${text.replace(/'/g, "''")}'`;
+	}
+
+	/**
+	 * Writes a value of a JSON column as a SQL literal of its JSON text.
+	 */
+	private static toJsonLiteral(value: unknown, dialect: SqlDialect): string {
+		return value === null || value === undefined ? "NULL" : this.toLiteral(JSON.stringify(value), dialect);
+	}
+
+	/**
+	 * Quotes a name as a SQL identifier, unless it is a plain lowercase name.
+	 */
+	private static toIdentifier(name: string): string {
+		return /^[a-z_][a-z0-9_]*$/.test(name) && !this.RESERVED_WORDS.has(name) ? name : `"${name.replace(/"/g, '""')}"`;
+	}
+
+	private static toCreateTable(table: string, definitions: string[]): string {
+		return `CREATE TABLE ${table} (\n${definitions.map((definition) => `    ${definition}`).join(",\n")}\n);`;
+	}
+
+	/**
+	 * Writes a multi-row INSERT statement, or nothing if there are no rows.
+	 */
+	private static toInsert(table: string, columns: string[], values: string[][]): string {
+		if (values.length === 0) {
+			return "";
+		}
+		return `INSERT INTO ${table} (${columns.map((column) => this.toIdentifier(column)).join(", ")}) VALUES\n${values.map((row) => `    (${row.join(", ")})`).join(",\n")};`;
+	}
+}
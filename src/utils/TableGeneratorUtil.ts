@@ -1,26 +1,29 @@
 import path from "path";
 import { JsonSchema } from "../beans/JsonSchema";
-import { FileUtil } from "./FileUtil";
 import { GeneratorUtil } from "./GeneratorUtil";
+import { ValidationGeneratorUtil } from "./ValidationGeneratorUtil";
 
 export class TableGeneratorUtil {
-	public static generate(blockSchema: JsonSchema, blockName: string, tablesDir: string, classNames: { table: string[]; row: string[] }, isCommon: boolean) {
+	public static generate(blockSchema: JsonSchema, blockName: string, tablesDir: string, classNames: { table: string[]; row: string[] }, isCommon: boolean, files: Map<string, string>) {
 		const blockClassName = GeneratorUtil.sanitizeName(GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(blockName)), "Table");
 
 		const headerItems = blockSchema.properties?.header?.items || [];
 		const headerEnum = Array.isArray(headerItems) ? headerItems.map((item) => item.enum?.[0]) : [];
 
 		const tableDirectoryName = GeneratorUtil.toKebabCase(blockName);
-		const tableDirectory = isCommon ? path.join(tablesDir, "common", tableDirectoryName) : path.join(tablesDir, tableDirectoryName);
+		const tableDirectory = isCommon ? path.posix.join(tablesDir, "common", tableDirectoryName) : path.posix.join(tablesDir, tableDirectoryName);
 
 		classNames.table.push(blockClassName);
 
 		const rowClassName = blockClassName.replace(/Table$/, "Row");
+		const validationImportPath = ValidationGeneratorUtil.getImportPath(isCommon);
 
 		const tableClass = `${GeneratorUtil.AUTO_GEN_COMMENT}import { JSONArray } from '@org-quicko/core';
 import { Table } from '@org-quicko/sheet';
+import { ValidateBy } from 'class-validator';
 import 'reflect-metadata';
 import { ${rowClassName} } from './${rowClassName}';
+import { Violation } from '${validationImportPath}';
 
 @Reflect.metadata('name', '${blockName}')
 export class ${blockClassName} extends Table {
@@ -46,19 +49,44 @@ export class ${blockClassName} extends Table {
     override replaceRow(index: number, row: ${rowClassName}): void {
         super.replaceRow(index, row);
     }
+
+    /**
+     * Validates every cell of the table against the constraints of its column.
+     */
+    validate(): Array<Violation> {
+        const violations = new Array<Violation>();
+        for (let index = 0; index < this.length(); index += 1) {
+            violations.push(...this.getRow(index).validate(index));
+        }
+        return violations;
+    }
+
+    @ValidateBy({
+        name: 'validCells',
+        validator: {
+            validate: (violations: Array<Violation>) => violations.length === 0,
+            defaultMessage: (args) => \`${blockName} has \${(args?.value as Array<Violation>).length} invalid cell(s)\`,
+        },
+    })
+    get violations(): Array<Violation> {
+        return this.validate();
+    }
 }`.trim();
 
-		FileUtil.write(path.join(tableDirectory, `${blockClassName}.ts`), tableClass);
+		files.set(path.posix.join(tableDirectory, `${blockClassName}.ts`), tableClass);
 
 		classNames.row.push(rowClassName);
 
+		// interfaces for nested object columns
+		const declarations: string[] = [];
+
 		// generate all getter/setter pairs
 		const gettersSetters = headerEnum
 			.map((header: string, index: number) => {
 				const camelCaseHeader = GeneratorUtil.toCamelCase(header);
 				const validVarName = /^[0-9]/.test(camelCaseHeader) ? `_${camelCaseHeader}` : camelCaseHeader;
 
-				const type = GeneratorUtil.getTypeScriptType(blockSchema.properties?.rows?.items?.items?.[index]?.type);
+				const type = GeneratorUtil.getNestedTypeScriptType(blockSchema.properties?.rows?.items?.items?.[index], `${rowClassName}${GeneratorUtil.capitalize(camelCaseHeader)}`, declarations);
 
 				return `
 
@@ -73,23 +101,43 @@ export class ${blockClassName} extends Table {
 			})
 			.join("\n");
 
+		const nestedTypes = declarations.length > 0 ? `${declarations.join("\n\n")}\n\n` : "";
+
 		let orgQuickoImports;
-		if (gettersSetters.includes("JSONObject")) {
+		if (gettersSetters.includes("JSONObject") || nestedTypes.includes("JSONObject")) {
 			orgQuickoImports = `import { JSONObject`;
 		}
-		if (gettersSetters.includes("JSONArray")) {
+		if (gettersSetters.includes("JSONArray") || nestedTypes.includes("JSONArray")) {
 			orgQuickoImports = orgQuickoImports ? `${orgQuickoImports}, JSONArray` : `import { JSONArray`;
 		}
 		if (orgQuickoImports) {
 			orgQuickoImports += ` } from '@org-quicko/core';\n`;
 		}
 
+		const constraints = headerEnum.map((header: string, index: number) => `['${header}', ${ValidationGeneratorUtil.getConstraints(blockSchema.properties?.rows?.items?.items?.[index])}]`);
+
 		const rowClass = `${GeneratorUtil.AUTO_GEN_COMMENT}${orgQuickoImports || ""}import { Row } from '@org-quicko/sheet';
+import { Constraints, validateCell, Violation } from '${validationImportPath}';
 
-export class ${rowClassName} extends Row {
+${nestedTypes}export class ${rowClassName} extends Row {
+    private static constraints: Array<[string, Constraints]> = [
+        ${constraints.join(",\n\t\t")}
+    ];
 ${gettersSetters}
+
+    /**
+     * Validates every cell of the row against the constraints of its column.
+     * @param rowIndex - The index of the row in its table, reported in the violations
+     */
+    validate(rowIndex: number = 0): Array<Violation> {
+        const violations = new Array<Violation>();
+        ${rowClassName}.constraints.forEach(([column, constraints], index) => {
+            violations.push(...validateCell(column, rowIndex, this[index], constraints));
+        });
+        return violations;
+    }
 }`.trim();
 
-		FileUtil.write(path.join(tableDirectory, `${rowClassName}.ts`), rowClass);
+		files.set(path.posix.join(tableDirectory, `${rowClassName}.ts`), rowClass);
 	}
 }
@@ -0,0 +1,152 @@
+import path from "path";
+import { GeneratorUtil } from "./GeneratorUtil";
+
+/**
+ * Utility class that generates the validation helpers used by the generated Row and List classes,
+ * and the constraints they check for each column or key.
+ */
+export class ValidationGeneratorUtil {
+	/**
+	 * The name of the generated file holding the validation helpers.
+	 */
+	public static readonly FILE_NAME = "CellValidator";
+
+	/**
+	 * Generate the validation helpers, built on the class-validator package.
+	 * @param validationDir - The directory to output the generated file to, relative to the output directory.
+	 * @param files - The generated files, by path relative to the output directory.
+	 */
+	public static generate(validationDir: string, files: Map<string, string>): void {
+		const content = `${GeneratorUtil.AUTO_GEN_COMMENT}import { Item } from '@org-quicko/sheet';
+import { isArray, isBoolean, isEmail, isIn, isInt, isISO8601, isNumber, isObject, isString, isURL, isUUID, matches, max, maxLength, min, minLength } from 'class-validator';
+
+/**
+ * A table cell or list item that violates a constraint of the schema.
+ * For a list, the column is the item key and the row is the item index.
+ */
+export interface Violation {
+    column: string;
+    row: number;
+    rule: string;
+    value: unknown;
+}
+
+/**
+ * The constraints of a table column or list key, taken from the schema.
+ */
+export interface Constraints {
+    type?: string[];
+    nullable?: boolean;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    enum?: unknown[];
+    format?: string;
+}
+
+const TYPE_CHECKS: Record<string, (value: unknown) => boolean> = {
+    string: (value) => isString(value),
+    number: (value) => isNumber(value),
+    integer: (value) => isInt(value),
+    long: (value) => isInt(value),
+    epoch: (value) => isInt(value),
+    boolean: (value) => isBoolean(value),
+    object: (value) => isObject(value) && !isArray(value),
+    array: (value) => isArray(value),
+};
+
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+    date: (value) => matches(value, /^\\d{4}-\\d{2}-\\d{2}$/) && isISO8601(value, { strict: true }),
+    'date-time': (value) => isISO8601(value, { strict: true }),
+    email: (value) => isEmail(value),
+    uri: (value) => isURL(value, { require_tld: false }),
+    uuid: (value) => isUUID(value),
+};
+
+/**
+ * Validates a single table cell or list item value against its constraints.
+ */
+export function validateCell(column: string, row: number, value: unknown, constraints: Constraints): Array<Violation> {
+    const rules = new Array<string>();
+
+    if (value === null || value === undefined) {
+        if (constraints.nullable === false) {
+            rules.push('nullable');
+        }
+    } else if (constraints.type && !constraints.type.some((type) => TYPE_CHECKS[type]?.(value) ?? true)) {
+        rules.push('type');
+    } else {
+        if (constraints.minimum !== undefined && isNumber(value) && !min(value, constraints.minimum)) rules.push('minimum');
+        if (constraints.maximum !== undefined && isNumber(value) && !max(value, constraints.maximum)) rules.push('maximum');
+        if (constraints.minLength !== undefined && isString(value) && !minLength(value, constraints.minLength)) rules.push('minLength');
+        if (constraints.maxLength !== undefined && isString(value) && !maxLength(value, constraints.maxLength)) rules.push('maxLength');
+        if (constraints.pattern !== undefined && isString(value) && !matches(value, new RegExp(constraints.pattern))) rules.push('pattern');
+        if (constraints.format !== undefined && isString(value) && !(FORMAT_CHECKS[constraints.format]?.(value) ?? true)) rules.push('format');
+        if (constraints.enum !== undefined && !isIn(value, constraints.enum)) rules.push('enum');
+    }
+
+    return rules.map((rule) => ({ column, row, rule, value }));
+}
+
+/**
+ * Validates the items of a list against the constraints of their keys.
+ */
+export function validateItems(items: Array<Item>, constraints: Record<string, Constraints>): Array<Violation> {
+    const violations = new Array<Violation>();
+
+    items.forEach((item, index) => {
+        const key = item.getKey();
+        if (!(key in constraints)) {
+            violations.push({ column: key, row: index, rule: 'additionalProperties', value: item.getValue() });
+            return;
+        }
+        violations.push(...validateCell(key, index, item.getValue(), constraints[key]));
+    });
+
+    return violations;
+}
+`;
+
+		files.set(path.posix.join(validationDir, `${this.FILE_NAME}.ts`), content);
+	}
+
+	/**
+	 * Converts the schema of a table column or list key into a constraints object literal.
+	 * @param fieldSchema - The JSON Schema of the column or key
+	 * @returns The constraints as TypeScript source
+	 */
+	public static getConstraints(fieldSchema: Record<string, any> | undefined): string {
+		const constraints: Record<string, any> = {};
+		if (!fieldSchema) {
+			return "{}";
+		}
+
+		if (fieldSchema.type !== undefined) {
+			const types: string[] = Array.isArray(fieldSchema.type) ? fieldSchema.type : [fieldSchema.type];
+			constraints.type = types.filter((t) => t !== "null");
+			constraints.nullable = types.includes("null");
+		}
+
+		["minimum", "maximum", "minLength", "maxLength", "pattern", "format"].forEach((keyword) => {
+			if (fieldSchema[keyword] !== undefined) {
+				constraints[keyword] = fieldSchema[keyword];
+			}
+		});
+
+		if (fieldSchema.enum !== undefined) {
+			constraints.enum = GeneratorUtil.getEnumValues(fieldSchema);
+		}
+
+		return JSON.stringify(constraints);
+	}
+
+	/**
+	 * Returns the path of the validation helpers, relative to the directory of a generated block.
+	 * @param isCommon - Whether the block is generated in the "common" directory
+	 */
+	public static getImportPath(isCommon: boolean): string {
+		return `${isCommon ? "../../../" : "../../"}validation/${this.FILE_NAME}`;
+	}
+}
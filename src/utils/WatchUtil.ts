@@ -0,0 +1,173 @@
+import fs from "fs";
+import path from "path";
+import { FileUtil } from "./FileUtil";
+
+/**
+ * Options for watching input files
+ */
+export interface WatchOptions {
+	extensions: string[]; // extensions of the files to watch, e.g. [".xlsx", ".xls"]
+	excludedDirectories?: string[]; // directories whose files are not watched, e.g. an output directory inside the input directory
+	debounceMs?: number; // time without changes to wait for before handling them
+	onError: (error: unknown) => void; // called with the errors of the watcher and of the change handler, which do not stop watching
+}
+
+/**
+ * Watcher of input files
+ */
+export interface Watcher {
+	close(): void; // stops watching
+}
+
+/**
+ * Utility class for watching input files and re-running generation when they change.
+ */
+export class WatchUtil {
+	/**
+	 * Default time without changes to wait for, long enough to cover the bursts of writes of an editor saving a file
+	 */
+	public static readonly DEBOUNCE_MS = 300;
+
+	/**
+	 * Names of the lock and temporary files of editors, e.g. "~$tax.xlsx" (Excel), ".~lock.tax.xlsx#" (LibreOffice) or "tax.json~"
+	 */
+	private static readonly IGNORED_FILE_PATTERN = /^~\$|^\.~lock\.|~$|\.(tmp|swp)$/i;
+
+	/**
+	 * Watches a file, or the files of a directory and its subdirectories, calling the handler with the changed files
+	 * once their changes settle. Deleted files are passed too, so that the handler can check whether they still exist.
+	 * Each directory is watched on its own, since recursive watching is not supported on Linux before Node 20,
+	 * and directories created later are watched as they appear, their files being passed as changed.
+	 * @param inputPath Path of the file or directory to watch
+	 * @param options The files to watch, and the error handler
+	 * @param onChange The handler, called with the absolute paths of the changed files
+	 * @returns The watcher, to close to stop watching
+	 */
+	public static watch(inputPath: string, options: WatchOptions, onChange: (files: string[]) => void): Watcher {
+		const watchedPath = path.resolve(inputPath);
+		const isDirectory = fs.lstatSync(watchedPath).isDirectory();
+
+		// Editors often replace a file on save, so a single file is watched through its directory
+		const directory = isDirectory ? watchedPath : path.dirname(watchedPath);
+		const excludedDirectories = (options.excludedDirectories ?? []).map((excluded) => path.resolve(excluded));
+
+		const changedFiles = new Set<string>();
+		let timer: NodeJS.Timeout | undefined;
+
+		const flush = () => {
+			const files = Array.from(changedFiles);
+			changedFiles.clear();
+			try {
+				onChange(files);
+			} catch (error) {
+				options.onError(error);
+			}
+		};
+
+		const addChangedFile = (filePath: string) => {
+			if (!this.isWatched(filePath, watchedPath, isDirectory, excludedDirectories, options.extensions)) {
+				return;
+			}
+
+			changedFiles.add(filePath);
+			clearTimeout(timer);
+			timer = setTimeout(flush, options.debounceMs ?? this.DEBOUNCE_MS);
+		};
+
+		// Watchers by directory
+		const watchers = new Map<string, fs.FSWatcher>();
+
+		const unwatchDirectory = (removed: string) => {
+			watchers.forEach((watcher, watchedDirectory) => {
+				if (watchedDirectory === removed || watchedDirectory.startsWith(removed + path.sep)) {
+					watcher.close();
+					watchers.delete(watchedDirectory);
+				}
+			});
+		};
+
+		const watchDirectory = (watched: string) => {
+			if (watchers.has(watched) || (watched !== directory && this.isExcluded(watched, excludedDirectories))) {
+				return;
+			}
+
+			const watcher = fs.watch(watched, (_event, fileName) => {
+				if (!fileName) {
+					return;
+				}
+
+				const filePath = path.join(watched, fileName.toString());
+				if (!isDirectory) {
+					addChangedFile(filePath);
+				} else if (this.isDirectory(filePath)) {
+					// A directory created or moved in, with the files it may already hold
+					watchDirectory(filePath);
+					FileUtil.getAllFiles(filePath).forEach(addChangedFile);
+				} else {
+					if (watchers.has(filePath)) {
+						unwatchDirectory(filePath);
+					}
+					addChangedFile(filePath);
+				}
+			});
+			watcher.on("error", (error) => {
+				// The directory itself was deleted
+				if (!fs.existsSync(watched)) {
+					unwatchDirectory(watched);
+					return;
+				}
+				options.onError(error);
+			});
+			watchers.set(watched, watcher);
+
+			if (isDirectory) {
+				fs.readdirSync(watched, { withFileTypes: true })
+					.filter((entry) => entry.isDirectory())
+					.forEach((entry) => watchDirectory(path.join(watched, entry.name)));
+			}
+		};
+
+		watchDirectory(directory);
+
+		return {
+			close: () => {
+				clearTimeout(timer);
+				watchers.forEach((watcher) => watcher.close());
+				watchers.clear();
+			},
+		};
+	}
+
+	/**
+	 * Whether a file is a lock or temporary file of an editor, e.g. "~$tax.xlsx" while Excel has "tax.xlsx" open.
+	 */
+	public static isTemporaryFile(filePath: string): boolean {
+		return this.IGNORED_FILE_PATTERN.test(path.basename(filePath));
+	}
+
+	private static isDirectory(filePath: string): boolean {
+		try {
+			return fs.lstatSync(filePath).isDirectory();
+		} catch {
+			return false;
+		}
+	}
+
+	private static isExcluded(filePath: string, excludedDirectories: string[]): boolean {
+		return excludedDirectories.some((excluded) => filePath === excluded || filePath.startsWith(excluded + path.sep));
+	}
+
+	/**
+	 * Whether a changed file is one of the watched files.
+	 */
+	private static isWatched(filePath: string, watchedPath: string, isDirectory: boolean, excludedDirectories: string[], extensions: string[]): boolean {
+		if (!isDirectory) {
+			return filePath === watchedPath;
+		}
+
+		if (this.isTemporaryFile(filePath) || !extensions.some((extension) => filePath.toLowerCase().endsWith(extension))) {
+			return false;
+		}
+		return !this.isExcluded(filePath, excludedDirectories);
+	}
+}
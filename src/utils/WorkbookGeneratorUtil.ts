@@ -1,10 +1,10 @@
 import path from "path";
 import { JsonSchema } from "../beans/JsonSchema";
-import { FileUtil } from "./FileUtil";
 import { GeneratorUtil } from "./GeneratorUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
 
 export class WorkbookGeneratorUtil {
-	public static generate(schema: JsonSchema, sheetSchemas: JsonSchema[], workbookDir: string, classNames: { workbook: string[] }): void {
+	public static generate(schema: JsonSchema, sheetSchemas: JsonSchema[], workbookDir: string, classNames: { workbook: string[] }, files: Map<string, string>): void {
 		const workbookNameEnum = GeneratorUtil.getFirstEnum(schema, "name");
 		const workbookClassName = GeneratorUtil.sanitizeName(GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(workbookNameEnum)), "Workbook");
 
@@ -15,7 +15,8 @@ export class WorkbookGeneratorUtil {
 		const sheetImports: string[] = [];
 		const sheetMethods: string[] = [];
 
-		sheetSchemas.forEach((sheetSchema) => {
+		sheetSchemas.forEach((sheet) => {
+			const sheetSchema = SchemaRefResolverUtil.resolveIfRef(sheet, schema)!;
 			const sheetNameEnum = GeneratorUtil.getFirstEnum(sheetSchema, "name");
 			const sheetClassName = GeneratorUtil.sanitizeName(GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(sheetNameEnum)), "Sheet");
 
@@ -59,8 +60,8 @@ export class ${workbookClassName} extends Workbook {
     constructor() {
         super();
         ${sheetSchemas
-			.map((sheetSchema) => {
-				const sheetNameEnum = GeneratorUtil.getFirstEnum(sheetSchema, "name");
+			.map((sheet) => {
+				const sheetNameEnum = GeneratorUtil.getFirstEnum(SchemaRefResolverUtil.resolveIfRef(sheet, schema)!, "name");
 				const sheetClassName = GeneratorUtil.sanitizeName(GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(sheetNameEnum)), "Sheet");
 				return `this.sheets.push(new ${sheetClassName}());`;
 			})
@@ -70,6 +71,6 @@ export class ${workbookClassName} extends Workbook {
 }
 `.trim();
 
-		FileUtil.write(path.join(workbookDir, `${workbookClassName}.ts`), workbookClass);
+		files.set(path.posix.join(workbookDir, `${workbookClassName}.ts`), workbookClass);
 	}
 }
@@ -0,0 +1,306 @@
+import { Block, JsonSchema, Sheet, ValidationIssue, Workbook } from "../beans";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+
+/**
+ * Where in the workbook a value sits, down to the block
+ */
+interface Location {
+	sheet?: string;
+	block?: string;
+	entity?: string;
+}
+
+/**
+ * Utility class that validates a workbook JSON instance against its JSON Schema,
+ * reporting issues by sheet, block, row and column instead of JSON pointers.
+ */
+export class WorkbookValidatorUtil {
+	/**
+	 * Validates a workbook against its schema.
+	 * @param data The workbook JSON instance
+	 * @param schema The workbook JSON Schema
+	 * @returns The issues found, empty if the workbook is valid
+	 */
+	public static validate(data: Workbook, schema: JsonSchema): ValidationIssue[] {
+		const issues: ValidationIssue[] = [];
+
+		if (!data || typeof data !== "object" || Array.isArray(data)) {
+			issues.push({ rule: "type", message: `expected a workbook object, got ${this.getJsonType(data)}` });
+			return issues;
+		}
+
+		this.checkIdentity(data, schema, {}, "workbook", issues);
+
+		const sheetsSchema = SchemaRefResolverUtil.resolveIfRef(schema.properties?.sheets, schema);
+		const sheetsItems = SchemaRefResolverUtil.resolveIfRef(sheetsSchema?.items, schema);
+		if (!sheetsItems) {
+			throw new Error(`Invalid JSON Schema: "sheets" definition not found or malformed.`);
+		}
+		const sheetSchemas = this.byName(sheetsItems.oneOf || [sheetsItems], schema);
+
+		if (!Array.isArray(data.sheets)) {
+			issues.push({ rule: "type", message: `expected sheets to be an array, got ${this.getJsonType(data.sheets)}` });
+			return issues;
+		}
+
+		data.sheets.forEach((sheet) => {
+			const sheetSchema = sheetSchemas.get(sheet?.name);
+			if (!sheetSchema) {
+				issues.push({ sheet: sheet?.name, rule: "oneOf", message: `unknown sheet \`${sheet?.name}\`` });
+				return;
+			}
+			this.validateSheet(sheet, sheetSchema, schema, issues);
+		});
+
+		return issues;
+	}
+
+	/**
+	 * Formats an issue in domain terms, e.g.
+	 * "sheet `income`, table `salary_table`, row 14, column `amount`: expected number, got string"
+	 */
+	public static format(issue: ValidationIssue): string {
+		const parts: string[] = [];
+		if (issue.sheet !== undefined) parts.push(`sheet \`${issue.sheet}\``);
+		if (issue.block !== undefined) parts.push(`${issue.entity ?? "block"} \`${issue.block}\``);
+		if (issue.row !== undefined) parts.push(`${issue.entity === "list" ? "item" : "row"} ${issue.row}`);
+		if (issue.column !== undefined) parts.push(`${issue.entity === "list" ? "key" : "column"} \`${issue.column}\``);
+
+		return `${parts.length > 0 ? parts.join(", ") : "workbook"}: ${issue.message}`;
+	}
+
+	/**
+	 * Validates a sheet and each of its blocks.
+	 */
+	private static validateSheet(sheet: Sheet, sheetSchema: JsonSchema, rootSchema: JsonSchema, issues: ValidationIssue[]): void {
+		const location: Location = { sheet: sheet.name };
+		this.checkIdentity(sheet, sheetSchema, location, "sheet", issues);
+
+		const blocksSchema = SchemaRefResolverUtil.resolveIfRef(sheetSchema.properties?.blocks, rootSchema);
+		const blockItems = SchemaRefResolverUtil.resolveIfRef(blocksSchema?.items, rootSchema);
+		const blockSchemas = this.byName(blockItems?.oneOf || [], rootSchema);
+
+		if (!Array.isArray(sheet.blocks)) {
+			issues.push({ ...location, rule: "type", message: `expected blocks to be an array, got ${this.getJsonType(sheet.blocks)}` });
+			return;
+		}
+
+		sheet.blocks.forEach((block) => {
+			const blockSchema = blockSchemas.get(block?.name);
+			if (!blockSchema) {
+				issues.push({ ...location, block: block?.name, rule: "oneOf", message: `unknown block \`${block?.name}\`` });
+				return;
+			}
+
+			const entity = GeneratorUtil.getFirstEnum(blockSchema, "@entity");
+			const blockLocation: Location = { ...location, block: block.name, entity };
+			if (!this.checkIdentity(block, blockSchema, blockLocation, "block", issues)) {
+				return;
+			}
+
+			if (entity === "table") {
+				this.validateTable(block, blockSchema, rootSchema, blockLocation, issues);
+			} else if (entity === "list") {
+				this.validateList(block, blockSchema, rootSchema, blockLocation, issues);
+			}
+		});
+	}
+
+	/**
+	 * Validates the header and every cell of a table block.
+	 */
+	private static validateTable(block: Block, blockSchema: JsonSchema, rootSchema: JsonSchema, location: Location, issues: ValidationIssue[]): void {
+		const headerItems = blockSchema.properties?.header?.items;
+		const expectedHeader: string[] = Array.isArray(headerItems) ? headerItems.map((item: JsonSchema) => item.enum?.[0] ?? "") : [];
+		const columnSchemas = blockSchema.properties?.rows?.items?.items;
+
+		// Trailing columns may be left out down to the schema's "minItems"
+		const [minHeader, maxHeader] = this.getItemCounts(blockSchema.properties?.header, expectedHeader.length);
+		const [minCells, maxCells] = this.getItemCounts(blockSchema.properties?.rows?.items, expectedHeader.length);
+
+		// header
+		if (!Array.isArray(block.header)) {
+			issues.push({ ...location, rule: "type", message: `expected header to be an array, got ${this.getJsonType(block.header)}` });
+		} else {
+			if (block.header.length < minHeader || block.header.length > maxHeader) {
+				issues.push({ ...location, rule: block.header.length < minHeader ? "minItems" : "maxItems", message: `expected ${this.formatCount(minHeader, maxHeader)} header cells, got ${block.header.length}` });
+			}
+			expectedHeader.forEach((column, index) => {
+				if (index < block.header!.length && block.header![index] !== column) {
+					issues.push({ ...location, column, rule: "enum", message: `expected header \`${column}\` at position ${index}, got \`${block.header![index]}\``, value: block.header![index] });
+				}
+			});
+		}
+
+		// rows
+		if (!Array.isArray(block.rows)) {
+			issues.push({ ...location, rule: "type", message: `expected rows to be an array, got ${this.getJsonType(block.rows)}` });
+			return;
+		}
+
+		block.rows.forEach((row, rowIndex) => {
+			if (!Array.isArray(row)) {
+				issues.push({ ...location, row: rowIndex, rule: "type", message: `expected row to be an array, got ${this.getJsonType(row)}`, value: row });
+				return;
+			}
+			if (row.length < minCells || row.length > maxCells) {
+				issues.push({ ...location, row: rowIndex, rule: row.length < minCells ? "minItems" : "maxItems", message: `expected ${this.formatCount(minCells, maxCells)} cells, got ${row.length}` });
+			}
+
+			expectedHeader.forEach((column, colIndex) => {
+				if (colIndex < row.length) {
+					const columnSchema = Array.isArray(columnSchemas) ? columnSchemas[colIndex] : null;
+					this.checkValue(row[colIndex], columnSchema, rootSchema, { ...location, row: rowIndex, column }, issues);
+				}
+			});
+		});
+	}
+
+	/**
+	 * Returns the "minItems" and "maxItems" of a header or row schema, by default the number of columns.
+	 */
+	private static getItemCounts(schema: JsonSchema | undefined, columns: number): [number, number] {
+		return [typeof schema?.minItems === "number" ? schema.minItems : columns, typeof schema?.maxItems === "number" ? schema.maxItems : columns];
+	}
+
+	private static formatCount(min: number, max: number): string {
+		return min === max ? `${min}` : `${min} to ${max}`;
+	}
+
+	/**
+	 * Validates every item of a list block.
+	 */
+	private static validateList(block: Block, blockSchema: JsonSchema, rootSchema: JsonSchema, location: Location, issues: ValidationIssue[]): void {
+		const itemSchema = SchemaRefResolverUtil.resolveIfRef(blockSchema.properties?.items?.items, rootSchema);
+		const properties = itemSchema?.properties ?? {};
+
+		if (!Array.isArray(block.items)) {
+			issues.push({ ...location, rule: "type", message: `expected items to be an array, got ${this.getJsonType(block.items)}` });
+			return;
+		}
+
+		block.items.forEach((item, itemIndex) => {
+			if (!item || typeof item !== "object" || Array.isArray(item)) {
+				issues.push({ ...location, row: itemIndex, rule: "type", message: `expected item to be an object, got ${this.getJsonType(item)}`, value: item });
+				return;
+			}
+
+			Object.entries(item).forEach(([key, value]) => {
+				if (key in properties) {
+					this.checkValue(value, properties[key], rootSchema, { ...location, row: itemIndex, column: key }, issues);
+				} else if ((itemSchema as Record<string, any>)?.additionalProperties === false) {
+					issues.push({ ...location, row: itemIndex, column: key, rule: "additionalProperties", message: `unknown key \`${key}\``, value });
+				}
+			});
+		});
+	}
+
+	/**
+	 * Checks the "name" and "@entity" of a workbook, sheet or block against the enums of its schema.
+	 * @returns Whether both match
+	 */
+	private static checkIdentity(node: { name?: string; "@entity"?: string }, nodeSchema: JsonSchema, location: Location, kind: string, issues: ValidationIssue[]): boolean {
+		let matches = true;
+
+		["name", "@entity"].forEach((property) => {
+			const expected = nodeSchema.properties?.[property]?.enum;
+			const actual = (node as Record<string, any>)[property];
+			if (Array.isArray(expected) && !expected.includes(actual)) {
+				issues.push({ ...location, rule: "enum", message: `expected ${kind} ${property} \`${expected[0]}\`, got \`${actual}\``, value: actual });
+				matches = false;
+			}
+		});
+
+		return matches;
+	}
+
+	/**
+	 * Checks a cell or item value against its field schema, recursing into nested objects and arrays.
+	 * Following the Excel schemas, a null is checked against the type only.
+	 */
+	private static checkValue(value: unknown, fieldSchema: Record<string, any> | null | undefined, rootSchema: JsonSchema, location: Location & { row?: number; column: string }, issues: ValidationIssue[]): void {
+		const schema: Record<string, any> | null = SchemaRefResolverUtil.resolveIfRef(fieldSchema ?? null, rootSchema);
+		if (!schema) {
+			return;
+		}
+
+		const report = (rule: string, message: string) => issues.push({ ...location, rule, message, value });
+		const actualType = this.getJsonType(value);
+
+		// type
+		if (schema.type !== undefined) {
+			const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+			const numberTypes = ["number", "long", "epoch"];
+			const typeMatches = types.some((type) => type === actualType || (actualType === "integer" && numberTypes.includes(type)) || (actualType === "number" && type === "number"));
+			if (!typeMatches) {
+				report("type", `expected ${types.join(" or ")}, got ${actualType}`);
+				return;
+			}
+		}
+		if (value === null || value === undefined) {
+			return;
+		}
+
+		// enum
+		const enumValues = GeneratorUtil.getEnumValues(schema);
+		if (enumValues.length > 0 && !enumValues.includes(value)) {
+			report("enum", `expected one of ${enumValues.map((v) => JSON.stringify(v)).join(", ")}, got ${JSON.stringify(value)}`);
+		}
+
+		if (typeof value === "number") {
+			// numeric constraints
+			if (schema.minimum !== undefined && value < schema.minimum) report("minimum", `expected at least ${schema.minimum}, got ${value}`);
+			if (schema.maximum !== undefined && value > schema.maximum) report("maximum", `expected at most ${schema.maximum}, got ${value}`);
+		} else if (typeof value === "string") {
+			// string length, pattern and format
+			if (schema.minLength !== undefined && value.length < schema.minLength) report("minLength", `expected at least ${schema.minLength} characters, got ${value.length}`);
+			if (schema.maxLength !== undefined && value.length > schema.maxLength) report("maxLength", `expected at most ${schema.maxLength} characters, got ${value.length}`);
+			if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) report("pattern", `expected to match /${schema.pattern}/, got ${JSON.stringify(value)}`);
+
+			const format = GeneratorUtil.STRING_FORMATS.find(([name]) => name === schema.format);
+			if (format && !format[1].test(value)) report("format", `expected ${schema.format}, got ${JSON.stringify(value)}`);
+		} else if (Array.isArray(value)) {
+			// nested items
+			if (schema.items && !Array.isArray(schema.items)) {
+				value.forEach((element, index) => this.checkValue(element, schema.items, rootSchema, { ...location, column: `${location.column}[${index}]` }, issues));
+			}
+		} else if (typeof value === "object") {
+			// nested properties
+			const properties: Record<string, any> = schema.properties ?? {};
+			(schema.required ?? []).forEach((key: string) => {
+				if (!(key in value)) report("required", `missing property \`${key}\``);
+			});
+			Object.entries(value).forEach(([key, propertyValue]) => {
+				if (key in properties) {
+					this.checkValue(propertyValue, properties[key], rootSchema, { ...location, column: `${location.column}.${key}` }, issues);
+				} else if (schema.additionalProperties === false) {
+					issues.push({ ...location, column: `${location.column}.${key}`, rule: "additionalProperties", message: "unknown property", value: propertyValue });
+				}
+			});
+		}
+	}
+
+	/**
+	 * Maps the (resolved) schemas of a oneOf by the first enum of their "name".
+	 */
+	private static byName(schemas: JsonSchema[], rootSchema: JsonSchema): Map<string, JsonSchema> {
+		const map = new Map<string, JsonSchema>();
+		schemas.forEach((node) => {
+			const resolved = SchemaRefResolverUtil.resolveIfRef(node, rootSchema)!;
+			map.set(GeneratorUtil.getFirstEnum(resolved, "name"), resolved);
+		});
+		return map;
+	}
+
+	/**
+	 * Describes the JSON type of a value, telling integers apart from other numbers.
+	 */
+	private static getJsonType(value: unknown): string {
+		if (value === null) return "null";
+		if (value === undefined) return "undefined";
+		if (Array.isArray(value)) return "array";
+		if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+		return typeof value;
+	}
+}
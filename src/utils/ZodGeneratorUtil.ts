@@ -0,0 +1,228 @@
+import path from "path";
+import { JsonSchema } from "../beans/JsonSchema";
+import { GeneratorUtil } from "./GeneratorUtil";
+import { Declarations, ProjectWalkerUtil } from "./ProjectWalkerUtil";
+import { SchemaDiffUtil } from "./SchemaDiffUtil";
+import { SchemaRefResolverUtil } from "./SchemaRefResolverUtil";
+
+/**
+ * Utility class that generates Zod schemas from workbook JSON Schemas: one module per workbook,
+ * and a "common" module for the sheets and blocks used by several workbooks or reached through a "$ref".
+ *
+ * Sheets are discriminated unions on "name", and so are the blocks of a sheet. Table headers are tuples of literals,
+ * rows are tuples with a schema per column, and list items are objects with a schema per key.
+ */
+export class ZodGeneratorUtil {
+	/**
+	 * Zod methods checking the "format" of a string
+	 */
+	private static readonly STRING_FORMATS: Record<string, string> = {
+		"date-time": "datetime({ offset: true })",
+		date: "date()",
+		email: "email()",
+		uri: "url()",
+		uuid: "uuid()",
+	};
+
+	/**
+	 * Generates the Zod modules of the workbook schemas of a project.
+	 * @param schemas - The workbook JSON Schemas of the project
+	 * @param zodDir - The directory of the modules, relative to the output directory
+	 * @param sharedBlocks - The names of the blocks used with the same shape by several workbooks
+	 * @param files - The generated files, by path relative to the output directory
+	 */
+	public static generate(schemas: JsonSchema[], zodDir: string, sharedBlocks: Set<string>, files: Map<string, string>): void {
+		const { common, modules } = ProjectWalkerUtil.walk(schemas, sharedBlocks, {
+			declareBlock: (blockSchema, rootSchema, declarations) => this.declareBlock(blockSchema, rootSchema, declarations),
+			declareSheet: (sheetSchema, blockNames, declarations) => this.declareSheet(sheetSchema, blockNames, declarations),
+			declareWorkbook: (schema, sheetNames, declarations) => this.declareWorkbook(schema, sheetNames, declarations),
+		});
+
+		if (common.size > 0) {
+			files.set(path.posix.join(zodDir, "common.ts"), this.toModule(common, []));
+		}
+		modules.forEach(({ workbookName, declarations, imports }) => {
+			files.set(path.posix.join(zodDir, `${GeneratorUtil.toKebabCase(workbookName)}.ts`), this.toModule(declarations, imports));
+		});
+	}
+
+	/**
+	 * Declares the schema of a workbook.
+	 */
+	private static declareWorkbook(schema: JsonSchema, sheetNames: string[], declarations: Declarations): void {
+		const workbookSchemaName = `${this.toTypeName(GeneratorUtil.getFirstEnum(schema, "name"), "Workbook")}Schema`;
+		this.declare(declarations, workbookSchemaName, this.toObject(schema, "sheets", `z.array(${this.toUnion(sheetNames)})`));
+	}
+
+	/**
+	 * Declares the schema of a sheet.
+	 * @returns The name of the sheet schema
+	 */
+	private static declareSheet(sheetSchema: JsonSchema, blockNames: string[], declarations: Declarations): string {
+		const sheetSchemaName = `${this.toTypeName(GeneratorUtil.getFirstEnum(sheetSchema, "name"), "Sheet")}Schema`;
+		this.declare(declarations, sheetSchemaName, this.toObject(sheetSchema, "blocks", `z.array(${this.toUnion(blockNames)})`));
+		return sheetSchemaName;
+	}
+
+	/**
+	 * Declares the schema of a table, with its row, or of a list, with its item.
+	 * @returns The name of the block schema
+	 */
+	private static declareBlock(blockSchema: JsonSchema, rootSchema: JsonSchema, declarations: Declarations): string {
+		const blockName = GeneratorUtil.getFirstEnum(blockSchema, "name");
+		const entity = GeneratorUtil.getFirstEnum(blockSchema, "@entity");
+		const blockTypeName = this.toTypeName(blockName, entity === "list" ? "List" : "Table");
+		const blockSchemaName = `${blockTypeName}Schema`;
+		if (declarations.has(blockSchemaName)) {
+			return blockSchemaName;
+		}
+
+		if (entity === "list") {
+			const itemSchemaName = `${blockTypeName.replace(/List$/, "Item")}Schema`;
+			const itemSchema = SchemaDiffUtil.getListItemSchema(blockSchema, rootSchema);
+			this.declare(declarations, itemSchemaName, this.toZod({ ...itemSchema, type: "object", properties: itemSchema?.properties ?? {} }, rootSchema, [], 0));
+			this.declare(declarations, blockSchemaName, this.toObject(blockSchema, "items", `z.array(${itemSchemaName})`));
+		} else {
+			const rowSchemaName = `${blockTypeName.replace(/Table$/, "Row")}Schema`;
+			const columnSchemas = SchemaDiffUtil.getColumnSchemas(blockSchema, rootSchema);
+			const header = Array.from(columnSchemas.keys());
+			const columns = Array.from(columnSchemas.values()).map((columnSchema) => this.toZod(columnSchema, rootSchema, []));
+
+			this.declare(declarations, rowSchemaName, columns.length > 0 ? `z.tuple([\n${this.toList(columns, 1)}\n])` : "z.tuple([])");
+			this.declare(declarations, blockSchemaName, this.toObject(blockSchema, "header", `z.tuple([${header.map((column) => `z.literal(${GeneratorUtil.toLiteralType(column)})`).join(", ")}])`, "rows", `z.array(${rowSchemaName})`));
+		}
+
+		return blockSchemaName;
+	}
+
+	/**
+	 * Converts a field schema to a Zod schema, with its constraints and nullability.
+	 * @param ancestors - The schemas being converted higher up, to stop at recursive schemas
+	 */
+	private static toZod(fieldSchema: Record<string, any> | null, rootSchema: JsonSchema, ancestors: object[], depth: number = 1): string {
+		const schema: Record<string, any> | null = SchemaRefResolverUtil.resolveIfRef(fieldSchema, rootSchema);
+		if (!schema || ancestors.includes(schema)) {
+			return "z.unknown()";
+		}
+
+		const types: string[] = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+		const nullable = types.includes("null");
+		const valueTypes = types.filter((type) => type !== "null");
+
+		let zod: string;
+		const enumValues = GeneratorUtil.getEnumValues(schema);
+		if (enumValues.length > 0) {
+			zod = enumValues.every((value) => typeof value === "string")
+				? `z.enum([${enumValues.map((value) => GeneratorUtil.toLiteralType(value)).join(", ")}])`
+				: this.toUnion(enumValues.map((value) => `z.literal(${GeneratorUtil.toLiteralType(value)})`));
+		} else if (valueTypes.length === 0) {
+			zod = nullable ? "z.null()" : "z.unknown()";
+		} else {
+			zod = this.toUnion(valueTypes.map((type) => this.toZodType(type, schema, rootSchema, [...ancestors, schema], depth)));
+		}
+
+		return nullable && zod !== "z.null()" ? `${zod}.nullable()` : zod;
+	}
+
+	/**
+	 * Converts one type of a field schema to a Zod schema, with the constraints of that type.
+	 */
+	private static toZodType(type: string, schema: Record<string, any>, rootSchema: JsonSchema, ancestors: object[], depth: number): string {
+		const checks: string[] = [];
+
+		switch (type) {
+			case "string":
+				if (schema.minLength !== undefined) checks.push(`min(${schema.minLength})`);
+				if (schema.maxLength !== undefined) checks.push(`max(${schema.maxLength})`);
+				if (schema.pattern !== undefined) checks.push(`regex(new RegExp(${GeneratorUtil.toLiteralType(schema.pattern)}))`);
+				if (this.STRING_FORMATS[schema.format]) checks.push(this.STRING_FORMATS[schema.format]);
+				return ["z.string()", ...checks].join(".");
+			case "integer":
+			case "number":
+			case "long":
+			case "epoch":
+				if (type !== "number") checks.push("int()");
+				if (schema.minimum !== undefined) checks.push(`min(${schema.minimum})`);
+				if (schema.exclusiveMinimum !== undefined) checks.push(`gt(${schema.exclusiveMinimum})`);
+				if (schema.maximum !== undefined) checks.push(`max(${schema.maximum})`);
+				if (schema.exclusiveMaximum !== undefined) checks.push(`lt(${schema.exclusiveMaximum})`);
+				return ["z.number()", ...checks].join(".");
+			case "boolean":
+				return "z.boolean()";
+			case "array":
+				if (schema.minItems !== undefined) checks.push(`min(${schema.minItems})`);
+				if (schema.maxItems !== undefined) checks.push(`max(${schema.maxItems})`);
+				return [`z.array(${schema.items && !Array.isArray(schema.items) ? this.toZod(schema.items, rootSchema, ancestors, depth) : "z.unknown()"})`, ...checks].join(".");
+			case "object": {
+				if (!schema.properties) {
+					return "z.record(z.string(), z.unknown())";
+				}
+				const required: string[] = schema.required ?? [];
+				const fields = Object.entries(schema.properties).map(([key, value]) => {
+					const field = this.toZod(value as Record<string, any>, rootSchema, ancestors, depth + 1);
+					return `${GeneratorUtil.toPropertyName(key)}: ${required.includes(key) ? field : `${field}.optional()`}`;
+				});
+				const object = fields.length > 0 ? `z.object({\n${this.toList(fields, depth + 1)}\n${"    ".repeat(depth)}})` : "z.object({})";
+				return schema.additionalProperties === false ? `${object}.strict()` : object;
+			}
+			default:
+				return "z.unknown()";
+		}
+	}
+
+	/**
+	 * Converts a workbook, sheet or block schema to a Zod object of its "name" and "@entity" literals and the given properties.
+	 */
+	private static toObject(schema: JsonSchema, ...properties: string[]): string {
+		const fields = [
+			`name: z.literal(${GeneratorUtil.toLiteralType(GeneratorUtil.getFirstEnum(schema, "name"))})`,
+			`'@entity': z.literal(${GeneratorUtil.toLiteralType(GeneratorUtil.getFirstEnum(schema, "@entity"))})`,
+		];
+		for (let index = 0; index < properties.length; index += 2) {
+			fields.push(`${properties[index]}: ${properties[index + 1]}`);
+		}
+		return `z.object({\n${this.toList(fields, 1)}\n})`;
+	}
+
+	/**
+	 * Converts schemas to a union: a discriminated union on "name" for sheet and block schemas, a plain union otherwise.
+	 */
+	private static toUnion(zods: string[]): string {
+		if (zods.length === 0) {
+			return "z.never()";
+		}
+		if (zods.length === 1) {
+			return zods[0];
+		}
+		if (zods.every((zod) => /^\w+Schema$/.test(zod))) {
+			return `z.discriminatedUnion('name', [${zods.join(", ")}])`;
+		}
+		return `z.union([${zods.join(", ")}])`;
+	}
+
+	/**
+	 * Declares a schema and its inferred type.
+	 */
+	private static declare(declarations: Declarations, schemaName: string, zod: string): void {
+		if (!declarations.has(schemaName)) {
+			const typeName = schemaName.replace(/Schema$/, "");
+			declarations.set(schemaName, `export const ${schemaName} = ${zod};\n\nexport type ${typeName} = z.infer<typeof ${schemaName}>;`);
+		}
+	}
+
+	/**
+	 * Writes a module of declarations, importing names of the common module.
+	 */
+	private static toModule(declarations: Declarations, imports: string[]): string {
+		const importLines = [`import { z } from 'zod';`, ...(imports.length > 0 ? [`import { ${imports.join(", ")} } from './common';`] : [])];
+		return `${GeneratorUtil.AUTO_GEN_COMMENT}${importLines.join("\n")}\n\n${Array.from(declarations.values()).join("\n\n")}\n`;
+	}
+
+	private static toTypeName(name: string, suffix: string): string {
+		return GeneratorUtil.sanitizeName(GeneratorUtil.capitalize(GeneratorUtil.toCamelCase(name)), suffix);
+	}
+
+	private static toList(items: string[], depth: number): string {
+		return items.map((item) => `${"    ".repeat(depth)}${item},`).join("\n");
+	}
+}
@@ -1,3 +1,17 @@
+export * from "./ConfigUtil";
+export * from "./DocsGeneratorUtil";
+export * from "./ExcelToJsonGeneratorUtil";
 export * from "./ExcelToSchemaGeneratorUtil";
+export * from "./GraphqlGeneratorUtil";
+export * from "./JsonToExcelGeneratorUtil";
 export * from "./JsonToSchemaGeneratorUtil";
+export * from "./MigrationGeneratorUtil";
 export * from "./ObjectGeneratorUtil";
+export * from "./OpenApiGeneratorUtil";
+export * from "./SchemaDiffUtil";
+export * from "./SchemaRefResolverUtil";
+export * from "./SchemaToExcelGeneratorUtil";
+export * from "./SchemaToTemplateGeneratorUtil";
+export * from "./SqlGeneratorUtil";
+export * from "./WatchUtil";
+export * from "./WorkbookValidatorUtil";
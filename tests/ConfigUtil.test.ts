@@ -0,0 +1,64 @@
+import { Command } from "commander";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CommandUtil } from "../src/utils/CommandUtil";
+import { ConfigUtil } from "../src/utils/ConfigUtil";
+
+describe("ConfigUtil", () => {
+	let configDir: string;
+
+	beforeEach(() => {
+		configDir = fs.mkdtempSync(path.join(os.tmpdir(), "config-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(configDir, { recursive: true, force: true });
+	});
+
+	it("reads a JSON configuration, with paths relative to its directory", async () => {
+		const configPath = path.join(configDir, "sheet-generator.config.json");
+		fs.writeFileSync(configPath, JSON.stringify({ e2s: { input: "definitions", output: "schemas", enumThreshold: 5 }, naming: { schemaSuffix: ".json" }, workbooks: { payroll: { output: "src/payroll" } } }));
+
+		expect(await ConfigUtil.load(configPath)).toEqual({
+			e2s: { input: path.join(configDir, "definitions"), output: path.join(configDir, "schemas"), enumThreshold: 5 },
+			naming: { schemaSuffix: ".json" },
+			workbooks: { payroll: { output: path.join(configDir, "src/payroll") } },
+		});
+	});
+
+	it("reads a JavaScript configuration", async () => {
+		const configPath = path.join(configDir, "sheet-generator.config.js");
+		fs.writeFileSync(configPath, `module.exports = { s2o: { output: "generated", clean: true } };`);
+
+		expect(await ConfigUtil.load(configPath)).toEqual({ s2o: { output: path.join(configDir, "generated"), clean: true } });
+	});
+
+	it("fails on a configuration file that does not exist", async () => {
+		await expect(ConfigUtil.load(path.join(configDir, "missing.json"))).rejects.toThrow(`Configuration file "${path.join(configDir, "missing.json")}" does not exist.`);
+	});
+
+	it("adds the naming options and workbook outputs to the options of the commands using them", () => {
+		const config = { e2s: { output: "/schemas" }, s2o: { output: "/generated" }, naming: { schemaSuffix: ".json" }, workbooks: { payroll: { output: "/payroll" }, tax: {} } };
+
+		expect(ConfigUtil.getCommandOptions(config, "e2s")).toEqual({ output: "/schemas", schemaSuffix: ".json" });
+		expect(ConfigUtil.getCommandOptions(config, "s2o")).toEqual({ input: "/schemas", output: "/generated", workbookOutput: ["payroll=/payroll"] });
+		expect(ConfigUtil.getCommandOptions(config, "s2e")).toEqual({});
+	});
+});
+
+describe("CommandUtil", () => {
+	const toCommand = () => new Command().name("s2o").exitOverride().option("-i, --input <path>").option("-o, --output <path>").option("--enum-threshold <count>").action(() => undefined);
+
+	it("takes the options missing from the command line from the configuration", () => {
+		const command = toCommand();
+		CommandUtil.applyOptions(command, { input: "/schemas", enumThreshold: 5 });
+		command.parse(["--input", "/other"], { from: "user" });
+
+		expect(command.opts()).toEqual({ input: "/other", enumThreshold: 5 });
+	});
+
+	it("fails on an option the command does not have", () => {
+		expect(() => CommandUtil.applyOptions(toCommand(), { clean: true })).toThrow(`Unknown option "clean" for command "s2o"`);
+	});
+});
@@ -0,0 +1,68 @@
+import { JsonSchema } from "../src/beans";
+import { DocsGeneratorUtil } from "../src/utils/DocsGeneratorUtil";
+
+/**
+ * A workbook schema with a list whose types and descriptions have Markdown and HTML characters
+ */
+const schema: JsonSchema = {
+	type: "object",
+	description: "Tax <draft> & notes",
+	properties: {
+		name: { type: "string", enum: ["tax"] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: ["income"] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: {
+								type: "array",
+								items: {
+									oneOf: [
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["summary_list"] },
+												"@entity": { type: "string", enum: ["list"] },
+												items: {
+													type: "array",
+													items: {
+														type: "object",
+														properties: {
+															tags: { type: "array", items: { type: "string" }, description: "Tags, e.g. <b>salary</b> & bonus" },
+															remarks: { type: "null" },
+															code: { type: "string", enum: ["a`b"] },
+														},
+													},
+												},
+											},
+										},
+									],
+								},
+							},
+						},
+					},
+				],
+			},
+		},
+	},
+};
+
+describe("DocsGeneratorUtil", () => {
+	it("escapes the types and descriptions of the Markdown dictionary", () => {
+		const markdown = DocsGeneratorUtil.generate(schema, "markdown");
+
+		expect(markdown).toContain("Tax &lt;draft&gt; &amp; notes");
+		expect(markdown).toContain("| `tags` | `array<string>` | no |  |  | Tags, e.g. &lt;b&gt;salary&lt;/b&gt; &amp; bonus |  |");
+		expect(markdown).toContain("| `code` | `string` | no |  | `` a`b `` |  |  |");
+	});
+
+	it("documents a field which can only be null as null", () => {
+		expect(DocsGeneratorUtil.generate(schema, "markdown")).toContain("| `remarks` | `null` | yes |");
+		expect(DocsGeneratorUtil.generate(schema, "html")).toContain("<td><code>remarks</code></td><td>null</td>");
+	});
+});
@@ -0,0 +1,67 @@
+import * as XLSX from "xlsx";
+import { JsonSchema } from "../src/beans";
+import { ExcelToJsonGeneratorUtil } from "../src/utils/ExcelToJsonGeneratorUtil";
+
+const schema: JsonSchema = {
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["tax"] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: ["income"] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: {
+								type: "array",
+								items: {
+									oneOf: [
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["salary_table"] },
+												"@entity": { type: "string", enum: ["table"] },
+												header: { type: "array", items: [{ type: "string", enum: ["paid_on"] }, { type: "string", enum: ["paid_at"] }] },
+												rows: {
+													type: "array",
+													items: { type: "array", items: [{ type: "string", format: "date" }, { type: "string", format: "date-time" }] },
+												},
+											},
+										},
+									],
+								},
+							},
+						},
+					},
+				],
+			},
+		},
+	},
+};
+
+describe("ExcelToJsonGeneratorUtil", () => {
+	it("reads date cells without the local time zone", () => {
+		// jest.config.js runs the tests east of UTC, where local midnight is the day before in UTC
+		expect(new Date(2024, 3, 1).getTimezoneOffset()).toBe(-330);
+
+		const ws = XLSX.utils.aoa_to_sheet([
+			["salary_table"],
+			["paid_on", "paid_at"],
+			[
+				{ t: "n", v: 45383, z: "yyyy-mm-dd" },
+				{ t: "n", v: 45383.5, z: "yyyy-mm-dd hh:mm:ss" },
+			],
+		]);
+		const wb = XLSX.utils.book_new();
+		XLSX.utils.book_append_sheet(wb, ws, "income");
+
+		const { workbook, issues } = ExcelToJsonGeneratorUtil.generate(XLSX.write(wb, { type: "buffer", bookType: "xlsx" }), schema);
+
+		expect(issues).toEqual([]);
+		expect(workbook.sheets[0].blocks[0].rows).toEqual([["2024-04-01", "2024-04-01T12:00:00.000Z"]]);
+	});
+});
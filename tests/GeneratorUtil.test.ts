@@ -0,0 +1,96 @@
+import { JsonSchema } from "../src/beans";
+import { GeneratorUtil } from "../src/utils/GeneratorUtil";
+import { ObjectGeneratorUtil } from "../src/utils/ObjectGeneratorUtil";
+
+/**
+ * A workbook schema with a table and a list, each with an enum field
+ */
+const schema: JsonSchema = {
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["tax"] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: ["income"] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: {
+								type: "array",
+								items: {
+									oneOf: [
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["salary_table"] },
+												"@entity": { type: "string", enum: ["table"] },
+												header: { type: "array", items: [{ type: "string", enum: ["status"] }] },
+												rows: { type: "array", items: { type: "array", items: [{ type: ["string", "null"], enum: ["active", "closed", null] }] } },
+											},
+										},
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["summary"] },
+												"@entity": { type: "string", enum: ["list"] },
+												items: { type: "array", items: { type: "object", properties: { regime: { type: "string", enum: ["old", "new"] } } } },
+											},
+										},
+									],
+								},
+							},
+						},
+					},
+				],
+			},
+		},
+	},
+};
+
+describe("GeneratorUtil", () => {
+	describe("getNestedTypeScriptType", () => {
+		it("declares a union of string literals for an enum", () => {
+			const declarations: string[] = [];
+
+			expect(GeneratorUtil.getNestedTypeScriptType({ type: "string", enum: ["active", "closed"] }, "Status", declarations)).toBe("Status");
+			expect(declarations).toEqual(["export type Status = 'active' | 'closed';"]);
+		});
+
+		it("leaves null out of the union of a nullable enum, and adds it to the type", () => {
+			const declarations: string[] = [];
+
+			expect(GeneratorUtil.getNestedTypeScriptType({ type: ["string", "null"], enum: ["active", null] }, "Status", declarations)).toBe("Status | null");
+			expect(declarations).toEqual(["export type Status = 'active';"]);
+		});
+
+		it("declares number literals for a numeric enum read from Excel as strings", () => {
+			const declarations: string[] = [];
+
+			GeneratorUtil.getNestedTypeScriptType({ type: "integer", enum: ["1", "2", 2] }, "Slab", declarations);
+			expect(declarations).toEqual(["export type Slab = 1 | 2;"]);
+		});
+
+		it("escapes quotes and backslashes in string literals", () => {
+			const declarations: string[] = [];
+
+			GeneratorUtil.getNestedTypeScriptType({ type: "string", enum: ["it's", "a\\b"] }, "Note", declarations);
+			expect(declarations).toEqual(["export type Note = 'it\\'s' | 'a\\\\b';"]);
+		});
+	});
+
+	it("types the getters and setters of enum fields with their union", () => {
+		const { files } = ObjectGeneratorUtil.generateToMemory(schema);
+		const row = files.get("tables/salary-table/SalaryRow.ts")!;
+		const list = files.get("lists/summary/SummaryList.ts")!;
+
+		expect(row).toContain("export type SalaryRowStatus = 'active' | 'closed';");
+		expect(row).toContain("getStatus(): SalaryRowStatus | null {");
+		expect(row).toContain("setStatus(status: SalaryRowStatus | null): void {");
+		expect(list).toContain("export type SummaryListRegime = 'old' | 'new';");
+		expect(list).toMatch(/\(\w+: SummaryListRegime\)/);
+	});
+});
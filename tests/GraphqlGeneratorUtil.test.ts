@@ -0,0 +1,119 @@
+import { JsonSchema } from "../src/beans";
+import { GeneratorUtil } from "../src/utils/GeneratorUtil";
+import { GraphqlGeneratorUtil } from "../src/utils/GraphqlGeneratorUtil";
+
+const toSchema = (columns: Array<[string, Record<string, any>]>, itemSchema: Record<string, any>): JsonSchema => ({
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["tax"] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						description: "Income of the year",
+						properties: {
+							name: { type: "string", enum: ["income"] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: {
+								type: "array",
+								items: {
+									oneOf: [
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["salary_table"] },
+												"@entity": { type: "string", enum: ["table"] },
+												header: { type: "array", items: columns.map(([column]) => ({ type: "string", enum: [column] })) },
+												rows: { type: "array", items: { type: "array", items: columns.map(([, columnSchema]) => columnSchema) } },
+											},
+										},
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["summary"] },
+												"@entity": { type: "string", enum: ["list"] },
+												items: { type: "array", items: itemSchema },
+											},
+										},
+									],
+								},
+							},
+						},
+					},
+				],
+			},
+		},
+	},
+});
+
+describe("GraphqlGeneratorUtil", () => {
+	it("generates the types of the workbook, its sheets, tables, rows and lists, in the order of the schema", () => {
+		const schema = toSchema(
+			[
+				["employer", { type: "string", description: "Name of the employer" }],
+				["amount", { type: ["number", "null"] }],
+			],
+			{ type: "object", properties: { regime: { type: "string" }, total: { type: "integer" } }, required: ["total"] },
+		);
+
+		expect(GraphqlGeneratorUtil.generate(schema)).toBe(`# Auto-generated by @org-quicko/sheet-generator@${GeneratorUtil.VERSION}
+
+type SalaryRow {
+    """
+    Name of the employer
+    """
+    employer: String!
+    amount: Float
+}
+
+type SalaryTable {
+    header: [String!]!
+    rows: [SalaryRow!]!
+}
+
+type SummaryList {
+    regime: String
+    total: Int!
+}
+
+"""
+Income of the year
+"""
+type IncomeSheet {
+    salaryTable: SalaryTable
+    summary: SummaryList
+}
+
+type TaxWorkbook {
+    name: String!
+    """
+    Income of the year
+    """
+    income: IncomeSheet
+}
+`);
+	});
+
+	it("declares enums and fields with valid GraphQL names, and the scalars in use", () => {
+		const schema = toSchema(
+			[
+				["status", { type: "string", enum: ["in-progress", "1st", "true", "in progress"] }],
+				["paid_at", { type: "epoch" }],
+				["paid-at", { type: "object" }],
+			],
+			{ type: "object", properties: {} },
+		);
+		const sdl = GraphqlGeneratorUtil.generate(schema);
+
+		expect(sdl).toContain("\n\nscalar JSON\n\nscalar Long\n\n");
+		expect(sdl).toContain("enum SalaryRowStatus {\n    in_progress\n    _1st\n    _true\n    in_progress_3\n}");
+		expect(sdl).toContain("type SalaryRow {\n    status: SalaryRowStatus!\n    paidAt: Long!\n    paidAt2: JSON!\n}");
+	});
+
+	it("leaves out the scalars which are not used", () => {
+		expect(GraphqlGeneratorUtil.generate(toSchema([["employer", { type: "string" }]], { type: "object", properties: { total: { type: "number" } } }))).not.toContain("scalar");
+	});
+});
@@ -0,0 +1,104 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { JsonSchema, Workbook } from "../src/beans";
+import { ExcelToJsonGeneratorUtil } from "../src/utils/ExcelToJsonGeneratorUtil";
+import { JsonToExcelGeneratorUtil } from "../src/utils/JsonToExcelGeneratorUtil";
+
+const schema: JsonSchema = {
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["tax"] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: ["income"] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: {
+								type: "array",
+								items: {
+									oneOf: [
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["salary_table"] },
+												"@entity": { type: "string", enum: ["table"] },
+												header: { type: "array", items: [{ type: "string", enum: ["paid_on"] }, { type: "string", enum: ["paid_at"] }] },
+												rows: {
+													type: "array",
+													items: { type: "array", items: [{ type: "string", format: "date" }, { type: "string", format: "date-time" }] },
+												},
+											},
+										},
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["summary_list"] },
+												"@entity": { type: "string", enum: ["list"] },
+												items: {
+													type: "array",
+													items: { type: "object", properties: { filed_on: { type: "string", format: "date" } } },
+												},
+											},
+										},
+									],
+								},
+							},
+						},
+					},
+				],
+			},
+		},
+	},
+};
+
+const workbook: Workbook = {
+	name: "tax",
+	"@entity": "workbook",
+	sheets: [
+		{
+			name: "income",
+			"@entity": "sheet",
+			blocks: [
+				{
+					name: "salary_table",
+					"@entity": "table",
+					header: ["paid_on", "paid_at"],
+					rows: [
+						["2024-04-01", "2024-04-01T00:00:00.000Z"],
+						["2024-12-31", "2024-12-31T23:59:59.000Z"],
+					] as any,
+				},
+				{ name: "summary_list", "@entity": "list", items: [{ filed_on: "2025-07-31" }] as any },
+			],
+		},
+	],
+};
+
+describe("JsonToExcelGeneratorUtil", () => {
+	let outputDir: string;
+
+	beforeEach(() => {
+		outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-to-excel-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(outputDir, { recursive: true, force: true });
+	});
+
+	it("round-trips dates through excel-to-json in a time zone east of UTC", () => {
+		expect(new Date(2024, 3, 1).getTimezoneOffset()).toBe(-330);
+
+		const excelFilePath = path.join(outputDir, "tax.xlsx");
+		JsonToExcelGeneratorUtil.generate(workbook, schema, excelFilePath);
+
+		const result = ExcelToJsonGeneratorUtil.generate(excelFilePath, schema);
+		expect(result.issues).toEqual([]);
+		expect(result.workbook).toEqual(workbook);
+	});
+});
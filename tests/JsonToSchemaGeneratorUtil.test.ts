@@ -0,0 +1,77 @@
+import { Workbook } from "../src/beans";
+import { JsonToSchemaGeneratorUtil } from "../src/utils/JsonToSchemaGeneratorUtil";
+import { WorkbookValidatorUtil } from "../src/utils/WorkbookValidatorUtil";
+
+const toWorkbook = (header: string[], rows: unknown[][]): Workbook => ({
+	name: "tax",
+	"@entity": "workbook",
+	sheets: [
+		{
+			name: "income",
+			"@entity": "sheet",
+			blocks: [{ name: "salary_table", "@entity": "table", header, rows: rows as any }],
+		},
+	],
+});
+
+describe("JsonToSchemaGeneratorUtil.generate", () => {
+	it("infers the ranges of large columns", () => {
+		const rows = Array.from({ length: 200000 }, (_, index) => [`id-${index}`, index - 100]);
+
+		const schema = JsonToSchemaGeneratorUtil.generate(toWorkbook(["id", "amount"], rows), { inferRanges: true });
+
+		const [idSchema, amountSchema] = schema.properties.sheets.items.oneOf[0].properties.blocks.items.oneOf[0].properties.rows.items.items;
+		expect([idSchema.minLength, idSchema.maxLength]).toEqual([4, 9]);
+		expect([amountSchema.minimum, amountSchema.maximum]).toEqual([-100, 199899]);
+	});
+
+	it("lists null in the enum of a nullable column", () => {
+		const sample = toWorkbook(["status"], [["paid"], ["paid"], [null], ["due"]]);
+
+		const schema = JsonToSchemaGeneratorUtil.generate(sample);
+
+		const [statusSchema] = schema.properties.sheets.items.oneOf[0].properties.blocks.items.oneOf[0].properties.rows.items.items;
+		expect(statusSchema).toEqual({ type: ["string", "null"], enum: ["due", "paid", null] });
+		expect(WorkbookValidatorUtil.validate(sample, schema)).toEqual([]);
+	});
+
+	it("infers the ranges of columns with missing cells", () => {
+		const schema = JsonToSchemaGeneratorUtil.generate(toWorkbook(["id", "code", "note"], [["a", "xy"], ["bcd"]]), { inferRanges: true });
+
+		const [idSchema, codeSchema, noteSchema] = schema.properties.sheets.items.oneOf[0].properties.blocks.items.oneOf[0].properties.rows.items.items;
+		expect([idSchema.minLength, idSchema.maxLength]).toEqual([1, 3]);
+		expect([codeSchema.minLength, codeSchema.maxLength]).toEqual([2, 2]);
+		expect(noteSchema).toEqual({ type: "string" });
+	});
+});
+
+describe("JsonToSchemaGeneratorUtil.merge", () => {
+	it("merges tables whose samples leave out trailing columns", () => {
+		const samples = [
+			toWorkbook(["employer", "amount"], [["Quicko", 1200]]),
+			toWorkbook(["employer", "amount", "status"], [["Acme", 900, "paid"], ["Initech", 300, "paid"]]),
+			toWorkbook(["employer"], [["Globex"]]),
+		];
+
+		const schema = JsonToSchemaGeneratorUtil.merge(samples);
+
+		const header = ["employer", "amount", "status"];
+		expect(WorkbookValidatorUtil.validate(samples[1], schema)).toEqual([]);
+		expect(WorkbookValidatorUtil.validate(toWorkbook(header, [["Quicko", 1200, null], ["Globex", null, null]]), schema)).toEqual([]);
+	});
+
+	it("keeps every column of the merged header required in the rows", () => {
+		const samples = [toWorkbook(["employer", "amount"], [["Quicko", 1200]]), toWorkbook(["employer", "amount", "status"], [["Acme", 900, "paid"]])];
+
+		const rowsSchema = JsonToSchemaGeneratorUtil.merge(samples).properties.sheets.items.oneOf[0].properties.blocks.items.oneOf[0].properties.rows.items;
+
+		expect([rowsSchema.minItems, rowsSchema.maxItems]).toEqual([3, 3]);
+		expect(rowsSchema.items[2].type).toEqual(["string", "null"]);
+	});
+
+	it("rejects tables whose headers differ in shared columns", () => {
+		const samples = [toWorkbook(["employer", "amount"], [["Quicko", 1200]]), toWorkbook(["employer", "status"], [["Acme", "paid"]])];
+
+		expect(() => JsonToSchemaGeneratorUtil.merge(samples)).toThrow(/Cannot merge table "salary_table"/);
+	});
+});
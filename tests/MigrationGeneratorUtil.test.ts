@@ -0,0 +1,136 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import ts from "typescript";
+import { JsonSchema, SchemaRenames } from "../src/beans";
+import { MigrationGeneratorUtil } from "../src/utils/MigrationGeneratorUtil";
+
+const toSchema = (blockName: string, itemProperties: Record<string, any>, required: string[] = []): JsonSchema => ({
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["tax"] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: ["income"] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: {
+								type: "array",
+								items: {
+									oneOf: [
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["salary_table"] },
+												"@entity": { type: "string", enum: ["table"] },
+												header: { type: "array", items: [{ type: "string", enum: ["employer"] }, { type: "string", enum: ["amount"] }] },
+												rows: { type: "array", items: { type: "array", items: [{ type: "string" }, { type: "number" }] } },
+											},
+										},
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: [blockName] },
+												"@entity": { type: "string", enum: ["list"] },
+												items: { type: "array", items: { type: "object", properties: itemProperties, required } },
+											},
+										},
+									],
+								},
+							},
+						},
+					},
+				],
+			},
+		},
+	},
+});
+
+const before = toSchema("summary", { total: { type: "number" }, owner: { type: "string" } });
+
+const workbook = {
+	name: "tax",
+	"@entity": "workbook",
+	sheets: [
+		{
+			name: "income",
+			"@entity": "sheet",
+			blocks: [
+				{ name: "salary_table", "@entity": "table", header: ["employer", "amount"], rows: [["Quicko", 1200]] },
+				{ name: "summary", "@entity": "list", items: [{ total: 100 }, { owner: "bob" }] },
+			],
+		},
+	],
+};
+
+describe("MigrationGeneratorUtil", () => {
+	let outputDir: string;
+
+	beforeEach(() => {
+		outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "migration-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(outputDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * Type-checks the generated module, then runs its `migrate` on the workbook
+	 */
+	const migrate = (after: JsonSchema, renames: SchemaRenames = {}): any => {
+		const code = MigrationGeneratorUtil.generate(before, after, renames);
+
+		const filePath = path.join(outputDir, "migration.ts");
+		fs.writeFileSync(filePath, code);
+		const program = ts.createProgram([filePath], { strict: true, noEmit: true, target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ES2022, skipLibCheck: true });
+		const diagnostics = ts.getPreEmitDiagnostics(program).map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+		expect(diagnostics).toEqual([]);
+
+		const module = { exports: {} as Record<string, any> };
+		const javascript = ts.transpileModule(code, { compilerOptions: { module: ts.ModuleKind.CommonJS } }).outputText;
+		new Function("module", "exports", javascript)(module, module.exports);
+		return module.exports.migrate(workbook);
+	};
+
+	const getBlock = (migrated: any, blockName: string) => migrated.sheets[0].blocks.find((block: any) => block.name === blockName);
+
+	it("remaps the rows of a table by header name", () => {
+		const after = toSchema("summary", { total: { type: "number" }, owner: { type: "string" } });
+		const salaryTable = getBlock(migrate(after), "salary_table");
+
+		expect(salaryTable.header).toEqual(["employer", "amount"]);
+		expect(salaryTable.rows).toEqual([["Quicko", 1200]]);
+	});
+
+	it("adds one item per added list key", () => {
+		const after = toSchema("summary", { total: { type: "number" }, owner: { type: "string" }, "new-key": { type: ["string", "null"] }, currency: { type: "string", default: "INR" } }, ["new-key"]);
+
+		expect(getBlock(migrate(after), "summary").items).toEqual([{ total: 100 }, { owner: "bob" }, { "new-key": null }, { currency: "INR" }]);
+	});
+
+	it("drops the items of removed list keys", () => {
+		const after = toSchema("summary", { total: { type: "number" } });
+
+		expect(getBlock(migrate(after), "summary").items).toEqual([{ total: 100 }]);
+	});
+
+	it("renames a list and keeps its items", () => {
+		const after = toSchema("totals", { total: { type: "number" }, owner: { type: "string" } });
+		const migrated = migrate(after, { blocks: { summary: "totals" } });
+
+		expect(getBlock(migrated, "summary")).toBeUndefined();
+		expect(getBlock(migrated, "totals").items).toEqual([{ total: 100 }, { owner: "bob" }]);
+	});
+
+	it("leaves out the item of an added required key without a default of its type", () => {
+		const after = toSchema("summary", { total: { type: "number" }, owner: { type: "string" }, code: { type: "string" } }, ["code"]);
+
+		expect(getBlock(migrate(after), "summary").items).toEqual([{ total: 100 }, { owner: "bob" }]);
+		expect(MigrationGeneratorUtil.generate(before, after)).toContain("// 'code' is required, but has no default: add its item");
+	});
+});
@@ -0,0 +1,145 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { JsonSchema } from "../src/beans";
+import { FileUtil } from "../src/utils/FileUtil";
+import { ObjectGeneratorUtil } from "../src/utils/ObjectGeneratorUtil";
+
+const table = (name: string): JsonSchema => ({
+	type: "object",
+	properties: {
+		name: { type: "string", enum: [name] },
+		"@entity": { type: "string", enum: ["table"] },
+		header: { type: "array", items: [{ type: "string", enum: ["amount"] }] },
+		rows: { type: "array", items: { type: "array", items: [{ type: "number" }] } },
+	},
+});
+
+const toSchema = (workbookName: string, sheetName: string): JsonSchema => ({
+	type: "object",
+	properties: {
+		name: { type: "string", enum: [workbookName] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: [sheetName] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: {
+								type: "array",
+								items: {
+									oneOf: [
+										table("salary"),
+										{ $ref: "#/definitions/address_table" },
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["summary"] },
+												"@entity": { type: "string", enum: ["list"] },
+												items: { type: "array", items: { type: "object", properties: { total: { type: "number" } } } },
+											},
+										},
+									],
+								},
+							},
+						},
+					},
+				],
+			},
+		},
+	},
+	definitions: {
+		address_table: table("address_table"),
+	},
+});
+
+const schema = toSchema("tax", "income");
+
+describe("ObjectGeneratorUtil.generateToMemory", () => {
+	it("imports the generated classes into the mixins", () => {
+		const { files } = ObjectGeneratorUtil.generateToMemory(schema);
+
+		const mixins = ["TableMixin.ts", "RowMixin.ts", "ListMixin.ts", "SheetMixin.ts", "WorkbookMixin.ts"].map((fileName) => path.posix.join("mixins", fileName));
+		mixins.forEach((mixin) => {
+			const imports = Array.from(files.get(mixin)!.matchAll(/from '(\.\.\/[^']+)'/g), ([, importPath]) => `${path.posix.join("mixins", importPath)}.ts`);
+			expect(imports.length).toBeGreaterThan(0);
+			imports.forEach((importPath) => expect(Array.from(files.keys())).toContain(importPath));
+		});
+	});
+});
+
+describe("ObjectGeneratorUtil.generateProject", () => {
+	let outputDir: string;
+
+	beforeEach(() => {
+		outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "schema-to-objects-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(outputDir, { recursive: true, force: true });
+	});
+
+	it("exports the files generated into the output directory by earlier runs", () => {
+		ObjectGeneratorUtil.generateProject([schema], outputDir);
+		ObjectGeneratorUtil.generateProject([toSchema("payroll", "deductions")], outputDir);
+
+		const index = fs.readFileSync(path.join(outputDir, "index.ts"), "utf-8");
+		expect(index).toContain("export * from './sheets/income/IncomeSheet';");
+		expect(index).toContain("export * from './sheets/deductions/DeductionsSheet';");
+	});
+
+	it("does not export the files deleted when cleaning", () => {
+		ObjectGeneratorUtil.generateProject([schema], outputDir, { clean: true });
+		ObjectGeneratorUtil.generateProject([toSchema("payroll", "deductions")], outputDir, { clean: true });
+
+		const index = fs.readFileSync(path.join(outputDir, "index.ts"), "utf-8");
+		expect(index).not.toContain("income");
+		expect(index).toContain("export * from './sheets/deductions/DeductionsSheet';");
+	});
+});
+
+describe("ObjectGeneratorUtil.generateProject with clean", () => {
+	let outputDir: string;
+
+	beforeEach(() => {
+		outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "schema-to-objects-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(outputDir, { recursive: true, force: true });
+	});
+
+	it("keeps the files of a nested output directory on the first run", () => {
+		const nestedDir = path.join(outputDir, "sub");
+		ObjectGeneratorUtil.generateProject([toSchema("payroll", "deductions")], nestedDir, { clean: true });
+		const nestedFiles = FileUtil.getAllFiles(nestedDir).sort();
+
+		ObjectGeneratorUtil.generateProject([schema], outputDir, { clean: true });
+
+		expect(FileUtil.getAllFiles(nestedDir).sort()).toEqual(nestedFiles);
+		expect(fs.existsSync(path.join(outputDir, "sheets/income/IncomeSheet.ts"))).toBe(true);
+	});
+
+	it("keeps the files of a nested output directory generated without a manifest", () => {
+		const nestedDir = path.join(outputDir, "sub");
+		ObjectGeneratorUtil.generateProject([toSchema("payroll", "deductions")], nestedDir);
+		const nestedFiles = FileUtil.getAllFiles(nestedDir).sort();
+
+		ObjectGeneratorUtil.generateProject([schema], outputDir, { clean: true });
+
+		expect(FileUtil.getAllFiles(nestedDir).sort()).toEqual(nestedFiles);
+	});
+
+	it("deletes the files of an earlier run without a manifest which are no longer generated", () => {
+		ObjectGeneratorUtil.generateProject([toSchema("payroll", "deductions")], outputDir);
+
+		ObjectGeneratorUtil.generateProject([schema], outputDir, { clean: true });
+
+		expect(fs.existsSync(path.join(outputDir, "sheets/deductions/DeductionsSheet.ts"))).toBe(false);
+		expect(fs.existsSync(path.join(outputDir, "sheets/income/IncomeSheet.ts"))).toBe(true);
+	});
+});
@@ -0,0 +1,90 @@
+import { JsonSchema } from "../src/beans";
+import { OpenApiGeneratorUtil } from "../src/utils/OpenApiGeneratorUtil";
+
+/**
+ * A workbook schema with a table, and a list whose items reference a definition
+ */
+const schema: JsonSchema = {
+	$schema: "http://json-schema.org/draft-07/schema#",
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["tax"] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: ["income"] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: {
+								type: "array",
+								items: {
+									oneOf: [
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["salary_table"] },
+												"@entity": { type: "string", enum: ["table"] },
+												header: { type: "array", items: [{ type: "string", enum: ["employer"] }, { type: "string", enum: ["paid_at"] }], additionalItems: false },
+												rows: { type: "array", items: { type: "array", items: [{ type: "string" }, { type: ["epoch", "null"] }], additionalItems: false } },
+											},
+										},
+										{ $ref: "#/definitions/summary_list" },
+									],
+								},
+							},
+						},
+					},
+				],
+			},
+		},
+	},
+	definitions: {
+		summary_list: {
+			type: "object",
+			properties: {
+				name: { type: "string", enum: ["summary"] },
+				"@entity": { type: "string", enum: ["list"] },
+				items: { type: "array", items: { type: "object", properties: { address: { $ref: "#/definitions/address" } } } },
+			},
+		},
+		address: { type: "object", properties: { city: { type: "string" } } },
+	},
+};
+
+describe("OpenApiGeneratorUtil", () => {
+	const document = OpenApiGeneratorUtil.generate(schema);
+	const schemas = document.components.schemas;
+
+	it("names the components of the workbook, sheets, blocks and definitions like their classes", () => {
+		expect(document.openapi).toBe("3.1.0");
+		expect(Object.keys(schemas)).toEqual(["TaxWorkbook", "IncomeSheet", "SalaryTable", "SummaryList", "Address"]);
+		expect(schemas.TaxWorkbook.properties.sheets.items).toEqual({ oneOf: [{ $ref: "#/components/schemas/IncomeSheet" }], discriminator: { propertyName: "name", mapping: { income: "#/components/schemas/IncomeSheet" } } });
+		expect(schemas.TaxWorkbook.$schema).toBeUndefined();
+		expect(schemas.TaxWorkbook.definitions).toBeUndefined();
+	});
+
+	it("discriminates the blocks of a sheet on their name, and points refs to components", () => {
+		expect(schemas.IncomeSheet.properties.blocks.items.discriminator).toEqual({
+			propertyName: "name",
+			mapping: { salary_table: "#/components/schemas/SalaryTable", summary: "#/components/schemas/SummaryList" },
+		});
+		expect(schemas.SummaryList.properties.items.items.properties.address).toEqual({ $ref: "#/components/schemas/Address" });
+	});
+
+	it("writes tuples as prefixItems, and Excel types as JSON Schema types with a format", () => {
+		expect(schemas.SalaryTable.properties.rows.items).toEqual({ type: "array", prefixItems: [{ type: "string" }, { type: ["integer", "null"], format: "int64" }], items: false });
+	});
+
+	it("serializes the document as YAML, quoting the strings which could be read as another value", () => {
+		const yaml = OpenApiGeneratorUtil.serialize(document);
+
+		expect(yaml.startsWith(`openapi: "3.1.0"\ninfo:\n  title: "tax workbook"\n`)).toBe(true);
+		expect(yaml).toContain(`\n    SummaryList:\n      type: object\n      properties:\n        name:\n          type: string\n          enum:\n            - summary\n        "@entity":\n`);
+		expect(yaml).toContain(`\n              - "$ref": "#/components/schemas/IncomeSheet"\n`);
+		expect(JSON.parse(OpenApiGeneratorUtil.serialize(document, "json"))).toEqual(document);
+	});
+});
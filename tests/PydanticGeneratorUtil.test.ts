@@ -0,0 +1,94 @@
+import { JsonSchema } from "../src/beans";
+import { ObjectGeneratorUtil } from "../src/utils/ObjectGeneratorUtil";
+
+const summaryList: JsonSchema = {
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["summary"] },
+		"@entity": { type: "string", enum: ["list"] },
+		items: { type: "array", items: { type: "object", properties: { regime: { type: "string", enum: ["old", "new"] }, class: { type: "integer" } }, required: ["class"] } },
+	},
+};
+
+const toSchema = (workbookName: string, blocks: JsonSchema[]): JsonSchema => ({
+	type: "object",
+	properties: {
+		name: { type: "string", enum: [workbookName] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: [`${workbookName}_sheet`] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: { type: "array", items: { oneOf: blocks } },
+						},
+					},
+				],
+			},
+		},
+	},
+});
+
+const salaryTable: JsonSchema = {
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["salary_table"] },
+		"@entity": { type: "string", enum: ["table"] },
+		header: { type: "array", items: [{ type: "string", enum: ["employer"] }, { type: "string", enum: ["amount"] }, { type: "string", enum: ["email"] }] },
+		rows: {
+			type: "array",
+			items: { type: "array", items: [{ type: "string", minLength: 2, pattern: "^[A-Z]" }, { type: ["number", "null"], minimum: 0 }, { type: "string", format: "email" }] },
+		},
+	},
+};
+
+describe("PydanticGeneratorUtil", () => {
+	it("declares row models for tables, models for list items, and discriminated unions of blocks", () => {
+		const { files } = ObjectGeneratorUtil.generateToMemory(toSchema("tax", [salaryTable, summaryList]), "pydantic");
+		const module = files.get("models/tax.py")!;
+
+		expect(files.get("models/base.py")).toContain("class RowModel(WorkbookModel):");
+		expect(module).toContain(`from .base import RowModel, WorkbookModel`);
+		expect(module).toContain(`class SalaryRow(RowModel):
+    employer: Annotated[str, Field(min_length=2, pattern="^[A-Z]")]
+    amount: Optional[Annotated[float, Field(ge=0)]]
+    email: str
+`);
+		expect(module).toContain(`    entity: Literal["table"] = Field(alias="@entity")
+    header: tuple[Literal["employer"], Literal["amount"], Literal["email"]]
+    rows: list[SalaryRow]
+`);
+		expect(module).toContain(`class SummaryItem(WorkbookModel):
+    regime: Optional[Literal["old", "new"]] = None
+    class_: int = Field(alias="class")
+`);
+		expect(module).toContain(`TaxSheetBlock = Annotated[Union[SalaryTable, SummaryList], Field(discriminator="name")]`);
+		expect(module).toContain(`TaxWorkbookSheet = TaxSheet`);
+		expect(files.get("models/__init__.py")).toContain(`__all__ = [
+    "RowModel",
+    "SalaryRow",
+    "SalaryTable",
+    "SummaryItem",
+    "SummaryList",
+    "TaxSheet",
+    "TaxSheetBlock",
+    "TaxWorkbook",
+    "TaxWorkbookSheet",
+    "WorkbookModel",
+]`);
+	});
+
+	it("declares the blocks used by several workbooks once, in the common module", () => {
+		const { files } = ObjectGeneratorUtil.generateToMemory([toSchema("tax", [salaryTable, summaryList]), toSchema("payroll", [summaryList])], "pydantic");
+
+		expect(files.get("models/common.py")).toContain("class SummaryList(WorkbookModel):");
+		expect(files.get("models/tax.py")).not.toContain("class SummaryList");
+		expect(files.get("models/tax.py")).toContain(`from .common import SummaryList`);
+		expect(files.get("models/payroll.py")).toContain(`PayrollSheetBlock = SummaryList`);
+		expect(files.get("models/__init__.py")).toContain(`from .common import (\n    SummaryItem,\n    SummaryList,\n)`);
+	});
+});
@@ -0,0 +1,94 @@
+import { JsonSchema } from "../src/beans";
+import { SchemaDiffUtil } from "../src/utils/SchemaDiffUtil";
+
+const toSchema = (columns: Array<[string, Record<string, any>]>, itemProperties: Record<string, any> = {}, required: string[] = []): JsonSchema => ({
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["tax"] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: ["income"] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: {
+								type: "array",
+								items: {
+									oneOf: [
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["salary_table"] },
+												"@entity": { type: "string", enum: ["table"] },
+												header: { type: "array", items: columns.map(([column]) => ({ type: "string", enum: [column] })) },
+												rows: { type: "array", items: { type: "array", items: columns.map(([, columnSchema]) => columnSchema) } },
+											},
+										},
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["summary"] },
+												"@entity": { type: "string", enum: ["list"] },
+												items: { type: "array", items: { type: "object", properties: itemProperties, required } },
+											},
+										},
+									],
+								},
+							},
+						},
+					},
+				],
+			},
+		},
+	},
+});
+
+const employer: [string, Record<string, any>] = ["employer", { type: "string" }];
+const amount: [string, Record<string, any>] = ["amount", { type: "number" }];
+const paidOn: [string, Record<string, any>] = ["paid_on", { type: "string", format: "date" }];
+
+/**
+ * Lists the changes as "severity kind column"
+ */
+const summarize = (before: JsonSchema, after: JsonSchema): string[] => SchemaDiffUtil.diff(before, after).map((change) => [change.severity, change.kind, change.column].filter(Boolean).join(" "));
+
+describe("SchemaDiffUtil.diff", () => {
+	const before = toSchema([employer, amount], { total: { type: "number" } });
+
+	it("reports no change between identical schemas", () => {
+		expect(summarize(before, toSchema([employer, amount], { total: { type: "number" } }))).toEqual([]);
+	});
+
+	it("classifies a column added at the end of the header as non-breaking", () => {
+		expect(summarize(before, toSchema([employer, amount, paidOn], { total: { type: "number" } }))).toEqual(["non-breaking column-added paid_on"]);
+	});
+
+	it("classifies a column inserted before existing columns as breaking", () => {
+		expect(summarize(before, toSchema([employer, paidOn, amount], { total: { type: "number" } }))).toEqual(["breaking column-inserted paid_on"]);
+		expect(summarize(before, toSchema([paidOn, employer, amount], { total: { type: "number" } }))).toEqual(["breaking column-inserted paid_on"]);
+	});
+
+	it("classifies a removed or reordered column as breaking", () => {
+		expect(summarize(before, toSchema([amount], { total: { type: "number" } }))).toEqual(["breaking column-removed employer"]);
+		expect(summarize(before, toSchema([amount, employer], { total: { type: "number" } }))).toEqual(["breaking header-reordered"]);
+	});
+
+	it("classifies a narrowed type as breaking and a widened one as non-breaking", () => {
+		const narrowed = SchemaDiffUtil.diff(before, toSchema([employer, ["amount", { type: "integer" }]], { total: { type: "number" } }));
+		const widened = SchemaDiffUtil.diff(before, toSchema([employer, ["amount", { type: ["number", "null"] }]], { total: { type: "number" } }));
+
+		expect(SchemaDiffUtil.isBreaking(narrowed)).toBe(true);
+		expect(SchemaDiffUtil.isBreaking(widened)).toBe(false);
+		expect(widened.length).toBeGreaterThan(0);
+	});
+
+	it("classifies added list keys by whether they are required", () => {
+		expect(summarize(before, toSchema([employer, amount], { total: { type: "number" }, owner: { type: "string" } }))).toEqual(["non-breaking key-added owner"]);
+		expect(summarize(before, toSchema([employer, amount], { total: { type: "number" }, owner: { type: "string" } }, ["owner"]))).toEqual(["breaking key-added owner"]);
+		expect(summarize(before, toSchema([employer, amount]))).toEqual(["breaking key-removed total"]);
+	});
+});
@@ -0,0 +1,78 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { SchemaRefResolverUtil } from "../src/utils/SchemaRefResolverUtil";
+
+describe("SchemaRefResolverUtil", () => {
+	let schemaDir: string;
+
+	beforeEach(() => {
+		schemaDir = fs.mkdtempSync(path.join(os.tmpdir(), "schema-ref-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(schemaDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * Writes a schema file to the schema directory, and returns its path
+	 */
+	const writeSchema = (fileName: string, schema: Record<string, any>): string => {
+		const filePath = path.join(schemaDir, fileName);
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, JSON.stringify(schema));
+		return filePath;
+	};
+
+	it("resolves local refs to definitions and $defs, unescaping pointer segments", () => {
+		const schema: Record<string, any> = {
+			definitions: { amount: { type: "number" } },
+			$defs: { "a/b": { $ref: "#/definitions/amount" } },
+		};
+
+		expect(SchemaRefResolverUtil.resolveIfRef({ $ref: "#/$defs/a~1b" }, schema)).toBe(schema.definitions.amount);
+	});
+
+	it("resolves refs to other files relative to the referring file, through several files", () => {
+		writeSchema("common/address.schema.json", { definitions: { city: { type: "string", enum: ["Pune"] } } });
+		writeSchema("common/blocks.schema.json", { definitions: { address: { type: "object", properties: { city: { $ref: "./address.schema.json#/definitions/city" } } } } });
+		const schema = SchemaRefResolverUtil.load(writeSchema("tax.schema.json", { properties: { address: { $ref: "./common/blocks.schema.json#/definitions/address" } } }));
+
+		const address = SchemaRefResolverUtil.resolveIfRef(schema.properties!.address, schema)!;
+		expect(SchemaRefResolverUtil.resolveIfRef(address.properties!.city, schema)).toEqual({ type: "string", enum: ["Pune"] });
+		expect(SchemaRefResolverUtil.isExternal(address, schema)).toBe(true);
+		expect(SchemaRefResolverUtil.getReferencedFiles(schema)).toEqual([path.join(schemaDir, "common/blocks.schema.json"), path.join(schemaDir, "common/address.schema.json")]);
+	});
+
+	it("resolves refs by $id and by $anchor", () => {
+		SchemaRefResolverUtil.load(writeSchema("common.schema.json", { $id: "https://example.com/common.schema.json", definitions: { pin: { $anchor: "pin", type: "string" } } }));
+		const schema: Record<string, any> = { properties: { pin: { $ref: "https://example.com/common.schema.json#pin" } } };
+
+		expect(SchemaRefResolverUtil.resolveIfRef(schema.properties.pin, schema)).toEqual({ $anchor: "pin", type: "string" });
+	});
+
+	it("reports circular refs with their chain", () => {
+		const schema = SchemaRefResolverUtil.load(writeSchema("cyclic.schema.json", { definitions: { a: { $ref: "#/definitions/b" }, b: { $ref: "#/definitions/a" } } }));
+		const uri = pathToFileURL(path.join(schemaDir, "cyclic.schema.json")).href;
+
+		expect(() => SchemaRefResolverUtil.resolveIfRef({ $ref: "#/definitions/a" }, schema)).toThrow(`Circular $ref: ${uri}#/definitions/a -> ${uri}#/definitions/b -> ${uri}#/definitions/a`);
+	});
+
+	it("reports refs to missing files and missing definitions", () => {
+		const schema = SchemaRefResolverUtil.load(writeSchema("tax.schema.json", { definitions: {} }));
+
+		expect(() => SchemaRefResolverUtil.resolveIfRef({ $ref: "./missing.schema.json" }, schema)).toThrow(`file "${path.join(schemaDir, "missing.schema.json")}" does not exist`);
+		expect(() => SchemaRefResolverUtil.resolveIfRef({ $ref: "#/definitions/address" }, schema)).toThrow("Could not resolve pointer: /definitions/address");
+	});
+
+	it("reads an unloaded file again when it is next referenced", () => {
+		const commonPath = writeSchema("common.schema.json", { definitions: { amount: { type: "number" } } });
+		const schema = SchemaRefResolverUtil.load(writeSchema("tax.schema.json", { properties: { amount: { $ref: "./common.schema.json#/definitions/amount" } } }));
+		expect(SchemaRefResolverUtil.resolveIfRef(schema.properties!.amount, schema)).toEqual({ type: "number" });
+
+		writeSchema("common.schema.json", { definitions: { amount: { type: "integer" } } });
+		SchemaRefResolverUtil.unload(commonPath);
+		expect(SchemaRefResolverUtil.resolveIfRef(schema.properties!.amount, schema)).toEqual({ type: "integer" });
+	});
+});
@@ -0,0 +1,122 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { JsonSchema } from "../src/beans";
+import { ExcelToSchemaGeneratorUtil } from "../src/utils/ExcelToSchemaGeneratorUtil";
+import { SchemaToExcelGeneratorUtil } from "../src/utils/SchemaToExcelGeneratorUtil";
+
+/**
+ * A workbook schema in the form generated by excel-to-schema
+ */
+const schema: JsonSchema = {
+	$schema: "http://json-schema.org/draft-07/schema#",
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["tax"] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: ["income"] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: {
+								type: "array",
+								items: {
+									oneOf: [
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["salary_table"] },
+												"@entity": { type: "string", enum: ["table"] },
+												header: {
+													type: "array",
+													items: [
+														{ type: "string", enum: ["employer"] },
+														{ type: "string", enum: ["amount"] },
+														{ type: "string", enum: ["paid_on"] },
+														{ type: "string", enum: ["address"] },
+													],
+													additionalItems: false,
+													minItems: 4,
+													maxItems: 4,
+												},
+												rows: {
+													type: "array",
+													items: {
+														type: "array",
+														items: [
+															{ type: "string", pattern: "^[A-Z]", description: "Name of the employer", examples: ["Quicko", "Acme, Inc."] },
+															{ type: "number", minimum: 0, examples: [1200, 0] },
+															{ type: ["string", "null"], format: "date", examples: ["2024-04-01"] },
+															{
+																type: ["object", "null"],
+																properties: {
+																	city: { type: "string", enum: ["Pune", "Mumbai"] },
+																	pin: { type: ["string", "null"], minLength: 6, maxLength: 6 },
+																},
+																required: ["city"],
+																additionalProperties: false,
+															},
+														],
+														additionalItems: false,
+														minItems: 4,
+														maxItems: 4,
+													},
+												},
+											},
+											required: ["name", "@entity", "header", "rows"],
+										},
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["summary_list"] },
+												"@entity": { type: "string", enum: ["list"] },
+												items: {
+													type: "array",
+													items: {
+														type: "object",
+														properties: {
+															total: { type: ["number", "null"], maximum: 1000000 },
+															remarks: { type: "null" },
+														},
+														additionalProperties: false,
+													},
+												},
+											},
+											required: ["name", "@entity", "items"],
+										},
+									],
+								},
+							},
+						},
+						required: ["name", "@entity", "blocks"],
+					},
+				],
+			},
+		},
+	},
+	required: ["name", "@entity", "sheets"],
+};
+
+describe("SchemaToExcelGeneratorUtil", () => {
+	let outputDir: string;
+
+	beforeEach(() => {
+		outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "schema-to-excel-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(outputDir, { recursive: true, force: true });
+	});
+
+	it("round-trips a schema through excel-to-schema", () => {
+		const excelFilePath = path.join(outputDir, "tax.xlsx");
+		SchemaToExcelGeneratorUtil.generate(schema, excelFilePath);
+
+		expect(ExcelToSchemaGeneratorUtil.generate(excelFilePath)).toEqual(schema);
+	});
+});
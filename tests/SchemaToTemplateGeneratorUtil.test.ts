@@ -0,0 +1,138 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as XLSX from "xlsx";
+import { JsonSchema } from "../src/beans";
+import { ExcelToJsonGeneratorUtil } from "../src/utils/ExcelToJsonGeneratorUtil";
+import { SchemaToTemplateGeneratorUtil } from "../src/utils/SchemaToTemplateGeneratorUtil";
+
+/**
+ * A workbook schema with a constrained table and a list
+ */
+const schema: JsonSchema = {
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["tax"] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: ["income"] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: {
+								type: "array",
+								items: {
+									oneOf: [
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["salary_table"] },
+												"@entity": { type: "string", enum: ["table"] },
+												header: { type: "array", items: [{ type: "string", enum: ["employer"] }, { type: "string", enum: ["amount"] }, { type: "string", enum: ["state"] }] },
+												rows: {
+													type: "array",
+													items: {
+														type: "array",
+														items: [
+															{ type: "string", minLength: 2, maxLength: 40, description: "Name of the employer" },
+															{ type: "integer", minimum: 0 },
+															{ type: ["string", "null"], enum: Array.from({ length: 40 }, (_, index) => `state-${index}`) },
+														],
+													},
+												},
+											},
+										},
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["summary"] },
+												"@entity": { type: "string", enum: ["list"] },
+												items: { type: "array", items: { type: "object", properties: { regime: { type: "string", enum: ["old", "new"] }, total: { type: "number" } } } },
+											},
+										},
+									],
+								},
+							},
+						},
+					},
+				],
+			},
+		},
+	},
+};
+
+describe("SchemaToTemplateGeneratorUtil", () => {
+	let outputDir: string;
+	let excelFilePath: string;
+
+	beforeEach(() => {
+		outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "schema-to-template-"));
+		excelFilePath = path.join(outputDir, "tax.xlsx");
+	});
+
+	afterEach(() => {
+		fs.rmSync(outputDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * Reads the XML of a worksheet of the written file, where the data validations are
+	 */
+	const readWorksheetXml = (index: number): string => {
+		const zip = XLSX.CFB.read(fs.readFileSync(excelFilePath), { type: "buffer" });
+		return Buffer.from(XLSX.CFB.find(zip, `/xl/worksheets/sheet${index}.xml`)!.content).toString("utf-8");
+	};
+
+	it("lays out each table with empty rows and each list with its keys", () => {
+		SchemaToTemplateGeneratorUtil.generate(schema, excelFilePath, { rows: 2 });
+
+		const wb = XLSX.readFile(excelFilePath, { cellNF: true });
+		expect(wb.SheetNames).toEqual(["income", "_enums"]);
+		expect(XLSX.utils.sheet_to_json(wb.Sheets.income, { header: 1, blankrows: true, defval: null })).toEqual([
+			["salary_table", null, null],
+			["employer", "amount", "state"],
+			["", "", ""],
+			["", "", ""],
+			[null, null, null],
+			["summary", null, null],
+			["regime", "", null],
+			["total", "", null],
+		]);
+
+		// Cells formatted for the type of their column, and descriptions as comments
+		expect([wb.Sheets.income.A3.z, wb.Sheets.income.B3.z]).toEqual(["@", "0"]);
+		expect(wb.Sheets.income.A2.c?.[0].t).toBe("Name of the employer");
+	});
+
+	it("adds the data validations of the constraints, with long enums on a hidden tab", () => {
+		SchemaToTemplateGeneratorUtil.generate(schema, excelFilePath, { rows: 2 });
+
+		const xml = readWorksheetXml(1);
+		expect(xml).toContain(`<dataValidation type="textLength" operator="between" allowBlank="1" showErrorMessage="1" errorTitle="Invalid value" sqref="A3:A4" error="Enter a text of 2 to 40 characters."><formula1>2</formula1><formula2>40</formula2></dataValidation>`);
+		expect(xml).toContain(`<dataValidation type="whole" operator="greaterThanOrEqual" allowBlank="1" showErrorMessage="1" errorTitle="Invalid value" sqref="B3:B4" error="Enter a whole number of at least 0."><formula1>0</formula1></dataValidation>`);
+		expect(xml).toContain(`sqref="C3:C4" error="Choose a value from the list."><formula1>'_enums'!$A$1:$A$40</formula1>`);
+		expect(xml).toContain(`sqref="B7" error="Choose a value from the list."><formula1>&quot;old,new&quot;</formula1>`);
+
+		const wb = XLSX.readFile(excelFilePath, { bookFiles: true });
+		expect(wb.Workbook?.Sheets?.map(({ Hidden }) => Hidden)).toEqual([0, 1]);
+		expect(XLSX.utils.sheet_to_json(wb.Sheets._enums, { header: 1 })).toHaveLength(40);
+	});
+
+	it("is read back by excel-to-json once filled in", () => {
+		SchemaToTemplateGeneratorUtil.generate(schema, excelFilePath, { rows: 3 });
+
+		const wb = XLSX.readFile(excelFilePath);
+		XLSX.utils.sheet_add_aoa(wb.Sheets.income, [["Quicko", 1200, "state-3"]], { origin: "A3" });
+		XLSX.utils.sheet_add_aoa(wb.Sheets.income, [["new"], [250.5]], { origin: "B8" });
+		const { workbook, issues } = ExcelToJsonGeneratorUtil.generate(XLSX.write(wb, { type: "buffer", bookType: "xlsx" }), schema);
+
+		expect(issues).toEqual([]);
+		expect(workbook.sheets[0].blocks).toEqual([
+			{ name: "salary_table", "@entity": "table", header: ["employer", "amount", "state"], rows: [["Quicko", 1200, "state-3"]] },
+			{ name: "summary", "@entity": "list", items: [{ regime: "new" }, { total: 250.5 }] },
+		]);
+	});
+});
@@ -0,0 +1,96 @@
+import { JsonSchema } from "../src/beans";
+import { SqlGeneratorUtil } from "../src/utils/SqlGeneratorUtil";
+
+/**
+ * A workbook schema with a table of a text column, an object column and a column of several types
+ */
+const schema: JsonSchema = {
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["tax"] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: ["income"] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: {
+								type: "array",
+								items: {
+									oneOf: [
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["salary_table"] },
+												"@entity": { type: "string", enum: ["table"] },
+												header: {
+													type: "array",
+													items: [
+														{ type: "string", enum: ["employer"] },
+														{ type: "string", enum: ["address"] },
+														{ type: "string", enum: ["amount"] },
+													],
+												},
+												rows: {
+													type: "array",
+													items: {
+														type: "array",
+														items: [{ type: "string" }, { type: ["object", "null"], properties: { city: { type: "string" } } }, { type: ["string", "number"] }],
+													},
+												},
+											},
+										},
+									],
+								},
+							},
+						},
+					},
+				],
+			},
+		},
+	},
+};
+
+const workbook = {
+	name: "tax",
+	"@entity": "workbook",
+	sheets: [
+		{
+			name: "income",
+			"@entity": "sheet",
+			blocks: [
+				{
+					name: "salary_table",
+					"@entity": "table",
+					header: ["employer", "address", "amount"],
+					rows: [
+						["Quicko", { city: "Pune" }, "1,200"],
+						["Acme", null, 900],
+					],
+				},
+			],
+		},
+	],
+};
+
+describe("SqlGeneratorUtil", () => {
+	it("writes the values of JSON columns as JSON text", () => {
+		expect(SqlGeneratorUtil.generateTables(schema, "postgres")).toContain("amount JSONB NOT NULL");
+
+		const inserts = SqlGeneratorUtil.generateInserts(schema, workbook, "w1", "postgres");
+		expect(inserts).toContain(`('w1', 'income', 0, 'Quicko', '{"city":"Pune"}', '"1,200"')`);
+		expect(inserts).toContain(`('w1', 'income', 1, 'Acme', NULL, '900')`);
+	});
+
+	it("fails on a header column named like a generated column", () => {
+		const clashing = JSON.parse(JSON.stringify(schema).replace('"enum":["employer"]', '"enum":["row_index"]'));
+		const message = 'Column "row_index" of table "salary_table" of the schema of workbook "tax" clashes with the generated column of the same name: rename it';
+
+		expect(() => SqlGeneratorUtil.generateTables(clashing, "sqlite")).toThrow(message);
+		expect(() => SqlGeneratorUtil.generateInserts(clashing, workbook, "w1", "sqlite")).toThrow(message);
+	});
+});
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { createRequire } from "module";
+import * as path from "path";
+import ts from "typescript";
+import { JsonSchema } from "../src/beans";
+import { ObjectGeneratorUtil } from "../src/utils/ObjectGeneratorUtil";
+
+const require = createRequire(import.meta.url);
+
+/**
+ * A workbook schema with a constrained table and a constrained list
+ */
+const schema: JsonSchema = {
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["tax"] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: ["income"] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: {
+								type: "array",
+								items: {
+									oneOf: [
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["salary_table"] },
+												"@entity": { type: "string", enum: ["table"] },
+												header: { type: "array", items: [{ type: "string", enum: ["employer"] }, { type: "string", enum: ["amount"] }, { type: "string", enum: ["paid_on"] }] },
+												rows: {
+													type: "array",
+													items: {
+														type: "array",
+														items: [
+															{ type: "string", minLength: 2, pattern: "^[A-Z]" },
+															{ type: ["number", "null"], minimum: 0 },
+															{ type: "string", format: "date" },
+														],
+													},
+												},
+											},
+										},
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["summary"] },
+												"@entity": { type: "string", enum: ["list"] },
+												items: {
+													type: "array",
+													items: { type: "object", properties: { regime: { type: "string", enum: ["old", "new"] }, total: { type: "number", maximum: 100 } } },
+												},
+											},
+										},
+									],
+								},
+							},
+						},
+					},
+				],
+			},
+		},
+	},
+};
+
+describe("ValidationGeneratorUtil", () => {
+	/**
+	 * Loads the generated classes, transpiled to CommonJS, resolving relative imports within the generated files
+	 */
+	const files = ObjectGeneratorUtil.generateToMemory(schema).files;
+	const modules = new Map<string, Record<string, any>>();
+	const load = (filePath: string): Record<string, any> => {
+		if (!modules.has(filePath)) {
+			const module = { exports: {} as Record<string, any> };
+			modules.set(filePath, module.exports);
+			const javascript = ts.transpileModule(files.get(filePath)!, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, experimentalDecorators: true, useDefineForClassFields: false } }).outputText;
+			const requireModule = (name: string) => (name.startsWith(".") ? load(`${path.posix.join(path.posix.dirname(filePath), name)}.ts`) : require(name));
+			new Function("module", "exports", "require", javascript)(module, module.exports, requireModule);
+		}
+		return modules.get(filePath)!;
+	};
+
+	it("reports the cells of a table that violate the constraints of their column", () => {
+		const { SalaryTable } = load("tables/salary-table/SalaryTable.ts");
+		const { SalaryRow } = load("tables/salary-table/SalaryRow.ts");
+		const table = new SalaryTable();
+		const valid = new SalaryRow(["Quicko", null, "2024-03-31"]);
+		const invalid = new SalaryRow(["q", -1, "31/03/2024"]);
+		table.addRow(valid);
+		table.addRow(invalid);
+
+		expect(valid.validate()).toEqual([]);
+		expect(table.validate()).toEqual([
+			{ column: "employer", row: 1, rule: "minLength", value: "q" },
+			{ column: "employer", row: 1, rule: "pattern", value: "q" },
+			{ column: "amount", row: 1, rule: "minimum", value: -1 },
+			{ column: "paid_on", row: 1, rule: "format", value: "31/03/2024" },
+		]);
+	});
+
+	it("reports the items of a list that violate the constraints of their key, or have an unknown key", () => {
+		const { SummaryList } = load("lists/summary/SummaryList.ts");
+		const { Item } = require("@org-quicko/sheet");
+		const list = new SummaryList();
+		list.addItem(new Item("regime", "mid"));
+		list.addItem(new Item("total", 120));
+		list.addItem(new Item("owner", "bob"));
+
+		expect(list.validate()).toEqual([
+			{ column: "regime", row: 0, rule: "enum", value: "mid" },
+			{ column: "total", row: 1, rule: "maximum", value: 120 },
+			{ column: "owner", row: 2, rule: "additionalProperties", value: "bob" },
+		]);
+	});
+
+	it("reports a null in a column that is not nullable", () => {
+		const { SalaryRow } = load("tables/salary-table/SalaryRow.ts");
+		const row = new SalaryRow([null, null, "2024-03-31"]);
+
+		expect(row.validate(3)).toEqual([{ column: "employer", row: 3, rule: "nullable", value: null }]);
+	});
+});
@@ -0,0 +1,63 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Watcher, WatchUtil } from "../src/utils/WatchUtil";
+
+describe("WatchUtil.watch", () => {
+	let inputDir: string;
+	let watcher: Watcher | undefined;
+	let changes: string[][];
+
+	beforeEach(() => {
+		inputDir = fs.mkdtempSync(path.join(os.tmpdir(), "watch-"));
+		fs.mkdirSync(path.join(inputDir, "tax"));
+		fs.mkdirSync(path.join(inputDir, "generated"));
+
+		changes = [];
+		watcher = WatchUtil.watch(
+			inputDir,
+			{
+				extensions: [".json"],
+				excludedDirectories: [path.join(inputDir, "generated")],
+				debounceMs: 50,
+				onError: (error) => {
+					throw error;
+				},
+			},
+			(files) => changes.push(files)
+		);
+	});
+
+	afterEach(() => {
+		watcher?.close();
+		fs.rmSync(inputDir, { recursive: true, force: true });
+	});
+
+	/**
+	 * Waits for the given number of changes to be handled
+	 */
+	const waitForChanges = async (count: number): Promise<string[][]> => {
+		for (let waited = 0; changes.length < count && waited < 5000; waited += 50) {
+			await new Promise((resolve) => setTimeout(resolve, 50));
+		}
+		return changes;
+	};
+
+	it("reports the changed files of subdirectories", async () => {
+		fs.writeFileSync(path.join(inputDir, "generated", "tax.json"), "{}");
+		fs.writeFileSync(path.join(inputDir, "tax", "notes.txt"), "");
+		fs.writeFileSync(path.join(inputDir, "tax", "tax.json"), "{}");
+
+		expect(await waitForChanges(1)).toEqual([[path.join(inputDir, "tax", "tax.json")]]);
+	});
+
+	it("watches the directories created after it started", async () => {
+		const payrollFile = path.join(inputDir, "payroll", "payroll.json");
+		fs.mkdirSync(path.join(inputDir, "payroll"));
+		fs.writeFileSync(payrollFile, "{}");
+		expect(await waitForChanges(1)).toEqual([[payrollFile]]);
+
+		fs.writeFileSync(payrollFile, "{ }");
+		expect(await waitForChanges(2)).toEqual([[payrollFile], [payrollFile]]);
+	});
+});
@@ -0,0 +1,125 @@
+import { JsonSchema } from "../src/beans";
+import { WorkbookValidatorUtil } from "../src/utils/WorkbookValidatorUtil";
+
+/**
+ * A workbook schema with a constrained table and a closed list
+ */
+const schema: JsonSchema = {
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["tax"] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: ["income"] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: {
+								type: "array",
+								items: {
+									oneOf: [
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["salary_table"] },
+												"@entity": { type: "string", enum: ["table"] },
+												header: { type: "array", items: [{ type: "string", enum: ["employer"] }, { type: "string", enum: ["amount"] }, { type: "string", enum: ["address"] }] },
+												rows: {
+													type: "array",
+													items: {
+														type: "array",
+														items: [
+															{ type: "string", minLength: 2 },
+															{ type: ["number", "null"], minimum: 0 },
+															{ type: ["object", "null"], properties: { city: { type: "string" } }, required: ["city"] },
+														],
+													},
+												},
+											},
+										},
+										{
+											type: "object",
+											properties: {
+												name: { type: "string", enum: ["summary"] },
+												"@entity": { type: "string", enum: ["list"] },
+												items: {
+													type: "array",
+													items: { type: "object", properties: { regime: { type: "string", enum: ["old", "new"] } }, additionalProperties: false },
+												},
+											},
+										},
+									],
+								},
+							},
+						},
+					},
+				],
+			},
+		},
+	},
+};
+
+const toWorkbook = (rows: unknown[][], items: Array<Record<string, unknown>> = [{ regime: "new" }]): any => ({
+	name: "tax",
+	"@entity": "workbook",
+	sheets: [
+		{
+			name: "income",
+			"@entity": "sheet",
+			blocks: [
+				{ name: "salary_table", "@entity": "table", header: ["employer", "amount", "address"], rows },
+				{ name: "summary", "@entity": "list", items },
+			],
+		},
+	],
+});
+
+describe("WorkbookValidatorUtil", () => {
+	it("finds no issues in a valid workbook", () => {
+		expect(WorkbookValidatorUtil.validate(toWorkbook([["Quicko", 1200, { city: "Pune" }], ["Acme", null, null]]), schema)).toEqual([]);
+	});
+
+	it("reports the cells that violate their column, with their location", () => {
+		const issues = WorkbookValidatorUtil.validate(toWorkbook([["Quicko", "1,200", { city: "Pune" }], ["Q", -1, {}]]), schema);
+		const location = { sheet: "income", block: "salary_table", entity: "table" };
+
+		expect(issues).toEqual([
+			{ ...location, row: 0, column: "amount", rule: "type", message: "expected number or null, got string", value: "1,200" },
+			{ ...location, row: 1, column: "employer", rule: "minLength", message: "expected at least 2 characters, got 1", value: "Q" },
+			{ ...location, row: 1, column: "amount", rule: "minimum", message: "expected at least 0, got -1", value: -1 },
+			{ ...location, row: 1, column: "address", rule: "required", message: "missing property `city`", value: {} },
+		]);
+		expect(WorkbookValidatorUtil.format(issues[0])).toBe("sheet `income`, table `salary_table`, row 0, column `amount`: expected number or null, got string");
+	});
+
+	it("reports rows of the wrong length", () => {
+		const issues = WorkbookValidatorUtil.validate(toWorkbook([["Quicko", 1200]]), schema);
+
+		expect(issues.map(({ row, rule, message }) => ({ row, rule, message }))).toEqual([{ row: 0, rule: "minItems", message: "expected 3 cells, got 2" }]);
+	});
+
+	it("reports unknown keys and values outside the enum of a list", () => {
+		const issues = WorkbookValidatorUtil.validate(toWorkbook([], [{ regime: "mid" }, { owner: "bob" }]), schema);
+
+		expect(issues.map(({ row, column, rule }) => ({ row, column, rule }))).toEqual([
+			{ row: 0, column: "regime", rule: "enum" },
+			{ row: 1, column: "owner", rule: "additionalProperties" },
+		]);
+		expect(WorkbookValidatorUtil.format(issues[1])).toBe("sheet `income`, list `summary`, item 1, key `owner`: unknown key `owner`");
+	});
+
+	it("reports unknown sheets and blocks", () => {
+		const workbook = toWorkbook([]);
+		workbook.sheets[0].blocks.push({ name: "deductions", "@entity": "table", header: [], rows: [] });
+		workbook.sheets.push({ name: "expenses", "@entity": "sheet", blocks: [] });
+
+		expect(WorkbookValidatorUtil.validate(workbook, schema)).toEqual([
+			{ sheet: "income", block: "deductions", rule: "oneOf", message: "unknown block `deductions`" },
+			{ sheet: "expenses", rule: "oneOf", message: "unknown sheet `expenses`" },
+		]);
+	});
+});
@@ -0,0 +1,79 @@
+import { JsonSchema } from "../src/beans";
+import { ObjectGeneratorUtil } from "../src/utils/ObjectGeneratorUtil";
+
+const summaryList: JsonSchema = {
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["summary"] },
+		"@entity": { type: "string", enum: ["list"] },
+		items: { type: "array", items: { type: "object", properties: { regime: { type: "string", enum: ["old", "new"] }, total: { type: "integer", maximum: 100 } }, required: ["regime"] } },
+	},
+};
+
+const toSchema = (workbookName: string, blocks: JsonSchema[]): JsonSchema => ({
+	type: "object",
+	properties: {
+		name: { type: "string", enum: [workbookName] },
+		"@entity": { type: "string", enum: ["workbook"] },
+		sheets: {
+			type: "array",
+			items: {
+				oneOf: [
+					{
+						type: "object",
+						properties: {
+							name: { type: "string", enum: [`${workbookName}_sheet`] },
+							"@entity": { type: "string", enum: ["sheet"] },
+							blocks: { type: "array", items: { oneOf: blocks } },
+						},
+					},
+				],
+			},
+		},
+	},
+});
+
+const salaryTable: JsonSchema = {
+	type: "object",
+	properties: {
+		name: { type: "string", enum: ["salary_table"] },
+		"@entity": { type: "string", enum: ["table"] },
+		header: { type: "array", items: [{ type: "string", enum: ["employer"] }, { type: "string", enum: ["amount"] }, { type: "string", enum: ["email"] }] },
+		rows: {
+			type: "array",
+			items: { type: "array", items: [{ type: "string", minLength: 2, pattern: "^[A-Z]" }, { type: ["number", "null"], minimum: 0 }, { type: "string", format: "email" }] },
+		},
+	},
+};
+
+describe("ZodGeneratorUtil", () => {
+	it("declares tuples for the headers and rows of tables, and objects for the items of lists", () => {
+		const { files } = ObjectGeneratorUtil.generateToMemory(toSchema("tax", [salaryTable, summaryList]), "zod");
+		const module = files.get("zod/tax.ts")!;
+
+		expect(module).toContain(`import { z } from 'zod';`);
+		expect(module).toContain(`export const SalaryRowSchema = z.tuple([
+    z.string().min(2).regex(new RegExp('^[A-Z]')),
+    z.number().min(0).nullable(),
+    z.string().email(),
+]);`);
+		expect(module).toContain(`header: z.tuple([z.literal('employer'), z.literal('amount'), z.literal('email')]),`);
+		expect(module).toContain(`export const SummaryItemSchema = z.object({
+    regime: z.enum(['old', 'new']),
+    total: z.number().int().max(100).optional(),
+});`);
+		expect(module).toContain(`blocks: z.array(z.discriminatedUnion('name', [SalaryTableSchema, SummaryListSchema])),`);
+		expect(module).toContain(`export type TaxWorkbook = z.infer<typeof TaxWorkbookSchema>;`);
+		expect(files.get("index.ts")).toContain(`export * from './zod/tax';`);
+	});
+
+	it("declares the blocks used by several workbooks once, in the common module", () => {
+		const { files } = ObjectGeneratorUtil.generateToMemory([toSchema("tax", [salaryTable, summaryList]), toSchema("payroll", [summaryList])], "zod");
+
+		expect(files.get("zod/common.ts")).toContain("export const SummaryListSchema = z.object({");
+		expect(files.get("zod/tax.ts")).not.toContain("export const SummaryListSchema");
+		expect(files.get("zod/tax.ts")).toContain(`import { SummaryListSchema } from './common';`);
+		expect(files.get("zod/payroll.ts")).toContain(`import { SummaryListSchema } from './common';`);
+		expect(files.get("zod/payroll.ts")).toContain(`blocks: z.array(SummaryListSchema),`);
+	});
+});